@@ -7,7 +7,13 @@ import Restaurants from "./pages/Restaurants";
 import RestaurantMenu from "./pages/RestaurantMenu";
 import Admin from "./pages/Admin";
 import Auth from "./pages/Auth";
+import ResetPassword from "./pages/ResetPassword";
+import Account from "./pages/Account";
+import Kitchen from "./pages/Kitchen";
+import MenuPrint from "./pages/MenuPrint";
 import NotFound from "./pages/NotFound";
+import AuthProvider from "./components/auth/AuthProvider";
+import RequireRole from "./components/auth/RequireRole";
 
 const queryClient = new QueryClient();
 
@@ -17,14 +23,21 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Restaurants />} />
-          <Route path="/menu/:slug" element={<RestaurantMenu />} />
-          <Route path="/admin" element={<Admin />} />
-          <Route path="/auth" element={<Auth />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <Routes>
+            <Route path="/" element={<Restaurants />} />
+            <Route path="/menu/:slug" element={<RestaurantMenu />} />
+            <Route path="/menu/:slug/table/:tableCode" element={<RestaurantMenu />} />
+            <Route path="/menu/:slug/print" element={<MenuPrint />} />
+            <Route path="/admin" element={<RequireRole role="staff"><Admin /></RequireRole>} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/auth/reset" element={<ResetPassword />} />
+            <Route path="/account" element={<RequireRole><Account /></RequireRole>} />
+            <Route path="/kitchen/:slug" element={<RequireRole role="staff"><Kitchen /></RequireRole>} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -0,0 +1,265 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  AUDIT_ENTITIES,
+  describeAuditRecord,
+  diffAuditEntry,
+  getAuditAction,
+  getAuditEntityLabel,
+} from "@/lib/audit";
+import FieldChanges from "@/components/admin/FieldChanges";
+
+interface Restaurant {
+  id: string;
+  name: string;
+}
+
+interface Actor {
+  user_id: string;
+  email: string;
+}
+
+interface AuditEntry {
+  id: string;
+  table_name: string;
+  record_id: string;
+  action: string;
+  restaurant_id: string | null;
+  actor_id: string | null;
+  old_data: Json | null;
+  new_data: Json | null;
+  created_at: string | null;
+}
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const ACTION_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  insert: { label: "Created", variant: "default" },
+  update: { label: "Updated", variant: "secondary" },
+  delete: { label: "Deleted", variant: "destructive" },
+  trash: { label: "Moved to trash", variant: "destructive" },
+  restore: { label: "Restored", variant: "default" },
+};
+
+const ActivityAdmin = () => {
+  const { access } = useAuth();
+  const isAdmin = !!access?.isAdmin;
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [actors, setActors] = useState<Actor[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [restaurantFilter, setRestaurantFilter] = useState(ALL);
+  const [entityFilter, setEntityFilter] = useState(ALL);
+  const [actorFilter, setActorFilter] = useState(ALL);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchFilters = async () => {
+      try {
+        let restaurantsQuery = supabase.from("restaurants").select("id, name").order("name");
+        if (!access?.isAdmin) restaurantsQuery = restaurantsQuery.in("id", access?.managedRestaurantIds ?? []);
+
+        const [restaurantsRes, actorsRes] = await Promise.all([
+          restaurantsQuery,
+          supabase.rpc("list_audit_actors"),
+        ]);
+
+        if (restaurantsRes.error) throw restaurantsRes.error;
+        if (actorsRes.error) throw actorsRes.error;
+        setRestaurants(restaurantsRes.data || []);
+        setActors(actorsRes.data || []);
+      } catch (error) {
+        toast.error("Failed to load activity filters");
+        console.error(error);
+      }
+    };
+
+    fetchFilters();
+  }, [access]);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      let query = supabase
+        .from("audit_log")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (restaurantFilter !== ALL) query = query.eq("restaurant_id", restaurantFilter);
+      if (entityFilter !== ALL) query = query.eq("table_name", entityFilter);
+      if (actorFilter !== ALL) query = query.eq("actor_id", actorFilter);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      toast.error("Failed to load activity");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [restaurantFilter, entityFilter, actorFilter, limit]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Changing a filter starts again from the first page
+  const applyFilter = (setFilter: (value: string) => void) => (value: string) => {
+    setFilter(value);
+    setLimit(PAGE_SIZE);
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const restaurantName = (id: string | null) =>
+    id ? restaurants.find(r => r.id === id)?.name || "Removed restaurant" : "—";
+
+  const actorEmail = (id: string | null) =>
+    id ? actors.find(a => a.user_id === id)?.email || "Unknown user" : "System";
+
+  // Role changes are only visible to admins
+  const entities = AUDIT_ENTITIES.filter(e => isAdmin || e.table !== "user_roles");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <h2 className="text-3xl font-bold">Activity</h2>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Select value={restaurantFilter} onValueChange={applyFilter(setRestaurantFilter)}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All restaurants</SelectItem>
+              {restaurants.map((restaurant) => (
+                <SelectItem key={restaurant.id} value={restaurant.id}>
+                  {restaurant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={entityFilter} onValueChange={applyFilter(setEntityFilter)}>
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All changes</SelectItem>
+              {entities.map((entity) => (
+                <SelectItem key={entity.table} value={entity.table}>
+                  {entity.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actorFilter} onValueChange={applyFilter(setActorFilter)}>
+            <SelectTrigger className="w-full sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everyone</SelectItem>
+              {actors.map((actor) => (
+                <SelectItem key={actor.user_id} value={actor.user_id}>
+                  {actor.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No changes recorded yet.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>What</TableHead>
+                  <TableHead className="hidden md:table-cell">Restaurant</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const isExpanded = expanded.has(entry.id);
+                  const badge = ACTION_BADGES[getAuditAction(entry.action, entry.old_data, entry.new_data)];
+                  const changes = isExpanded ? diffAuditEntry(entry.old_data, entry.new_data) : [];
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow className="cursor-pointer" onClick={() => toggleExpanded(entry.id)}>
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {entry.created_at && new Date(entry.created_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell>{actorEmail(entry.actor_id)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap items-center gap-2">
+                            {badge && <Badge variant={badge.variant}>{badge.label}</Badge>}
+                            <span className="text-muted-foreground">{getAuditEntityLabel(entry.table_name)}</span>
+                            <span className="font-medium">{describeAuditRecord(entry.old_data, entry.new_data)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell">{restaurantName(entry.restaurant_id)}</TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell />
+                          <TableCell colSpan={4}>
+                            <FieldChanges changes={changes} action={entry.action} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {entries.length === limit && (
+              <div className="flex justify-center pt-4">
+                <Button variant="outline" onClick={() => setLimit(limit + PAGE_SIZE)}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ActivityAdmin;
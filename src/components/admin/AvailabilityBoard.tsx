@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { Search } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { useNow } from "@/hooks/use-now";
+import { fetchPublishedMenu, getVisibleMenu, type SnapshotCategory, type SnapshotItem } from "@/lib/menu-versions";
+import {
+  SOLD_OUT_DURATIONS,
+  describeSoldOut,
+  fetchSoldOutItems,
+  getSoldOutUntil,
+  isSoldOut,
+  type SoldOutDuration,
+  type SoldOutItem,
+} from "@/lib/sold-out";
+
+interface Restaurant {
+  id: string;
+  name: string;
+  timezone: string;
+}
+
+// One big switch per dish so floor staff can 86 things from a phone mid-service.
+// It works on the published menu, which is what diners are ordering from.
+const AvailabilityBoard = () => {
+  const { access, can } = useAuth();
+  const now = useNow(30_000);
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [selectedRestaurant, setSelectedRestaurant] = useState("");
+  const [categories, setCategories] = useState<SnapshotCategory[]>([]);
+  const [items, setItems] = useState<SnapshotItem[]>([]);
+  const [soldOut, setSoldOut] = useState<SoldOutItem[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRestaurants = async () => {
+      try {
+        let query = supabase.from("restaurants").select("id, name, timezone").order("name");
+        if (!access?.isAdmin) {
+          query = query.in("id", [...(access?.managedRestaurantIds ?? []), ...(access?.floorRestaurantIds ?? [])]);
+        }
+
+        const { data, error } = await query;
+
+        if (error) throw error;
+        setRestaurants(data || []);
+        if (data && data.length > 0) {
+          setSelectedRestaurant(current => current || data[0].id);
+        } else {
+          setLoading(false);
+        }
+      } catch (error) {
+        toast.error("Failed to load restaurants");
+        console.error(error);
+      }
+    };
+
+    fetchRestaurants();
+  }, [access]);
+
+  const fetchBoard = useCallback(async () => {
+    if (!selectedRestaurant) return;
+
+    try {
+      const [menu, soldOutItems] = await Promise.all([
+        fetchPublishedMenu(selectedRestaurant),
+        fetchSoldOutItems(selectedRestaurant),
+      ]);
+      const visible = getVisibleMenu(menu);
+      setCategories(visible.categories);
+      setItems(visible.items);
+      setSoldOut(soldOutItems);
+    } catch (error) {
+      toast.error("Failed to load menu items");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedRestaurant]);
+
+  useEffect(() => {
+    fetchBoard();
+  }, [fetchBoard]);
+
+  // Keep several phones on the floor in step
+  useEffect(() => {
+    if (!selectedRestaurant) return;
+
+    const channel = supabase
+      .channel(`availability-${selectedRestaurant}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "sold_out_items", filter: `restaurant_id=eq.${selectedRestaurant}` },
+        (payload) => {
+          const changed = payload.new as SoldOutItem;
+          setSoldOut(current => [...current.filter(s => s.menu_item_id !== changed.menu_item_id), changed]);
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "menu_versions", filter: `restaurant_id=eq.${selectedRestaurant}` },
+        () => fetchBoard()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedRestaurant, fetchBoard]);
+
+  const timezone = restaurants.find(r => r.id === selectedRestaurant)?.timezone ?? "UTC";
+
+  const setItemSoldOut = async (item: SnapshotItem, until: string | null) => {
+    const previous = soldOut;
+    const entry = { menu_item_id: item.id, until };
+    setSoldOut(current => [...current.filter(s => s.menu_item_id !== item.id), entry]);
+
+    try {
+      const { error } = await supabase
+        .from("sold_out_items")
+        .upsert({ ...entry, restaurant_id: selectedRestaurant, marked_by: access?.userId });
+
+      if (error) throw error;
+    } catch (error) {
+      setSoldOut(previous);
+      toast.error((error as Error).message || "Failed to update availability");
+    }
+  };
+
+  const handleToggle = (item: SnapshotItem, available: boolean) =>
+    setItemSoldOut(item, available ? new Date().toISOString() : getSoldOutUntil("manual", timezone));
+
+  const soldOutEntry = (itemId: string) => {
+    const entry = soldOut.find(s => s.menu_item_id === itemId);
+    return isSoldOut(entry, now) ? entry : undefined;
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const matchingItems = items.filter(item => !query || item.name.toLowerCase().includes(query));
+  const soldOutCount = items.filter(item => soldOutEntry(item.id)).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold">Availability</h2>
+          <p className="text-sm text-muted-foreground">
+            {soldOutCount === 0 ? "Everything is available" : `${soldOutCount} sold out`}
+          </p>
+        </div>
+        {restaurants.length > 1 && (
+          <Select value={selectedRestaurant} onValueChange={setSelectedRestaurant}>
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue placeholder="Select restaurant" />
+            </SelectTrigger>
+            <SelectContent>
+              {restaurants.map((restaurant) => (
+                <SelectItem key={restaurant.id} value={restaurant.id}>
+                  {restaurant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="sticky top-0 z-10 bg-background py-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search dishes..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="h-12 pl-9 text-base"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No published dishes yet.
+          </CardContent>
+        </Card>
+      ) : (
+        categories.map((category) => {
+          const categoryItems = matchingItems.filter(item => item.category_id === category.id);
+          if (categoryItems.length === 0) return null;
+
+          return (
+            <div key={category.id} className="space-y-2">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{category.name}</h3>
+              <Card>
+                <CardContent className="divide-y p-0">
+                  {categoryItems.map((item) => {
+                    const entry = soldOutEntry(item.id);
+                    const canEdit = can("mark_sold_out", selectedRestaurant);
+                    return (
+                      <div key={item.id} className="flex items-center gap-3 px-4 py-3">
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <p className={`font-medium ${entry ? "text-muted-foreground line-through" : ""}`}>{item.name}</p>
+                          {entry && (
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Badge variant="destructive">{describeSoldOut(entry, timezone)}</Badge>
+                              <Select
+                                onValueChange={(duration) => setItemSoldOut(item, getSoldOutUntil(duration as SoldOutDuration, timezone))}
+                                disabled={!canEdit}
+                              >
+                                <SelectTrigger className="h-8 w-auto gap-2 text-xs">
+                                  <SelectValue placeholder="Change..." />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {SOLD_OUT_DURATIONS.map((duration) => (
+                                    <SelectItem key={duration.value} value={duration.value}>
+                                      {duration.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                        </div>
+                        <Switch
+                          checked={!entry}
+                          onCheckedChange={(available) => handleToggle(item, available)}
+                          disabled={!canEdit}
+                          className="scale-125"
+                          aria-label={`${item.name} available`}
+                        />
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default AvailabilityBoard;
@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import { ALL_DAYS, type AvailabilityWindow } from "@/lib/availability";
+import { DAYS, WEEK_ORDER } from "@/lib/opening-hours";
+
+interface AvailabilityWindowsFieldProps {
+  windows: AvailabilityWindow[];
+  onChange: (windows: AvailabilityWindow[]) => void;
+}
+
+const DAYPART_PRESETS = [
+  { label: "Breakfast", starts_at: "07:00", ends_at: "11:00" },
+  { label: "Lunch", starts_at: "12:00", ends_at: "15:00" },
+  { label: "Happy hour", starts_at: "17:00", ends_at: "19:00" },
+  { label: "Dinner", starts_at: "19:00", ends_at: "23:00" },
+];
+
+const AvailabilityWindowsField = ({ windows, onChange }: AvailabilityWindowsFieldProps) => {
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    onChange(windows.map((w, i) => (i === index ? { ...w, ...changes } : w)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days;
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day];
+    if (next.length === 0) return;
+    updateWindow(index, { days: next.sort() });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Availability</Label>
+        <p className="text-xs text-muted-foreground">
+          {windows.length === 0
+            ? "Served whenever the restaurant is open. Add a time window to limit it to a daypart."
+            : "Only shown and orderable inside these windows."}
+        </p>
+      </div>
+
+      {windows.map((window, index) => (
+        <div key={index} className="space-y-2 rounded-lg border p-3">
+          <div className="flex flex-wrap gap-1">
+            {WEEK_ORDER.map(day => (
+              <Button
+                key={day}
+                type="button"
+                size="sm"
+                variant={window.days.includes(day) ? "default" : "outline"}
+                className="h-7 w-11 px-0 text-xs"
+                onClick={() => toggleDay(index, day)}
+              >
+                {DAYS[day].slice(0, 3)}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={window.starts_at}
+              onChange={(e) => updateWindow(index, { starts_at: e.target.value })}
+              className="w-32"
+              required
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              value={window.ends_at}
+              onChange={(e) => updateWindow(index, { ends_at: e.target.value })}
+              className="w-32"
+              required
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(windows.filter((_, i) => i !== index))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {DAYPART_PRESETS.map(preset => (
+          <Button
+            key={preset.label}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...windows, { days: ALL_DAYS, starts_at: preset.starts_at, ends_at: preset.ends_at }])}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityWindowsField;
@@ -7,8 +7,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, Edit2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Edit2, Trash2, Clock } from "lucide-react";
 import { toast } from "sonner";
+import { getStaffAccess } from "@/lib/staff-access";
+import { DndContext, KeyboardSensor, PointerSensor, closestCenter, useSensor, useSensors, type DragEndEvent } from "@dnd-kit/core";
+import { SortableContext, arrayMove, rectSortingStrategy, sortableKeyboardCoordinates } from "@dnd-kit/sortable";
+import AvailabilityWindowsField from "./AvailabilityWindowsField";
+import SortableItem from "./SortableItem";
+import MoveToTrashDialog from "./MoveToTrashDialog";
+import type { TrashTarget } from "@/lib/trash";
+import { describeWindows, type AvailabilityWindow } from "@/lib/availability";
 
 interface Restaurant {
   id: string;
@@ -21,21 +30,27 @@ interface Category {
   name: string;
   description: string | null;
   display_order: number;
-  restaurants: { name: string };
+  availability_windows: AvailabilityWindow[];
 }
 
 const CategoriesAdmin = () => {
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [selectedRestaurant, setSelectedRestaurant] = useState("");
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<TrashTarget | null>(null);
   const [formData, setFormData] = useState({
     restaurant_id: "",
     name: "",
     description: "",
-    display_order: 0,
+    availability: [] as AvailabilityWindow[],
   });
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
 
   useEffect(() => {
     fetchData();
@@ -43,16 +58,27 @@ const CategoriesAdmin = () => {
 
   const fetchData = async () => {
     try {
-      const [restaurantsRes, categoriesRes] = await Promise.all([
-        supabase.from("restaurants").select("id, name").eq("is_active", true).order("name"),
-        supabase.from("menu_categories").select("*, restaurants(name)").order("display_order"),
-      ]);
+      const access = await getStaffAccess();
+      let restaurantsQuery = supabase.from("restaurants").select("id, name").eq("is_active", true).order("name");
+      let categoriesQuery = supabase
+        .from("menu_categories")
+        .select("*, availability_windows(days, starts_at, ends_at)")
+        .order("display_order");
+      if (!access?.isAdmin) {
+        restaurantsQuery = restaurantsQuery.in("id", access?.managedRestaurantIds ?? []);
+        categoriesQuery = categoriesQuery.in("restaurant_id", access?.managedRestaurantIds ?? []);
+      }
+
+      const [restaurantsRes, categoriesRes] = await Promise.all([restaurantsQuery, categoriesQuery]);
 
       if (restaurantsRes.error) throw restaurantsRes.error;
       if (categoriesRes.error) throw categoriesRes.error;
 
       setRestaurants(restaurantsRes.data || []);
       setCategories(categoriesRes.data || []);
+      if (restaurantsRes.data && restaurantsRes.data.length > 0) {
+        setSelectedRestaurant(current => current || restaurantsRes.data[0].id);
+      }
     } catch (error) {
       toast.error("Failed to load data");
       console.error(error);
@@ -65,23 +91,50 @@ const CategoriesAdmin = () => {
     e.preventDefault();
 
     try {
+      const { availability, ...fields } = formData;
+      // New categories, and ones moved to another restaurant, go to the end of its menu
+      const siblings = categories.filter(c => c.restaurant_id === fields.restaurant_id && c.id !== editingCategory?.id);
+      const categoryData = editingCategory?.restaurant_id === fields.restaurant_id
+        ? fields
+        : { ...fields, display_order: Math.max(0, ...siblings.map(c => c.display_order + 1)) };
+
+      let categoryId = editingCategory?.id;
       if (editingCategory) {
         const { error } = await supabase
           .from("menu_categories")
-          .update(formData)
+          .update(categoryData)
           .eq("id", editingCategory.id);
 
         if (error) throw error;
-        toast.success("Category updated successfully");
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from("menu_categories")
-          .insert([formData]);
+          .insert([categoryData])
+          .select("id")
+          .single();
 
         if (error) throw error;
-        toast.success("Category created successfully");
+        categoryId = data.id;
       }
 
+      // Replace the category's schedule with the edited windows
+      const { error: clearError } = await supabase
+        .from("availability_windows")
+        .delete()
+        .eq("category_id", categoryId);
+
+      if (clearError) throw clearError;
+
+      if (availability.length > 0) {
+        const { error: windowsError } = await supabase
+          .from("availability_windows")
+          .insert(availability.map(w => ({ ...w, category_id: categoryId })));
+
+        if (windowsError) throw windowsError;
+      }
+
+      toast.success(editingCategory ? "Category updated successfully" : "Category created successfully");
+
       setDialogOpen(false);
       resetForm();
       fetchData();
@@ -96,157 +149,204 @@ const CategoriesAdmin = () => {
       restaurant_id: category.restaurant_id,
       name: category.name,
       description: category.description || "",
-      display_order: category.display_order,
+      availability: category.availability_windows.map(w => ({
+        days: w.days,
+        starts_at: w.starts_at.slice(0, 5),
+        ends_at: w.ends_at.slice(0, 5),
+      })),
     });
     setDialogOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure? This will delete all menu items in this category.")) return;
-
-    try {
-      const { error } = await supabase
-        .from("menu_categories")
-        .delete()
-        .eq("id", id);
-
-      if (error) throw error;
-      toast.success("Category deleted successfully");
-      fetchData();
-    } catch (error: any) {
-      toast.error(error.message || "Failed to delete category");
-    }
-  };
-
   const resetForm = () => {
     setEditingCategory(null);
     setFormData({
-      restaurant_id: "",
+      restaurant_id: selectedRestaurant,
       name: "",
       description: "",
-      display_order: 0,
+      availability: [],
     });
   };
 
+  const restaurantCategories = categories.filter(c => c.restaurant_id === selectedRestaurant);
+
+  // Reorder locally straight away, then save every position in one call
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+
+    const oldIndex = restaurantCategories.findIndex(c => c.id === active.id);
+    const newIndex = restaurantCategories.findIndex(c => c.id === over.id);
+    const reordered = arrayMove(restaurantCategories, oldIndex, newIndex)
+      .map((category, index) => ({ ...category, display_order: index }));
+
+    setCategories([...categories.filter(c => c.restaurant_id !== selectedRestaurant), ...reordered]);
+
+    try {
+      const { error } = await supabase.rpc("reorder_menu", {
+        _restaurant_id: selectedRestaurant,
+        _layout: reordered.map(c => ({ category_id: c.id })),
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save the new order");
+      fetchData();
+    }
+  };
+
   return (
     <div className="space-y-6">
-      <div className="flex justify-between items-center">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <h2 className="text-3xl font-bold">Menu Categories</h2>
-        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Category
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>
-                {editingCategory ? "Edit Category" : "Add New Category"}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="restaurant_id">Restaurant *</Label>
-                <Select
-                  value={formData.restaurant_id}
-                  onValueChange={(value) => setFormData({ ...formData, restaurant_id: value })}
-                  required
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select restaurant" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {restaurants.map((restaurant) => (
-                      <SelectItem key={restaurant.id} value={restaurant.id}>
-                        {restaurant.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="name">Category Name *</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  rows={2}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="display_order">Display Order</Label>
-                <Input
-                  id="display_order"
-                  type="number"
-                  value={formData.display_order}
-                  onChange={(e) => setFormData({ ...formData, display_order: parseInt(e.target.value) || 0 })}
+        <div className="flex flex-col sm:flex-row gap-4 w-full sm:w-auto">
+          <Select value={selectedRestaurant} onValueChange={setSelectedRestaurant}>
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue placeholder="Select restaurant" />
+            </SelectTrigger>
+            <SelectContent>
+              {restaurants.map((restaurant) => (
+                <SelectItem key={restaurant.id} value={restaurant.id}>
+                  {restaurant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Category
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingCategory ? "Edit Category" : "Add New Category"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="restaurant_id">Restaurant *</Label>
+                  <Select
+                    value={formData.restaurant_id}
+                    onValueChange={(value) => setFormData({ ...formData, restaurant_id: value })}
+                    required
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select restaurant" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {restaurants.map((restaurant) => (
+                        <SelectItem key={restaurant.id} value={restaurant.id}>
+                          {restaurant.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="name">Category Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+
+                <AvailabilityWindowsField
+                  windows={formData.availability}
+                  onChange={(availability) => setFormData({ ...formData, availability })}
                 />
-              </div>
-
-              <div className="flex gap-2 pt-4">
-                <Button type="submit" className="flex-1">
-                  {editingCategory ? "Update" : "Create"} Category
-                </Button>
-                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                  Cancel
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
-      </div>
 
-      {loading ? (
-        <div className="text-center py-12">Loading...</div>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {categories.map((category) => (
-            <Card key={category.id}>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg">{category.name}</CardTitle>
-                <p className="text-sm text-muted-foreground">{category.restaurants.name}</p>
-              </CardHeader>
-              <CardContent>
-                {category.description && (
-                  <p className="text-sm mb-4 line-clamp-2">{category.description}</p>
-                )}
-                <p className="text-xs text-muted-foreground mb-4">Order: {category.display_order}</p>
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="flex-1"
-                    onClick={() => handleEdit(category)}
-                  >
-                    <Edit2 className="h-4 w-4 mr-1" />
-                    Edit
+                <div className="flex gap-2 pt-4">
+                  <Button type="submit" className="flex-1">
+                    {editingCategory ? "Update" : "Create"} Category
                   </Button>
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={() => handleDelete(category.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
                   </Button>
                 </div>
-              </CardContent>
-            </Card>
-          ))}
+              </form>
+            </DialogContent>
+          </Dialog>
         </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : restaurantCategories.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          No categories yet. Add your first category!
+        </div>
+      ) : (
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={restaurantCategories.map(c => c.id)} strategy={rectSortingStrategy}>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {restaurantCategories.map((category) => (
+                <SortableItem key={category.id} id={category.id}>
+                  {(handle) => (
+                    <Card className="h-full">
+                      <CardHeader className="pb-3">
+                        <div className="flex items-center gap-2">
+                          {handle}
+                          <CardTitle className="text-lg">{category.name}</CardTitle>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        {category.description && (
+                          <p className="text-sm mb-4 line-clamp-2">{category.description}</p>
+                        )}
+                        {category.availability_windows.length > 0 && (
+                          <Badge variant="secondary" className="mb-4 gap-1 font-normal">
+                            <Clock className="h-3 w-3" />
+                            {describeWindows(category.availability_windows)}
+                          </Badge>
+                        )}
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => handleEdit(category)}
+                          >
+                            <Edit2 className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => setDeleteTarget({ table: "menu_categories", id: category.id, name: category.name })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
+                </SortableItem>
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
       )}
+
+      <MoveToTrashDialog
+        target={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onDeleted={fetchData}
+      />
     </div>
   );
 };
@@ -0,0 +1,35 @@
+import { Fragment } from "react";
+import { formatAuditValue, formatFieldName, type AuditFieldChange } from "@/lib/audit";
+
+interface FieldChangesProps {
+  changes: AuditFieldChange[];
+  action: string;
+}
+
+// Before / after values of each changed field
+const FieldChanges = ({ changes, action }: FieldChangesProps) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-[minmax(8rem,auto)_1fr_1fr] gap-x-4 gap-y-1 text-sm">
+      <span className="font-medium text-muted-foreground">Field</span>
+      <span className="font-medium text-muted-foreground">Before</span>
+      <span className="font-medium text-muted-foreground">After</span>
+      {changes.map((change) => (
+        <Fragment key={change.field}>
+          <span>{formatFieldName(change.field)}</span>
+          <span className="break-all text-destructive line-through decoration-destructive/50">
+            {action === "insert" ? "" : formatAuditValue(change.before)}
+          </span>
+          <span className="break-all text-green-700">
+            {action === "delete" ? "" : formatAuditValue(change.after)}
+          </span>
+        </Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default FieldChanges;
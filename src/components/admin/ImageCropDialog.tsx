@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import Cropper, { type Area, type Point } from "react-easy-crop";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ZoomIn } from "lucide-react";
+import { IMAGE_PRESETS, getCropPreviewUrl, type FocusPoint, type ImageEdit, type ImageKind } from "@/lib/images";
+
+interface ImageCropDialogProps {
+  file: File | null;
+  kind: ImageKind;
+  onCancel: () => void;
+  onConfirm: (edit: ImageEdit) => void;
+}
+
+const CENTER: FocusPoint = { x: 50, y: 50 };
+
+// Crops a picked file to the shape it is shown in and lets staff mark the part
+// that must stay visible when the crop is squeezed into other shapes
+const ImageCropDialog = ({ file, kind, onCancel, onConfirm }: ImageCropDialogProps) => {
+  const preset = IMAGE_PRESETS[kind];
+  const [source, setSource] = useState<{ url: string; bitmap: ImageBitmap } | null>(null);
+  const [crop, setCrop] = useState<Point>({ x: 0, y: 0 });
+  const [zoom, setZoom] = useState(1);
+  const [area, setArea] = useState<Area | null>(null);
+  const [focus, setFocus] = useState<FocusPoint>(CENTER);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    let bitmap: ImageBitmap | null = null;
+    let cancelled = false;
+    setCrop({ x: 0, y: 0 });
+    setZoom(1);
+    setArea(null);
+    setFocus(CENTER);
+    setPreview(null);
+    setFailed(false);
+
+    createImageBitmap(file)
+      .then(result => {
+        if (cancelled) return result.close();
+        bitmap = result;
+        setSource({ url, bitmap: result });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setFailed(true);
+        console.error(error);
+      });
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+      bitmap?.close();
+      setSource(null);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (source && area && preset.previews.length > 0) {
+      setPreview(getCropPreviewUrl(source.bitmap, kind, area));
+    }
+  }, [source, area, kind, preset.previews.length]);
+
+  const handleFocusClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocus({
+      x: Math.round(((e.clientX - rect.left) / rect.width) * 100),
+      y: Math.round(((e.clientY - rect.top) / rect.height) * 100),
+    });
+  };
+
+  const objectPosition = `${focus.x}% ${focus.y}%`;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Crop {preset.label.toLowerCase()}</DialogTitle>
+          <DialogDescription>
+            Drag to position the image and zoom to frame it.
+            {preset.previews.length > 0 && " Then click the part that should always stay in view."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="relative h-72 overflow-hidden rounded-md bg-muted">
+            {failed && (
+              <p className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                This image can't be opened. Try a JPEG, PNG or WebP file.
+              </p>
+            )}
+            {source && (
+              <Cropper
+                image={source.url}
+                crop={crop}
+                zoom={zoom}
+                aspect={preset.aspect}
+                cropShape={kind === "logo" ? "round" : "rect"}
+                onCropChange={setCrop}
+                onZoomChange={setZoom}
+                onCropComplete={(_, pixels) => setArea(pixels)}
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <ZoomIn className="h-4 w-4 text-muted-foreground" />
+            <Slider
+              value={[zoom]}
+              min={1}
+              max={4}
+              step={0.05}
+              onValueChange={([value]) => setZoom(value)}
+              aria-label="Zoom"
+            />
+          </div>
+
+          {preset.previews.length > 0 && preview && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label>Focal point</Label>
+                <div
+                  className="relative cursor-crosshair overflow-hidden rounded-md"
+                  onClick={handleFocusClick}
+                >
+                  <img src={preview} alt="Cropped image" className="block w-full" draggable={false} />
+                  <span
+                    className="pointer-events-none absolute h-5 w-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-primary/70 shadow-lg"
+                    style={{ left: `${focus.x}%`, top: `${focus.y}%` }}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {preset.previews.map((frame) => (
+                  <div key={frame.label} className="space-y-1">
+                    <p className="text-xs text-muted-foreground">{frame.label}</p>
+                    <img
+                      src={preview}
+                      alt={`${frame.label} preview`}
+                      className="w-full rounded-md object-cover"
+                      style={{ aspectRatio: frame.aspect, objectPosition }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => onConfirm({ crop: area, focus: preset.previews.length > 0 ? focus : null })}
+            disabled={!area}
+          >
+            Use image
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImageCropDialog;
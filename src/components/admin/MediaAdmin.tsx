@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import ResponsiveImage from "@/components/menu/ResponsiveImage";
+import {
+  MEDIA_REFERENCE_LABELS,
+  UNUSED_GRACE_HOURS,
+  fetchMedia,
+  formatBytes,
+  isUnusedMedia,
+  removeUnusedMedia,
+  type MediaAsset,
+} from "@/lib/media";
+
+type UsageFilter = "all" | "used" | "unused";
+
+const ALL = "all";
+
+// Every image in the bucket and what still points at it, with a cleanup for
+// the ones nothing does. Trashed rows and published menu versions count as
+// references because they can still be restored.
+const MediaAdmin = () => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restaurantFilter, setRestaurantFilter] = useState(ALL);
+  const [usageFilter, setUsageFilter] = useState<UsageFilter>("all");
+  const [cleanupOpen, setCleanupOpen] = useState(false);
+  const [removing, setRemoving] = useState(false);
+
+  const fetchAssets = useCallback(async () => {
+    try {
+      setAssets(await fetchMedia());
+    } catch (error) {
+      toast.error("Failed to load media");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAssets();
+  }, [fetchAssets]);
+
+  const restaurants = [
+    ...new Map(assets.filter(a => a.restaurant_id).map(a => [a.restaurant_id!, a.restaurant_name || "Deleted restaurant"])),
+  ].sort((a, b) => a[1].localeCompare(b[1]));
+
+  const unused = assets.filter(asset => isUnusedMedia(asset));
+  const unusedSize = unused.reduce((sum, asset) => sum + asset.size, 0);
+  const totalSize = assets.reduce((sum, asset) => sum + asset.size, 0);
+
+  const visibleAssets = assets.filter(asset => {
+    if (restaurantFilter !== ALL && asset.restaurant_id !== restaurantFilter) return false;
+    if (usageFilter === "used") return asset.refs.length > 0;
+    if (usageFilter === "unused") return asset.refs.length === 0;
+    return true;
+  });
+
+  const handleCleanup = async (e: React.MouseEvent) => {
+    e.preventDefault();
+
+    setRemoving(true);
+    try {
+      const { images, files } = await removeUnusedMedia(unused);
+      const kept = unused.length - images;
+      toast.success(`Deleted ${images} unused ${images === 1 ? "image" : "images"} (${files} files)`, {
+        description: kept > 0 ? `${kept} ${kept === 1 ? "image is" : "images are"} in use again and ${kept === 1 ? "was" : "were"} kept.` : undefined,
+      });
+      setCleanupOpen(false);
+      fetchAssets();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to delete images");
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold">Media</h2>
+          <p className="text-sm text-muted-foreground">
+            {assets.length} {assets.length === 1 ? "image" : "images"} using {formatBytes(totalSize)}
+            {unused.length > 0 && ` · ${unused.length} unused (${formatBytes(unusedSize)})`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={restaurantFilter} onValueChange={setRestaurantFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All restaurants</SelectItem>
+              {restaurants.map(([id, name]) => (
+                <SelectItem key={id} value={id}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={usageFilter} onValueChange={(value) => setUsageFilter(value as UsageFilter)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="used">In use</SelectItem>
+              <SelectItem value="unused">Unused</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setCleanupOpen(true)} disabled={loading}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clean up
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : visibleAssets.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No images here.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {visibleAssets.map((asset) => (
+            <Card key={asset.asset} className="overflow-hidden">
+              <a href={asset.url} target="_blank" rel="noreferrer">
+                <ResponsiveImage
+                  src={asset.url}
+                  meta={asset.meta}
+                  sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+                  alt=""
+                  loading="lazy"
+                  className="h-40 w-full object-cover bg-muted"
+                />
+              </a>
+              <CardContent className="space-y-2 p-4">
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span className="truncate">{asset.restaurant_name || (asset.restaurant_id ? "Deleted restaurant" : "Shared")}</span>
+                  <span className="whitespace-nowrap" title={asset.paths.join("\n")}>
+                    {formatBytes(asset.size)} · {asset.paths.length} {asset.paths.length === 1 ? "file" : "files"}
+                  </span>
+                </div>
+                {asset.refs.length === 0 ? (
+                  <Badge variant="outline">Unused</Badge>
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {asset.refs.map((ref) => (
+                      <Badge
+                        key={`${ref.kind}-${ref.id}`}
+                        variant={ref.trashed ? "outline" : "secondary"}
+                        className="max-w-full"
+                      >
+                        <span className="truncate">
+                          {MEDIA_REFERENCE_LABELS[ref.kind]}: {ref.label}
+                          {ref.trashed && " (in trash)"}
+                        </span>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Uploaded {new Date(asset.created_at).toLocaleDateString()}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={cleanupOpen} onOpenChange={setCleanupOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete unused images?</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                {unused.length === 0 ? (
+                  <p>Every image is in use. Nothing to clean up.</p>
+                ) : (
+                  <>
+                    <p>
+                      <span className="font-medium text-foreground">
+                        {unused.length} {unused.length === 1 ? "image" : "images"} ({formatBytes(unusedSize)})
+                      </span>{" "}
+                      aren't used by any restaurant, menu item, trashed row or published menu version. They will be
+                      deleted for good.
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto rounded-md border p-2 font-mono text-xs">
+                      {unused.map((asset) => (
+                        <li key={asset.asset} className="truncate">{asset.asset}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                <p>Images uploaded in the last {UNUSED_GRACE_HOURS} hours are kept, in case they belong to a form that hasn't been saved yet.</p>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={removing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCleanup}
+              disabled={removing || unused.length === 0}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {removing ? "Deleting..." : `Delete ${unused.length} ${unused.length === 1 ? "image" : "images"}`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MediaAdmin;
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import { getImageMeta } from "@/lib/images";
+import { fetchMedia, type MediaAsset } from "@/lib/media";
+import ResponsiveImage from "@/components/menu/ResponsiveImage";
+
+interface MediaPickerDialogProps {
+  open: boolean;
+  // Only this restaurant's uploads are offered; null lists everything the user can manage
+  restaurantId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (image: { url: string; meta: Json | null }) => void;
+}
+
+// Reuses an image that is already in the bucket instead of uploading it again
+const MediaPickerDialog = ({ open, restaurantId, onOpenChange, onSelect }: MediaPickerDialogProps) => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    fetchMedia()
+      .then(media => setAssets(restaurantId ? media.filter(a => a.restaurant_id === restaurantId) : media))
+      .catch(error => {
+        toast.error("Failed to load images");
+        console.error(error);
+      })
+      .finally(() => setLoading(false));
+  }, [open, restaurantId]);
+
+  const handleSelect = (asset: MediaAsset) => {
+    onSelect({ url: asset.url, meta: getImageMeta(asset.url, asset.meta) });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Choose an image</DialogTitle>
+          <DialogDescription>Pick something that has already been uploaded.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-12">Loading...</div>
+        ) : assets.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">No images uploaded yet.</div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4">
+            {assets.map((asset) => (
+              <button
+                key={asset.asset}
+                type="button"
+                onClick={() => handleSelect(asset)}
+                className="overflow-hidden rounded-md border text-left transition-colors hover:border-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <ResponsiveImage
+                  src={asset.url}
+                  meta={asset.meta}
+                  sizes="180px"
+                  alt=""
+                  loading="lazy"
+                  className="aspect-square w-full object-cover"
+                />
+                <p className="truncate px-2 py-1 text-xs text-muted-foreground">
+                  {asset.refs[0]?.label ?? "Not used yet"}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MediaPickerDialog;
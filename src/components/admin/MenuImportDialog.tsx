@@ -0,0 +1,298 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileSpreadsheet } from "lucide-react";
+import { toast } from "sonner";
+import {
+  THEME_COLUMNS,
+  buildImportPlan,
+  buildTemplateCsv,
+  readMenuFile,
+  type ExistingItem,
+  type ImportAction,
+  type ImportPlanRow,
+} from "@/lib/menu-import";
+import { downloadTextFile, type MenuExport } from "@/lib/menu-export";
+import { formatPrice, type PriceSettings } from "@/lib/pricing";
+
+interface MenuImportDialogProps {
+  restaurant: (PriceSettings & { id: string; name: string }) | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const ACTION_STYLES: Record<ImportAction, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  create: { label: "Create", variant: "default" },
+  update: { label: "Update", variant: "secondary" },
+  skip: { label: "Skip", variant: "outline" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+const MenuImportDialog = ({ restaurant, open, onOpenChange, onImported }: MenuImportDialogProps) => {
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [existingItems, setExistingItems] = useState<ExistingItem[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [plan, setPlan] = useState<ImportPlanRow[]>([]);
+  const [menu, setMenu] = useState<MenuExport | null>(null);
+  const [applyTheme, setApplyTheme] = useState(true);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open && restaurant) {
+      setFileName("");
+      setPlan([]);
+      setMenu(null);
+      fetchExisting(restaurant.id);
+    }
+  }, [open, restaurant]);
+
+  const fetchExisting = async (restaurantId: string) => {
+    try {
+      const [categoriesRes, itemsRes] = await Promise.all([
+        supabase
+          .from("menu_categories")
+          .select("id, name")
+          .eq("restaurant_id", restaurantId),
+        supabase
+          .from("menu_items")
+          .select("id, category_id, name, description, price, is_vegetarian, is_vegan, is_spicy, image_url, is_available, image_meta, menu_categories!inner(restaurant_id), menu_item_allergens(allergen_id), availability_windows(days, starts_at, ends_at), modifier_groups(name, min_select, max_select, is_required, display_order, modifier_options(name, price_delta, is_available, display_order))")
+          .eq("menu_categories.restaurant_id", restaurantId),
+      ]);
+
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (itemsRes.error) throw itemsRes.error;
+      setCategories(categoriesRes.data || []);
+      setExistingItems((itemsRes.data || []).map(({
+        menu_categories: _mc,
+        is_available,
+        image_meta,
+        menu_item_allergens,
+        availability_windows,
+        modifier_groups,
+        ...item
+      }) => ({
+        ...item,
+        details: {
+          is_available,
+          image_meta,
+          allergens: menu_item_allergens.map(a => a.allergen_id),
+          availability_windows,
+          modifier_groups: modifier_groups.map(({ modifier_options, ...group }) => ({ ...group, options: modifier_options })),
+        },
+      })));
+    } catch (error) {
+      toast.error("Failed to load the current menu");
+      console.error(error);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!/\.(csv|xlsx|json)$/i.test(file.name)) {
+      toast.error("Please choose a .csv, .xlsx or menu .json file");
+      return;
+    }
+
+    setReading(true);
+    try {
+      const { rows, menu } = await readMenuFile(file);
+      if (rows.length === 0 && !menu?.categories.length) {
+        toast.error("The file has no rows to import");
+        return;
+      }
+      setFileName(file.name);
+      setMenu(menu);
+      setApplyTheme(true);
+      setPlan(buildImportPlan(rows, categories, existingItems, restaurant?.locale || "en-IN"));
+    } catch (error) {
+      toast.error("Could not read the file");
+      console.error(error);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadTextFile(buildTemplateCsv(), "menu-import-template.csv", "text/csv");
+  };
+
+  const handleImport = async () => {
+    if (!restaurant) return;
+    const rows = plan.filter(r => r.action === "create" || r.action === "update");
+    if (rows.length === 0 && !menu) return;
+
+    setImporting(true);
+    try {
+      // Applied in one transaction: the menu either gets the whole plan or nothing
+      const { error } = await supabase.rpc("import_menu_items", {
+        _restaurant_id: restaurant.id,
+        _items: rows.map(r => ({ ...r.item!, ...r.details, id: r.existingId ?? null })),
+        // A JSON export also brings every category, empty ones included, with its hours
+        _categories: (menu?.categories || []).map(({ name, description, is_active, availability_windows }) => ({
+          name,
+          description,
+          is_active,
+          availability_windows,
+        })),
+        _theme: menu && applyTheme
+          ? Object.fromEntries(THEME_COLUMNS.map(column => [column, menu.restaurant[column]]))
+          : undefined,
+      });
+
+      if (error) throw error;
+
+      const updated = rows.filter(r => r.existingId).length;
+      toast.success(`Imported ${rows.length - updated} new and ${updated} updated items`);
+      onOpenChange(false);
+      onImported();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to import menu");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const counts = plan.reduce(
+    (acc, r) => ({ ...acc, [r.action]: acc[r.action] + 1 }),
+    { create: 0, update: 0, skip: 0, error: 0 } as Record<ImportAction, number>
+  );
+  const changeCount = counts.create + counts.update;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import menu items into {restaurant?.name}</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file, or a JSON menu export. Items are matched to the existing menu by category and name; nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => document.getElementById("menu-import-file")?.click()}
+            disabled={reading || importing}
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {reading ? "Reading..." : fileName || "Choose File"}
+          </Button>
+          <Button type="button" variant="ghost" onClick={handleDownloadTemplate}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Template
+          </Button>
+          <Input
+            id="menu-import-file"
+            type="file"
+            accept=".csv,.xlsx,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+
+        {(plan.length > 0 || menu) && restaurant && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(ACTION_STYLES) as ImportAction[]).map(action => (
+                <Badge key={action} variant={ACTION_STYLES[action].variant}>
+                  {counts[action]} {ACTION_STYLES[action].label.toLowerCase()}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {!menu && <TableHead className="w-14">Row</TableHead>}
+                    <TableHead className="w-24">Action</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map((r, index) => (
+                    <TableRow key={index}>
+                      {!menu && <TableCell className="text-muted-foreground">{r.row}</TableCell>}
+                      <TableCell>
+                        <Badge variant={ACTION_STYLES[r.action].variant}>{ACTION_STYLES[r.action].label}</Badge>
+                      </TableCell>
+                      <TableCell>{r.category}</TableCell>
+                      <TableCell className="font-medium">{r.name}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {r.item ? formatPrice(r.item.price, restaurant) : ""}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {r.errors.length > 0 ? (
+                          <span className="text-destructive">{r.errors.join("; ")}</span>
+                        ) : (
+                          <span className="text-muted-foreground">
+                            {r.action === "create" ? "New item" : r.action === "skip" ? "No changes" : r.changes.join(", ")}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {counts.error > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Rows with errors will be left out. Fix them in the file and upload it again to include them.
+              </p>
+            )}
+
+            {menu && (
+              <div className="space-y-3 rounded-md border p-3 text-sm">
+                <p className="text-muted-foreground">
+                  This is a full menu export. Allergens, hours and options are compared per item above. The file's{" "}
+                  {menu.categories.length} {menu.categories.length === 1 ? "category" : "categories"} are created where
+                  missing, empty ones included, and their descriptions and hours are taken from the file.
+                </p>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="apply_theme"
+                    checked={applyTheme}
+                    onCheckedChange={(checked) => setApplyTheme(checked as boolean)}
+                  />
+                  <label htmlFor="apply_theme" className="cursor-pointer">
+                    Also apply the colours and font of {menu.restaurant.name}
+                  </label>
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleImport} disabled={(changeCount === 0 && !menu) || importing} className="flex-1">
+                {importing
+                  ? "Importing..."
+                  : menu && changeCount === 0
+                    ? "Import categories"
+                    : `Import ${changeCount} ${changeCount === 1 ? "change" : "changes"}`}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MenuImportDialog;
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useState, type ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,15 +6,47 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, Edit2, Trash2, Leaf, Flame } from "lucide-react";
+import { Plus, Edit2, Trash2, Leaf, Flame, SlidersHorizontal, Clock, Upload, EyeOff } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-
-interface Restaurant {
+import { getStaffAccess } from "@/lib/staff-access";
+import { useAuth } from "@/hooks/use-auth";
+import { useNow } from "@/hooks/use-now";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCorners,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { SortableContext, arrayMove, rectSortingStrategy, sortableKeyboardCoordinates } from "@dnd-kit/sortable";
+import ModifierGroupsEditor from "./ModifierGroupsEditor";
+import AvailabilityWindowsField from "./AvailabilityWindowsField";
+import MenuImportDialog from "./MenuImportDialog";
+import SortableItem from "./SortableItem";
+import MoveToTrashDialog from "./MoveToTrashDialog";
+import ImageCropDialog from "./ImageCropDialog";
+import MediaPickerDialog from "./MediaPickerDialog";
+import type { TrashTarget } from "@/lib/trash";
+import { ALLERGENS, getAllergen } from "@/lib/allergens";
+import { formatPrice, getAlternatePrice, type PriceSettings } from "@/lib/pricing";
+import { describeWindows, type AvailabilityWindow } from "@/lib/availability";
+import { describeSoldOut, fetchSoldOutItems, getSoldOutUntil, isSoldOut, type SoldOutItem } from "@/lib/sold-out";
+import { MAX_UPLOAD_BYTES, getImageMeta, getObjectPosition, uploadImage, type ImageEdit } from "@/lib/images";
+import type { Json } from "@/integrations/supabase/types";
+
+interface Restaurant extends PriceSettings {
   id: string;
   name: string;
+  timezone: string;
 }
 
 interface Category {
@@ -30,33 +62,63 @@ interface MenuItem {
   description: string | null;
   price: number;
   image_url: string | null;
+  image_meta: Json | null;
   is_vegetarian: boolean;
   is_vegan: boolean;
   is_spicy: boolean;
+  is_available: boolean;
   display_order: number;
   menu_categories: { name: string; restaurants: { name: string } };
+  menu_item_allergens: { allergen_id: string }[];
+  availability_windows: AvailabilityWindow[];
 }
 
+// Drop target for a whole category, so items can also be moved into empty ones
+const CategoryDropZone = ({ id, children }: { id: string; children: ReactNode }) => {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <div ref={setNodeRef} className={`min-h-24 rounded-lg transition-colors ${isOver ? "bg-muted/60" : ""}`}>
+      {children}
+    </div>
+  );
+};
+
 const MenuItemsAdmin = () => {
+  const { access } = useAuth();
+  const now = useNow(30_000);
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [soldOut, setSoldOut] = useState<SoldOutItem[]>([]);
   const [selectedRestaurant, setSelectedRestaurant] = useState("");
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<TrashTarget | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [dragOrigin, setDragOrigin] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     category_id: "",
     name: "",
     description: "",
     price: "",
     image_url: "",
+    image_meta: null as Json | null,
     is_vegetarian: false,
     is_vegan: false,
     is_spicy: false,
-    display_order: 0,
+    allergens: [] as string[],
+    availability: [] as AvailabilityWindow[],
   });
   const [uploading, setUploading] = useState(false);
+  const [cropFile, setCropFile] = useState<File | null>(null);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
 
   useEffect(() => {
     fetchData();
@@ -66,16 +128,42 @@ const MenuItemsAdmin = () => {
     if (selectedRestaurant) {
       fetchCategories(selectedRestaurant);
       fetchMenuItems(selectedRestaurant);
+      fetchSoldOut(selectedRestaurant);
     }
   }, [selectedRestaurant]);
 
+  // Sold-out marks are shared with the availability board
+  useEffect(() => {
+    if (!selectedRestaurant) return;
+
+    const channel = supabase
+      .channel(`menu-items-${selectedRestaurant}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "sold_out_items", filter: `restaurant_id=eq.${selectedRestaurant}` },
+        (payload) => {
+          const changed = payload.new as SoldOutItem;
+          setSoldOut(current => [...current.filter(s => s.menu_item_id !== changed.menu_item_id), changed]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedRestaurant]);
+
   const fetchData = async () => {
     try {
-      const { data, error } = await supabase
+      const access = await getStaffAccess();
+      let query = supabase
         .from("restaurants")
-        .select("id, name")
+        .select("id, name, timezone, currency_code, locale, tax_rate, prices_include_tax, show_net_and_gross")
         .eq("is_active", true)
         .order("name");
+      if (!access?.isAdmin) query = query.in("id", access?.managedRestaurantIds ?? []);
+
+      const { data, error } = await query;
 
       if (error) throw error;
       setRestaurants(data || []);
@@ -96,7 +184,6 @@ const MenuItemsAdmin = () => {
         .from("menu_categories")
         .select("id, restaurant_id, name")
         .eq("restaurant_id", restaurantId)
-        .eq("is_active", true)
         .order("display_order");
 
       if (error) throw error;
@@ -106,11 +193,19 @@ const MenuItemsAdmin = () => {
     }
   };
 
+  const fetchSoldOut = async (restaurantId: string) => {
+    try {
+      setSoldOut(await fetchSoldOutItems(restaurantId));
+    } catch (error) {
+      console.error("Error fetching sold-out items:", error);
+    }
+  };
+
   const fetchMenuItems = async (restaurantId: string) => {
     try {
       const { data, error } = await supabase
         .from("menu_items")
-        .select("*, menu_categories!inner(name, restaurants!inner(name))")
+        .select("*, menu_categories!inner(name, restaurants!inner(name)), menu_item_allergens(allergen_id), availability_windows(days, starts_at, ends_at)")
         .eq("menu_categories.restaurant_id", restaurantId)
         .order("display_order");
 
@@ -125,11 +220,18 @@ const MenuItemsAdmin = () => {
     e.preventDefault();
 
     try {
+      const { allergens, availability, ...fields } = formData;
+      // New items, and ones moved to another category, go to the end of it
+      const siblings = menuItems.filter(i => i.category_id === fields.category_id && i.id !== editingItem?.id);
       const itemData = {
-        ...formData,
+        ...fields,
         price: parseFloat(formData.price),
+        ...(editingItem?.category_id === fields.category_id
+          ? {}
+          : { display_order: Math.max(0, ...siblings.map(i => i.display_order + 1)) }),
       };
 
+      let itemId = editingItem?.id;
       if (editingItem) {
         const { error } = await supabase
           .from("menu_items")
@@ -137,16 +239,51 @@ const MenuItemsAdmin = () => {
           .eq("id", editingItem.id);
 
         if (error) throw error;
-        toast.success("Menu item updated successfully");
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from("menu_items")
-          .insert([itemData]);
+          .insert([itemData])
+          .select("id")
+          .single();
 
         if (error) throw error;
-        toast.success("Menu item created successfully");
+        itemId = data.id;
+      }
+
+      // Replace the item's allergen tags with the current selection
+      const { error: clearError } = await supabase
+        .from("menu_item_allergens")
+        .delete()
+        .eq("menu_item_id", itemId);
+
+      if (clearError) throw clearError;
+
+      if (allergens.length > 0) {
+        const { error: allergensError } = await supabase
+          .from("menu_item_allergens")
+          .insert(allergens.map(allergen_id => ({ menu_item_id: itemId, allergen_id })));
+
+        if (allergensError) throw allergensError;
+      }
+
+      // Replace the item's schedule with the edited windows
+      const { error: clearWindowsError } = await supabase
+        .from("availability_windows")
+        .delete()
+        .eq("menu_item_id", itemId);
+
+      if (clearWindowsError) throw clearWindowsError;
+
+      if (availability.length > 0) {
+        const { error: windowsError } = await supabase
+          .from("availability_windows")
+          .insert(availability.map(w => ({ ...w, menu_item_id: itemId })));
+
+        if (windowsError) throw windowsError;
       }
 
+      toast.success(editingItem ? "Menu item updated successfully" : "Menu item created successfully");
+
       setDialogOpen(false);
       resetForm();
       if (selectedRestaurant) {
@@ -157,6 +294,29 @@ const MenuItemsAdmin = () => {
     }
   };
 
+  // Live, unlike the rest of the form: open menus pick this up without a publish
+  const handleAvailableToggle = async (item: MenuItem, available: boolean) => {
+    const previous = soldOut;
+    const entry = { menu_item_id: item.id, until: available ? new Date().toISOString() : getSoldOutUntil("manual", timezone) };
+    setSoldOut(current => [...current.filter(s => s.menu_item_id !== item.id), entry]);
+
+    try {
+      const { error } = await supabase
+        .from("sold_out_items")
+        .upsert({ ...entry, restaurant_id: selectedRestaurant, marked_by: access?.userId });
+
+      if (error) throw error;
+    } catch (error) {
+      setSoldOut(previous);
+      toast.error((error as Error).message || "Failed to update availability");
+    }
+  };
+
+  const soldOutEntry = (itemId: string) => {
+    const entry = soldOut.find(s => s.menu_item_id === itemId);
+    return isSoldOut(entry, now) ? entry : undefined;
+  };
+
   const handleEdit = (item: MenuItem) => {
     setEditingItem(item);
     setFormData({
@@ -165,35 +325,24 @@ const MenuItemsAdmin = () => {
       description: item.description || "",
       price: item.price.toString(),
       image_url: item.image_url || "",
+      image_meta: item.image_meta,
       is_vegetarian: item.is_vegetarian,
       is_vegan: item.is_vegan,
       is_spicy: item.is_spicy,
-      display_order: item.display_order,
+      allergens: item.menu_item_allergens.map(a => a.allergen_id),
+      availability: item.availability_windows.map(w => ({
+        days: w.days,
+        starts_at: w.starts_at.slice(0, 5),
+        ends_at: w.ends_at.slice(0, 5),
+      })),
     });
     setDialogOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this menu item?")) return;
-
-    try {
-      const { error } = await supabase
-        .from("menu_items")
-        .delete()
-        .eq("id", id);
-
-      if (error) throw error;
-      toast.success("Menu item deleted successfully");
-      if (selectedRestaurant) {
-        fetchMenuItems(selectedRestaurant);
-      }
-    } catch (error: any) {
-      toast.error(error.message || "Failed to delete menu item");
-    }
-  };
-
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Clear the input so picking the same file again after cancelling still fires
+    e.target.value = "";
     if (!file) return;
 
     // Validate file type
@@ -202,29 +351,26 @@ const MenuItemsAdmin = () => {
       return;
     }
 
-    // Validate file size (5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error("Image size must be less than 5MB");
+    // Validate file size
+    if (file.size > MAX_UPLOAD_BYTES) {
+      toast.error(`Image size must be less than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`);
       return;
     }
 
-    setUploading(true);
-    try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Math.random().toString(36).substring(2)}-${Date.now()}.${fileExt}`;
-      const filePath = `${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('menu-images')
-        .upload(filePath, file);
+    setCropFile(file);
+  };
 
-      if (uploadError) throw uploadError;
+  const handleFileUpload = async (edit: ImageEdit) => {
+    if (!cropFile) return;
+    const file = cropFile;
+    setCropFile(null);
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('menu-images')
-        .getPublicUrl(filePath);
+    setUploading(true);
+    try {
+      // Images are stored under the restaurant's folder, which its staff may write to
+      const { url, meta } = await uploadImage(file, "dish", selectedRestaurant, edit);
 
-      setFormData({ ...formData, image_url: publicUrl });
+      setFormData(current => ({ ...current, image_url: url, image_meta: meta }));
       toast.success("Image uploaded successfully");
     } catch (error: any) {
       toast.error(error.message || "Failed to upload image");
@@ -241,13 +387,87 @@ const MenuItemsAdmin = () => {
       description: "",
       price: "",
       image_url: "",
+      image_meta: null,
       is_vegetarian: false,
       is_vegan: false,
       is_spicy: false,
-      display_order: 0,
+      allergens: [],
+      availability: [],
+    });
+  };
+
+  const currentRestaurant = restaurants.find(r => r.id === selectedRestaurant);
+  const timezone = currentRestaurant?.timezone ?? "UTC";
+
+  // Ids are UUIDs, so a drop target is either an item or a whole category
+  const categoryOf = (id: string) =>
+    categories.some(c => c.id === id) ? id : menuItems.find(i => i.id === id)?.category_id;
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    setDragOrigin(categoryOf(String(active.id)) ?? null);
+  };
+
+  // Move the item into the category it is dragged over, so that list opens a gap for it
+  const handleDragOver = ({ active, over }: DragOverEvent) => {
+    if (!over) return;
+    const from = categoryOf(String(active.id));
+    const to = categoryOf(String(over.id));
+    if (!from || !to || from === to) return;
+
+    setMenuItems(items => {
+      const moving = items.find(i => i.id === active.id);
+      if (!moving) return items;
+      const rest = items.filter(i => i.id !== active.id);
+      const overIndex = rest.findIndex(i => i.id === over.id);
+      const index = overIndex === -1 ? rest.length : overIndex;
+      return [...rest.slice(0, index), { ...moving, category_id: to }, ...rest.slice(index)];
     });
   };
 
+  // Save the whole layout in one call, so positions are never half-saved
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    const origin = dragOrigin;
+    setDragOrigin(null);
+
+    if (!over) {
+      if (origin !== categoryOf(String(active.id))) fetchMenuItems(selectedRestaurant);
+      return;
+    }
+
+    const activeIndex = menuItems.findIndex(i => i.id === active.id);
+    const overIndex = menuItems.findIndex(i => i.id === over.id);
+    const moved = origin !== menuItems[activeIndex]?.category_id;
+    if (!moved && (overIndex === -1 || overIndex === activeIndex)) return;
+
+    const items = overIndex === -1 || overIndex === activeIndex
+      ? menuItems
+      : arrayMove(menuItems, activeIndex, overIndex);
+    const layout = categories.map(category => ({
+      category_id: category.id,
+      item_ids: items.filter(i => i.category_id === category.id).map(i => i.id),
+    }));
+
+    setMenuItems(items);
+
+    try {
+      const { error } = await supabase.rpc("reorder_menu", {
+        _restaurant_id: selectedRestaurant,
+        _layout: layout,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save the new order");
+    } finally {
+      fetchMenuItems(selectedRestaurant);
+    }
+  };
+
+  const handleDragCancel = () => {
+    setDragOrigin(null);
+    fetchMenuItems(selectedRestaurant);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -265,6 +485,10 @@ const MenuItemsAdmin = () => {
               ))}
             </SelectContent>
           </Select>
+          <Button variant="outline" onClick={() => setImportOpen(true)} disabled={!currentRestaurant}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
             <DialogTrigger asChild>
               <Button onClick={resetForm}>
@@ -320,7 +544,7 @@ const MenuItemsAdmin = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="price">Price (₹) *</Label>
+                  <Label htmlFor="price">Price ({currentRestaurant?.currency_code || "INR"}) *</Label>
                   <Input
                     id="price"
                     type="number"
@@ -331,6 +555,11 @@ const MenuItemsAdmin = () => {
                     placeholder="299.00"
                     required
                   />
+                  {currentRestaurant && currentRestaurant.tax_rate > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {currentRestaurant.prices_include_tax ? "Including" : "Excluding"} {currentRestaurant.tax_rate}% tax
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -340,7 +569,7 @@ const MenuItemsAdmin = () => {
                       id="image_url"
                       type="url"
                       value={formData.image_url}
-                      onChange={(e) => setFormData({ ...formData, image_url: e.target.value })}
+                      onChange={(e) => setFormData({ ...formData, image_url: e.target.value, image_meta: null })}
                       placeholder="https://example.com/image.jpg"
                       className="flex-1"
                     />
@@ -352,12 +581,15 @@ const MenuItemsAdmin = () => {
                     >
                       {uploading ? "Uploading..." : "Browse"}
                     </Button>
+                    <Button type="button" variant="outline" onClick={() => setPickerOpen(true)} disabled={uploading}>
+                      Library
+                    </Button>
                   </div>
                   <Input
                     id="file-upload"
                     type="file"
                     accept="image/*"
-                    onChange={handleFileUpload}
+                    onChange={handleFileSelect}
                     className="hidden"
                   />
                   {formData.image_url && (
@@ -365,20 +597,11 @@ const MenuItemsAdmin = () => {
                       src={formData.image_url} 
                       alt="Preview" 
                       className="w-full h-32 object-cover rounded-md mt-2"
+                      style={{ objectPosition: getObjectPosition(getImageMeta(formData.image_url, formData.image_meta)) }}
                     />
                   )}
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="display_order">Display Order</Label>
-                  <Input
-                    id="display_order"
-                    type="number"
-                    value={formData.display_order}
-                    onChange={(e) => setFormData({ ...formData, display_order: parseInt(e.target.value) || 0 })}
-                  />
-                </div>
-
                 <div className="space-y-3">
                   <Label>Dietary & Features</Label>
                   <div className="flex items-center space-x-2">
@@ -433,6 +656,37 @@ const MenuItemsAdmin = () => {
                   </div>
                 </div>
 
+                <div className="space-y-3">
+                  <Label>Allergens</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {ALLERGENS.map((allergen) => (
+                      <div key={allergen.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`allergen-${allergen.id}`}
+                          checked={formData.allergens.includes(allergen.id)}
+                          onCheckedChange={(checked) =>
+                            setFormData({
+                              ...formData,
+                              allergens: checked
+                                ? [...formData.allergens, allergen.id]
+                                : formData.allergens.filter(id => id !== allergen.id),
+                            })
+                          }
+                        />
+                        <label htmlFor={`allergen-${allergen.id}`} className="text-sm cursor-pointer flex items-center gap-1.5">
+                          <allergen.icon className="h-3.5 w-3.5 text-muted-foreground" />
+                          {allergen.label}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <AvailabilityWindowsField
+                  windows={formData.availability}
+                  onChange={(availability) => setFormData({ ...formData, availability })}
+                />
+
                 <div className="flex gap-2 pt-4">
                   <Button type="submit" className="flex-1">
                     {editingItem ? "Update" : "Create"} Item
@@ -449,79 +703,200 @@ const MenuItemsAdmin = () => {
 
       {loading ? (
         <div className="text-center py-12">Loading...</div>
-      ) : menuItems.length === 0 ? (
+      ) : categories.length === 0 ? (
         <div className="text-center py-12 text-muted-foreground">
-          No menu items yet. Add your first item!
+          No categories yet. Add a category before adding items.
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {menuItems.map((item) => (
-            <Card key={item.id} className="overflow-hidden">
-              {item.image_url && (
-                <div className="h-40 overflow-hidden">
-                  <img
-                    src={item.image_url}
-                    alt={item.name}
-                    className="w-full h-full object-cover"
-                  />
-                </div>
-              )}
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between gap-2">
-                  <CardTitle className="text-lg">{item.name}</CardTitle>
-                  <span className="text-lg font-bold text-primary">${item.price.toFixed(2)}</span>
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  {item.menu_categories.name}
-                </p>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {item.description && (
-                  <p className="text-sm line-clamp-2">{item.description}</p>
-                )}
-                <div className="flex flex-wrap gap-2">
-                  {item.is_vegetarian && (
-                    <Badge variant="secondary" className="text-xs">
-                      <Leaf className="h-3 w-3 mr-1" />
-                      Vegetarian
-                    </Badge>
-                  )}
-                  {item.is_vegan && (
-                    <Badge variant="secondary" className="text-xs">
-                      <Leaf className="h-3 w-3 mr-1" />
-                      Vegan
-                    </Badge>
-                  )}
-                  {item.is_spicy && (
-                    <Badge variant="destructive" className="text-xs">
-                      <Flame className="h-3 w-3 mr-1" />
-                      Spicy
-                    </Badge>
-                  )}
-                </div>
-                <div className="flex gap-2 pt-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="flex-1"
-                    onClick={() => handleEdit(item)}
-                  >
-                    <Edit2 className="h-4 w-4 mr-1" />
-                    Edit
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={() => handleDelete(item.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCorners}
+          onDragStart={handleDragStart}
+          onDragOver={handleDragOver}
+          onDragEnd={handleDragEnd}
+          onDragCancel={handleDragCancel}
+        >
+          <div className="space-y-8">
+            {categories.map((category) => {
+              const items = menuItems.filter(i => i.category_id === category.id);
+
+              return (
+                <section key={category.id} className="space-y-3">
+                  <h3 className="text-xl font-semibold">
+                    {category.name}
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">{items.length}</span>
+                  </h3>
+                  <SortableContext id={category.id} items={items.map(i => i.id)} strategy={rectSortingStrategy}>
+                    <CategoryDropZone id={category.id}>
+                      {items.length === 0 ? (
+                        <div className="flex h-24 items-center justify-center rounded-lg border border-dashed text-sm text-muted-foreground">
+                          No items yet. Drag items here or add a new one.
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                          {items.map((item) => (
+                            <SortableItem key={item.id} id={item.id}>
+                              {(handle) => (
+                                <Card className="h-full overflow-hidden">
+                                  {item.image_url && (
+                                    <div className="h-40 overflow-hidden">
+                                      <img
+                                        src={item.image_url}
+                                        alt={item.name}
+                                        className="w-full h-full object-cover"
+                                        style={{ objectPosition: getObjectPosition(getImageMeta(item.image_url, item.image_meta)) }}
+                                      />
+                                    </div>
+                                  )}
+                                  <CardHeader className="pb-3">
+                                    <div className="flex items-start justify-between gap-2">
+                                      <div className="flex items-center gap-2">
+                                        {handle}
+                                        <CardTitle className="text-lg">{item.name}</CardTitle>
+                                      </div>
+                                      {currentRestaurant && (
+                                        <div className="text-right">
+                                          <span className="text-lg font-bold text-primary">{formatPrice(item.price, currentRestaurant)}</span>
+                                          {getAlternatePrice(item.price, currentRestaurant) && (
+                                            <p className="text-xs text-muted-foreground whitespace-nowrap">
+                                              {getAlternatePrice(item.price, currentRestaurant)}
+                                            </p>
+                                          )}
+                                        </div>
+                                      )}
+                                    </div>
+                                  </CardHeader>
+                                  <CardContent className="space-y-3">
+                                    {item.description && (
+                                      <p className="text-sm line-clamp-2">{item.description}</p>
+                                    )}
+                                    <div className="flex flex-wrap gap-2">
+                                      {soldOutEntry(item.id) && (
+                                        <Badge variant="destructive" className="text-xs">
+                                          {describeSoldOut(soldOutEntry(item.id)!, timezone)}
+                                        </Badge>
+                                      )}
+                                      {!item.is_available && (
+                                        <Badge variant="outline" className="text-xs">
+                                          <EyeOff className="h-3 w-3 mr-1" />
+                                          Hidden
+                                        </Badge>
+                                      )}
+                                      {item.is_vegetarian && (
+                                        <Badge variant="secondary" className="text-xs">
+                                          <Leaf className="h-3 w-3 mr-1" />
+                                          Vegetarian
+                                        </Badge>
+                                      )}
+                                      {item.is_vegan && (
+                                        <Badge variant="secondary" className="text-xs">
+                                          <Leaf className="h-3 w-3 mr-1" />
+                                          Vegan
+                                        </Badge>
+                                      )}
+                                      {item.is_spicy && (
+                                        <Badge variant="destructive" className="text-xs">
+                                          <Flame className="h-3 w-3 mr-1" />
+                                          Spicy
+                                        </Badge>
+                                      )}
+                                      {item.menu_item_allergens.map(({ allergen_id }) => {
+                                        const allergen = getAllergen(allergen_id);
+                                        if (!allergen) return null;
+                                        return (
+                                          <Badge key={allergen_id} variant="outline" className="text-xs">
+                                            <allergen.icon className="h-3 w-3 mr-1" />
+                                            {allergen.label}
+                                          </Badge>
+                                        );
+                                      })}
+                                      {item.availability_windows.length > 0 && (
+                                        <Badge variant="outline" className="text-xs">
+                                          <Clock className="h-3 w-3 mr-1" />
+                                          {describeWindows(item.availability_windows)}
+                                        </Badge>
+                                      )}
+                                    </div>
+                                    <div className="flex items-center justify-between gap-2 pt-2">
+                                      <Label htmlFor={`available-${item.id}`} className="text-sm font-normal">
+                                        Available now
+                                      </Label>
+                                      <Switch
+                                        id={`available-${item.id}`}
+                                        checked={!soldOutEntry(item.id)}
+                                        onCheckedChange={(available) => handleAvailableToggle(item, available)}
+                                      />
+                                    </div>
+                                    <div className="flex gap-2">
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="flex-1"
+                                        onClick={() => handleEdit(item)}
+                                      >
+                                        <Edit2 className="h-4 w-4 mr-1" />
+                                        Edit
+                                      </Button>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setModifierItem(item)}
+                                        title="Sizes, add-ons and other options"
+                                      >
+                                        <SlidersHorizontal className="h-4 w-4" />
+                                      </Button>
+                                      <Button
+                                        variant="destructive"
+                                        size="sm"
+                                        onClick={() => setDeleteTarget({ table: "menu_items", id: item.id, name: item.name })}
+                                      >
+                                        <Trash2 className="h-4 w-4" />
+                                      </Button>
+                                    </div>
+                                  </CardContent>
+                                </Card>
+                              )}
+                            </SortableItem>
+                          ))}
+                        </div>
+                      )}
+                    </CategoryDropZone>
+                  </SortableContext>
+                </section>
+              );
+            })}
+          </div>
+        </DndContext>
+      )}
+
+      <MenuImportDialog
+        restaurant={currentRestaurant ?? null}
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={() => {
+          fetchCategories(selectedRestaurant);
+          fetchMenuItems(selectedRestaurant);
+        }}
+      />
+
+      {currentRestaurant && (
+        <ModifierGroupsEditor item={modifierItem} priceSettings={currentRestaurant} onClose={() => setModifierItem(null)} />
       )}
+
+      <MoveToTrashDialog
+        target={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onDeleted={() => fetchMenuItems(selectedRestaurant)}
+      />
+
+      <ImageCropDialog file={cropFile} kind="dish" onCancel={() => setCropFile(null)} onConfirm={handleFileUpload} />
+
+      <MediaPickerDialog
+        open={pickerOpen}
+        restaurantId={selectedRestaurant || null}
+        onOpenChange={setPickerOpen}
+        onSelect={({ url, meta }) => setFormData(current => ({ ...current, image_url: url, image_meta: meta }))}
+      />
     </div>
   );
 };
@@ -0,0 +1,404 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Eye, GitCompare, RotateCcw, Send, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  MENU_CHANGE_LABELS,
+  diffMenuSnapshots,
+  parseMenuSnapshot,
+  type MenuChange,
+  type MenuSnapshot,
+} from "@/lib/menu-versions";
+import FieldChanges from "@/components/admin/FieldChanges";
+
+interface Restaurant {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+interface MenuVersion {
+  id: string;
+  version: number;
+  note: string | null;
+  restored_from: number | null;
+  published_by: string | null;
+  published_at: string;
+}
+
+// Stands in for a version id when comparing against unpublished edits
+const DRAFT = "draft";
+
+const ACTION_BADGES: Record<MenuChange["action"], { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  insert: { label: "Added", variant: "default" },
+  update: { label: "Changed", variant: "secondary" },
+  delete: { label: "Removed", variant: "destructive" },
+};
+
+const ChangeList = ({ changes }: { changes: MenuChange[] }) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No differences.</p>;
+  }
+
+  return (
+    <div className="divide-y">
+      {changes.map((change) => (
+        <div key={`${change.kind}-${change.id}`} className="space-y-2 py-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={ACTION_BADGES[change.action].variant}>{ACTION_BADGES[change.action].label}</Badge>
+            <span className="text-muted-foreground">{MENU_CHANGE_LABELS[change.kind]}</span>
+            <span className="font-medium">{change.name}</span>
+          </div>
+          {change.action === "update" && <FieldChanges changes={change.changes} action={change.action} />}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const MenuVersionsAdmin = () => {
+  const { access } = useAuth();
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [selectedRestaurant, setSelectedRestaurant] = useState("");
+  const [versions, setVersions] = useState<MenuVersion[]>([]);
+  const [publishers, setPublishers] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState<MenuSnapshot | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<MenuChange[]>([]);
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [compare, setCompare] = useState<{ from: string; to: string } | null>(null);
+  const [compareChanges, setCompareChanges] = useState<MenuChange[] | null>(null);
+
+  useEffect(() => {
+    const fetchRestaurants = async () => {
+      try {
+        let query = supabase.from("restaurants").select("id, name, slug").order("name");
+        if (!access?.isAdmin) query = query.in("id", access?.managedRestaurantIds ?? []);
+
+        const [restaurantsRes, actorsRes] = await Promise.all([query, supabase.rpc("list_audit_actors")]);
+
+        if (restaurantsRes.error) throw restaurantsRes.error;
+        if (actorsRes.error) throw actorsRes.error;
+        setRestaurants(restaurantsRes.data || []);
+        setPublishers(Object.fromEntries((actorsRes.data || []).map(a => [a.user_id, a.email])));
+        if (restaurantsRes.data && restaurantsRes.data.length > 0) {
+          setSelectedRestaurant(current => current || restaurantsRes.data[0].id);
+        }
+      } catch (error) {
+        toast.error("Failed to load restaurants");
+        console.error(error);
+      }
+    };
+
+    fetchRestaurants();
+  }, [access]);
+
+  const fetchVersions = useCallback(async () => {
+    if (!selectedRestaurant) return;
+
+    try {
+      const [versionsRes, draftRes, publishedRes] = await Promise.all([
+        supabase
+          .from("menu_versions")
+          .select("id, version, note, restored_from, published_by, published_at")
+          .eq("restaurant_id", selectedRestaurant)
+          .order("version", { ascending: false }),
+        supabase.rpc("get_menu_draft", { _restaurant_id: selectedRestaurant }),
+        supabase.rpc("published_menu", { _restaurant_id: selectedRestaurant }),
+      ]);
+
+      if (versionsRes.error) throw versionsRes.error;
+      if (draftRes.error) throw draftRes.error;
+      if (publishedRes.error) throw publishedRes.error;
+
+      const draftMenu = parseMenuSnapshot(draftRes.data);
+      setVersions(versionsRes.data || []);
+      setDraft(draftMenu);
+      setPendingChanges(diffMenuSnapshots(parseMenuSnapshot(publishedRes.data), draftMenu));
+    } catch (error) {
+      toast.error("Failed to load menu versions");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedRestaurant]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const loadSnapshot = useCallback(async (key: string) => {
+    if (key === DRAFT) return draft;
+
+    const { data, error } = await supabase.from("menu_versions").select("snapshot").eq("id", key).single();
+    if (error) throw error;
+    return parseMenuSnapshot(data.snapshot);
+  }, [draft]);
+
+  useEffect(() => {
+    if (!compare) return;
+
+    setCompareChanges(null);
+    Promise.all([loadSnapshot(compare.from), loadSnapshot(compare.to)])
+      .then(([before, after]) => setCompareChanges(diffMenuSnapshots(before, after)))
+      .catch(error => {
+        toast.error("Failed to compare versions");
+        console.error(error);
+      });
+  }, [compare, loadSnapshot]);
+
+  const restaurant = restaurants.find(r => r.id === selectedRestaurant);
+  const liveVersion = versions[0];
+
+  const versionLabel = (key: string) =>
+    key === DRAFT ? "Draft" : `Version ${versions.find(v => v.id === key)?.version ?? "?"}`;
+
+  const openCompare = (version: MenuVersion) => {
+    const index = versions.findIndex(v => v.id === version.id);
+    const previous = versions[index + 1];
+    setCompare({ from: previous?.id ?? version.id, to: version.id });
+  };
+
+  const handlePreview = async () => {
+    if (!restaurant) return;
+
+    try {
+      const { data: token, error } = await supabase.rpc("create_menu_preview_token", { _restaurant_id: restaurant.id });
+
+      if (error) throw error;
+      window.open(`/menu/${restaurant.slug}?preview=${encodeURIComponent(token)}`, "_blank");
+      toast.success("Preview opened. The link works for 24 hours.");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to create preview link");
+    }
+  };
+
+  const handlePublish = async () => {
+    setBusy(true);
+    try {
+      const { data: version, error } = await supabase.rpc("publish_menu", {
+        _restaurant_id: selectedRestaurant,
+        _note: note || undefined,
+      });
+
+      if (error) throw error;
+      setNote("");
+      toast.success(`Version ${version} is now live`);
+      fetchVersions();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to publish menu");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!confirm("Discard all unpublished changes? The draft goes back to the live menu.")) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc("discard_menu_draft", { _restaurant_id: selectedRestaurant });
+
+      if (error) throw error;
+      toast.success("Unpublished changes discarded");
+      fetchVersions();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to discard changes");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRollback = async (version: MenuVersion) => {
+    if (!confirm(`Roll back to version ${version.version}? It goes live again and replaces the current draft.`)) return;
+
+    setBusy(true);
+    try {
+      const { data: newVersion, error } = await supabase.rpc("rollback_menu", { _version_id: version.id });
+
+      if (error) throw error;
+      toast.success(`Rolled back. Version ${newVersion} is now live.`);
+      fetchVersions();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to roll back");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <h2 className="text-3xl font-bold">Publishing</h2>
+        <Select value={selectedRestaurant} onValueChange={setSelectedRestaurant}>
+          <SelectTrigger className="w-full sm:w-64">
+            <SelectValue placeholder="Select restaurant" />
+          </SelectTrigger>
+          <SelectContent>
+            {restaurants.map((restaurant) => (
+              <SelectItem key={restaurant.id} value={restaurant.id}>
+                {restaurant.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Draft</CardTitle>
+              <CardDescription>
+                {pendingChanges.length === 0
+                  ? liveVersion
+                    ? `Diners see version ${liveVersion.version}. There are no unpublished changes.`
+                    : "Nothing has been published yet."
+                  : `${pendingChanges.length} unpublished ${pendingChanges.length === 1 ? "change" : "changes"}. Diners see ${liveVersion ? `version ${liveVersion.version}` : "an empty menu"} until you publish.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {pendingChanges.length > 0 && (
+                <ScrollArea className="max-h-80 rounded-md border px-4">
+                  <ChangeList changes={pendingChanges} />
+                </ScrollArea>
+              )}
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Input
+                  placeholder="What changed? (optional)"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  disabled={pendingChanges.length === 0}
+                  className="sm:max-w-sm"
+                />
+                <Button onClick={handlePublish} disabled={busy || pendingChanges.length === 0}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Publish
+                </Button>
+                <Button variant="outline" onClick={handlePreview} disabled={!restaurant}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  Preview
+                </Button>
+                <Button variant="ghost" onClick={handleDiscard} disabled={busy || pendingChanges.length === 0 || !liveVersion}>
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Discard Changes
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {versions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No versions published yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Published</TableHead>
+                      <TableHead className="hidden md:table-cell">By</TableHead>
+                      <TableHead className="hidden md:table-cell">Note</TableHead>
+                      <TableHead className="w-44" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {versions.map((version) => (
+                      <TableRow key={version.id}>
+                        <TableCell className="font-medium">
+                          v{version.version}
+                          {version.id === liveVersion?.id && <Badge className="ml-2">Live</Badge>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {new Date(version.published_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell">
+                          {version.published_by ? publishers[version.published_by] || "Unknown user" : "—"}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-muted-foreground">{version.note || "—"}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openCompare(version)} title="Compare">
+                              <GitCompare className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRollback(version)}
+                              disabled={busy || version.id === liveVersion?.id}
+                              title="Roll back to this version"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={!!compare} onOpenChange={(open) => !open && setCompare(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Compare menu versions</DialogTitle>
+            <DialogDescription>What changed going from the first menu to the second.</DialogDescription>
+          </DialogHeader>
+          {compare && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                {(["from", "to"] as const).map((side) => (
+                  <Select
+                    key={side}
+                    value={compare[side]}
+                    onValueChange={(value) => setCompare({ ...compare, [side]: value })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue>{versionLabel(compare[side])}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DRAFT}>Draft</SelectItem>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.id}>
+                          Version {version.version}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+              </div>
+              <ScrollArea className="h-[60vh] pr-4">
+                {compareChanges ? (
+                  <ChangeList changes={compareChanges} />
+                ) : (
+                  <div className="text-center py-12">Loading...</div>
+                )}
+              </ScrollArea>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MenuVersionsAdmin;
@@ -0,0 +1,318 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Edit2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { describeGroupRule, type ModifierGroup } from "@/lib/modifiers";
+import { formatPrice, formatPriceDelta, type PriceSettings } from "@/lib/pricing";
+
+interface ModifierGroupsEditorProps {
+  item: { id: string; name: string } | null;
+  priceSettings: PriceSettings;
+  onClose: () => void;
+}
+
+const emptyGroupForm = {
+  name: "",
+  min_select: 0,
+  max_select: 1,
+  is_required: false,
+  display_order: 0,
+};
+
+const ModifierGroupsEditor = ({ item, priceSettings, onClose }: ModifierGroupsEditorProps) => {
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<ModifierGroup | null>(null);
+  const [groupForm, setGroupForm] = useState(emptyGroupForm);
+  const [optionForms, setOptionForms] = useState<Record<string, { name: string; price_delta: string }>>({});
+
+  useEffect(() => {
+    if (item) {
+      setEditingGroup(null);
+      setGroupForm(emptyGroupForm);
+      fetchGroups(item.id);
+    }
+  }, [item]);
+
+  const fetchGroups = async (menuItemId: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("modifier_groups")
+        .select("*, modifier_options(*)")
+        .eq("menu_item_id", menuItemId)
+        .order("display_order")
+        .order("display_order", { referencedTable: "modifier_options" });
+
+      if (error) throw error;
+      setGroups(data || []);
+    } catch (error) {
+      toast.error("Failed to load options");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGroupSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    try {
+      const groupData = {
+        ...groupForm,
+        menu_item_id: item.id,
+        min_select: Math.min(groupForm.min_select, groupForm.max_select),
+      };
+
+      if (editingGroup) {
+        const { error } = await supabase
+          .from("modifier_groups")
+          .update(groupData)
+          .eq("id", editingGroup.id);
+
+        if (error) throw error;
+        toast.success("Option group updated");
+      } else {
+        const { error } = await supabase
+          .from("modifier_groups")
+          .insert([groupData]);
+
+        if (error) throw error;
+        toast.success("Option group created");
+      }
+
+      setEditingGroup(null);
+      setGroupForm(emptyGroupForm);
+      fetchGroups(item.id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save option group");
+    }
+  };
+
+  const handleEditGroup = (group: ModifierGroup) => {
+    setEditingGroup(group);
+    setGroupForm({
+      name: group.name,
+      min_select: group.min_select,
+      max_select: group.max_select,
+      is_required: group.is_required,
+      display_order: group.display_order,
+    });
+  };
+
+  const handleDeleteGroup = async (id: string) => {
+    if (!item || !confirm("Delete this option group and all of its options?")) return;
+
+    try {
+      const { error } = await supabase
+        .from("modifier_groups")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      toast.success("Option group deleted");
+      fetchGroups(item.id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to delete option group");
+    }
+  };
+
+  const handleAddOption = async (group: ModifierGroup) => {
+    const form = optionForms[group.id];
+    if (!item || !form?.name.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from("modifier_options")
+        .insert([{
+          group_id: group.id,
+          name: form.name.trim(),
+          price_delta: parseFloat(form.price_delta) || 0,
+          display_order: group.modifier_options.length,
+        }]);
+
+      if (error) throw error;
+      setOptionForms({ ...optionForms, [group.id]: { name: "", price_delta: "" } });
+      fetchGroups(item.id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to add option");
+    }
+  };
+
+  const handleDeleteOption = async (id: string) => {
+    if (!item) return;
+
+    try {
+      const { error } = await supabase
+        .from("modifier_options")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      fetchGroups(item.id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to delete option");
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Options for {item?.name}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleGroupSubmit} className="space-y-4 rounded-lg border p-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="group_name">Group Name * (e.g., "Size", "Add-ons")</Label>
+              <Input
+                id="group_name"
+                value={groupForm.name}
+                onChange={(e) => setGroupForm({ ...groupForm, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min_select">Minimum Selections</Label>
+              <Input
+                id="min_select"
+                type="number"
+                min="0"
+                value={groupForm.min_select}
+                onChange={(e) => setGroupForm({ ...groupForm, min_select: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max_select">Maximum Selections</Label>
+              <Input
+                id="max_select"
+                type="number"
+                min="1"
+                value={groupForm.max_select}
+                onChange={(e) => setGroupForm({ ...groupForm, max_select: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group_display_order">Display Order</Label>
+              <Input
+                id="group_display_order"
+                type="number"
+                value={groupForm.display_order}
+                onChange={(e) => setGroupForm({ ...groupForm, display_order: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="flex items-center space-x-2 sm:pt-8">
+              <Checkbox
+                id="is_required"
+                checked={groupForm.is_required}
+                onCheckedChange={(checked) => setGroupForm({ ...groupForm, is_required: checked as boolean })}
+              />
+              <label htmlFor="is_required" className="text-sm cursor-pointer">
+                Required
+              </label>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1">
+              {editingGroup ? "Update" : "Add"} Group
+            </Button>
+            {editingGroup && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setEditingGroup(null);
+                  setGroupForm(emptyGroupForm);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-6">Loading...</div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No option groups yet. Add sizes, add-ons or spice levels above.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => (
+              <Card key={group.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      {group.name}
+                      <Badge variant="secondary" className="text-xs">{describeGroupRule(group)}</Badge>
+                    </CardTitle>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEditGroup(group)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => handleDeleteGroup(group.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {group.modifier_options.map((option) => (
+                    <div key={option.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span>{option.name}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-muted-foreground">
+                          {formatPriceDelta(option.price_delta, priceSettings) || formatPrice(0, priceSettings)}
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteOption(option.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex gap-2 pt-2">
+                    <Input
+                      placeholder="Option name"
+                      value={optionForms[group.id]?.name || ""}
+                      onChange={(e) => setOptionForms({
+                        ...optionForms,
+                        [group.id]: { price_delta: "", ...optionForms[group.id], name: e.target.value },
+                      })}
+                      className="flex-1"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder={`+${formatPrice(0, priceSettings)}`}
+                      value={optionForms[group.id]?.price_delta || ""}
+                      onChange={(e) => setOptionForms({
+                        ...optionForms,
+                        [group.id]: { name: "", ...optionForms[group.id], price_delta: e.target.value },
+                      })}
+                      className="w-28"
+                    />
+                    <Button type="button" variant="outline" onClick={() => handleAddOption(group)}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModifierGroupsEditor;
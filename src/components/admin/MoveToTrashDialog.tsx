@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { getAuditEntityLabel } from "@/lib/audit";
+import {
+  fetchDeleteImpact,
+  fetchTrashRetentionDays,
+  type DeleteImpact,
+  type TrashTarget,
+} from "@/lib/trash";
+
+interface MoveToTrashDialogProps {
+  target: TrashTarget | null;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+const plural = (count: number, word: string, words = `${word}s`) => `${count} ${count === 1 ? word : words}`;
+
+const describeImpact = ({ categories, menuItems, modifierGroups }: DeleteImpact) => {
+  const parts = [
+    categories > 0 && plural(categories, "category", "categories"),
+    menuItems > 0 && plural(menuItems, "menu item"),
+    modifierGroups > 0 && plural(modifierGroups, "option group"),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" and ") : null;
+};
+
+// Confirms a soft delete, spelling out what goes to the trash with the row
+const MoveToTrashDialog = ({ target, onClose, onDeleted }: MoveToTrashDialogProps) => {
+  const [impact, setImpact] = useState<DeleteImpact | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  // The delete still works without the counts, it just can't list them
+  const [impactFailed, setImpactFailed] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  // Counts that arrive after the dialog moved on to another row are dropped
+  const loadingTarget = useRef<TrashTarget | null>(null);
+
+  const loadImpact = useCallback((trashTarget: TrashTarget) => {
+    loadingTarget.current = trashTarget;
+    setImpact(null);
+    setImpactFailed(false);
+    Promise.all([fetchDeleteImpact(trashTarget), fetchTrashRetentionDays()])
+      .then(([counts, days]) => {
+        if (loadingTarget.current !== trashTarget) return;
+        setImpact(counts);
+        setRetentionDays(days);
+      })
+      .catch(error => {
+        if (loadingTarget.current !== trashTarget) return;
+        setImpactFailed(true);
+        console.error(error);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (target) {
+      loadImpact(target);
+    } else {
+      loadingTarget.current = null;
+    }
+  }, [target, loadImpact]);
+
+  const handleConfirm = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!target) return;
+
+    setDeleting(true);
+    try {
+      const { error } = await supabase.rpc("move_to_trash", { _table: target.table, _id: target.id });
+
+      if (error) throw error;
+      toast.success(`${getAuditEntityLabel(target.table)} moved to the trash`);
+      onClose();
+      onDeleted();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to delete");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const children = impact && describeImpact(impact);
+  const label = target ? getAuditEntityLabel(target.table).toLowerCase() : "";
+
+  return (
+    <AlertDialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete "{target?.name}"?</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              {impactFailed ? (
+                <p>
+                  We couldn't check what else this affects. Anything inside this {label} goes to the trash with it.{" "}
+                  <Button variant="link" className="h-auto p-0" onClick={() => target && loadImpact(target)}>
+                    Try again
+                  </Button>
+                </p>
+              ) : !impact ? (
+                <p>Checking what else this affects...</p>
+              ) : children ? (
+                <p>
+                  This {label} and its <span className="font-medium text-foreground">{children}</span> will be moved to the trash.
+                </p>
+              ) : (
+                <p>This {label} will be moved to the trash.</p>
+              )}
+              {retentionDays !== null && (
+                <p>You can restore it from the Trash tab for {plural(retentionDays, "day")}. After that it is deleted for good.</p>
+              )}
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={deleting || (!impact && !impactFailed)}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {deleting ? "Deleting..." : "Move to Trash"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default MoveToTrashDialog;
@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { DAYS, TIMEZONES, WEEK_ORDER, formatTime, type OpeningHour, type OpeningHourOverride } from "@/lib/opening-hours";
+
+interface OpeningHoursEditorProps {
+  restaurant: { id: string; name: string; timezone: string } | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const emptyOverrideForm = {
+  date: "",
+  is_closed: true,
+  opens_at: "",
+  closes_at: "",
+  note: "",
+};
+
+// <input type="time"> works with HH:MM, the database returns HH:MM:SS
+const toInputTime = (time: string | null) => (time ? time.slice(0, 5) : "");
+
+const OpeningHoursEditor = ({ restaurant, onClose, onSaved }: OpeningHoursEditorProps) => {
+  const [timezone, setTimezone] = useState("Asia/Kolkata");
+  const [hours, setHours] = useState<OpeningHour[]>([]);
+  const [overrides, setOverrides] = useState<OpeningHourOverride[]>([]);
+  const [overrideForm, setOverrideForm] = useState(emptyOverrideForm);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (restaurant) {
+      setTimezone(restaurant.timezone);
+      setOverrideForm(emptyOverrideForm);
+      fetchSchedule(restaurant.id);
+    }
+  }, [restaurant]);
+
+  const fetchSchedule = async (restaurantId: string) => {
+    setLoading(true);
+    try {
+      const [hoursRes, overridesRes] = await Promise.all([
+        supabase
+          .from("opening_hours")
+          .select("day_of_week, opens_at, closes_at")
+          .eq("restaurant_id", restaurantId)
+          .order("opens_at"),
+        supabase
+          .from("opening_hour_overrides")
+          .select("id, date, is_closed, opens_at, closes_at, note")
+          .eq("restaurant_id", restaurantId)
+          .gte("date", new Date().toISOString().slice(0, 10))
+          .order("date"),
+      ]);
+
+      if (hoursRes.error) throw hoursRes.error;
+      if (overridesRes.error) throw overridesRes.error;
+      setHours((hoursRes.data || []).map(h => ({ ...h, opens_at: toInputTime(h.opens_at), closes_at: toInputTime(h.closes_at) })));
+      setOverrides(overridesRes.data || []);
+    } catch (error) {
+      toast.error("Failed to load opening hours");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateInterval = (index: number, changes: Partial<OpeningHour>) => {
+    setHours(hours.map((h, i) => (i === index ? { ...h, ...changes } : h)));
+  };
+
+  const handleSaveHours = async () => {
+    if (!restaurant) return;
+    if (hours.some(h => !h.opens_at || !h.closes_at)) {
+      toast.error("Every interval needs an opening and closing time");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: restaurantError } = await supabase
+        .from("restaurants")
+        .update({ timezone })
+        .eq("id", restaurant.id);
+
+      if (restaurantError) throw restaurantError;
+
+      const { error: deleteError } = await supabase
+        .from("opening_hours")
+        .delete()
+        .eq("restaurant_id", restaurant.id);
+
+      if (deleteError) throw deleteError;
+
+      if (hours.length > 0) {
+        const { error: insertError } = await supabase
+          .from("opening_hours")
+          .insert(hours.map(h => ({ ...h, restaurant_id: restaurant.id })));
+
+        if (insertError) throw insertError;
+      }
+
+      toast.success("Opening hours saved");
+      onSaved();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save opening hours");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restaurant) return;
+
+    try {
+      const { error } = await supabase
+        .from("opening_hour_overrides")
+        .upsert([{
+          restaurant_id: restaurant.id,
+          date: overrideForm.date,
+          is_closed: overrideForm.is_closed,
+          opens_at: overrideForm.is_closed ? null : overrideForm.opens_at,
+          closes_at: overrideForm.is_closed ? null : overrideForm.closes_at,
+          note: overrideForm.note.trim() || null,
+        }], { onConflict: "restaurant_id,date" });
+
+      if (error) throw error;
+      toast.success("Special hours saved");
+      setOverrideForm(emptyOverrideForm);
+      fetchSchedule(restaurant.id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save special hours");
+    }
+  };
+
+  const handleDeleteOverride = async (id: string) => {
+    if (!restaurant) return;
+
+    try {
+      const { error } = await supabase
+        .from("opening_hour_overrides")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      fetchSchedule(restaurant.id);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to delete special hours");
+    }
+  };
+
+  return (
+    <Dialog open={!!restaurant} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Opening hours for {restaurant?.name}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-6">Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2 max-w-xs">
+              <Label>Timezone</Label>
+              <Select value={timezone} onValueChange={setTimezone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONES.map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone.replace(/_/g, " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <Label>Weekly Schedule</Label>
+                <p className="text-xs text-muted-foreground">
+                  Leave every day empty to take orders around the clock. A closing time before the opening time runs past midnight.
+                </p>
+              </div>
+              {WEEK_ORDER.map((day) => {
+                const intervals = hours.map((h, index) => ({ ...h, index })).filter(h => h.day_of_week === day);
+                return (
+                  <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 rounded-lg border p-3">
+                    <span className="w-28 text-sm font-medium pt-2">{DAYS[day]}</span>
+                    <div className="flex-1 space-y-2">
+                      {intervals.length === 0 && (
+                        <p className="text-sm text-muted-foreground pt-2">Closed</p>
+                      )}
+                      {intervals.map((interval) => (
+                        <div key={interval.index} className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            value={interval.opens_at}
+                            onChange={(e) => updateInterval(interval.index, { opens_at: e.target.value })}
+                            className="w-32"
+                          />
+                          <span className="text-sm text-muted-foreground">to</span>
+                          <Input
+                            type="time"
+                            value={interval.closes_at}
+                            onChange={(e) => updateInterval(interval.index, { closes_at: e.target.value })}
+                            className="w-32"
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setHours(hours.filter((_, i) => i !== interval.index))}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setHours([...hours, { day_of_week: day, opens_at: "11:00", closes_at: "22:00" }])}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Hours
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button onClick={handleSaveHours} disabled={saving}>
+                {saving ? "Saving..." : "Save Hours"}
+              </Button>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <div>
+                <Label>Holidays & Special Hours</Label>
+                <p className="text-xs text-muted-foreground">Replace the weekly schedule on a specific date.</p>
+              </div>
+              {overrides.map((override) => (
+                <div key={override.id} className="flex items-center justify-between gap-2 rounded-lg border p-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">
+                      {new Date(`${override.date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short", year: "numeric" })}
+                    </span>
+                    {override.is_closed ? (
+                      <Badge variant="destructive">Closed</Badge>
+                    ) : (
+                      <Badge variant="secondary">
+                        {formatTime(override.opens_at!)} – {formatTime(override.closes_at!)}
+                      </Badge>
+                    )}
+                    {override.note && <span className="text-muted-foreground">{override.note}</span>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteOverride(override.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <form onSubmit={handleAddOverride} className="space-y-3 rounded-lg border p-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="override_date">Date *</Label>
+                    <Input
+                      id="override_date"
+                      type="date"
+                      value={overrideForm.date}
+                      onChange={(e) => setOverrideForm({ ...overrideForm, date: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="override_note">Note</Label>
+                    <Input
+                      id="override_note"
+                      value={overrideForm.note}
+                      onChange={(e) => setOverrideForm({ ...overrideForm, note: e.target.value })}
+                      placeholder="e.g., Diwali"
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="override_closed"
+                      checked={overrideForm.is_closed}
+                      onCheckedChange={(checked) => setOverrideForm({ ...overrideForm, is_closed: checked as boolean })}
+                    />
+                    <label htmlFor="override_closed" className="text-sm cursor-pointer">
+                      Closed all day
+                    </label>
+                  </div>
+                  {!overrideForm.is_closed && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={overrideForm.opens_at}
+                        onChange={(e) => setOverrideForm({ ...overrideForm, opens_at: e.target.value })}
+                        className="w-32"
+                        required
+                      />
+                      <span className="text-sm text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        value={overrideForm.closes_at}
+                        onChange={(e) => setOverrideForm({ ...overrideForm, closes_at: e.target.value })}
+                        className="w-32"
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+                <Button type="submit" variant="outline">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Special Hours
+                </Button>
+              </form>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OpeningHoursEditor;
@@ -7,15 +7,30 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Edit2, Trash2, Settings, Palette, ExternalLink } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Plus, Edit2, Trash2, Settings, Palette, ExternalLink, ChefHat, Receipt, Clock, Download, FileJson, FileSpreadsheet, FileText } from "lucide-react";
 import { toast } from "sonner";
+import { getStaffAccess } from "@/lib/staff-access";
 import ThemeCustomizer from "./ThemeCustomizer";
+import OpeningHoursEditor from "./OpeningHoursEditor";
+import MoveToTrashDialog from "./MoveToTrashDialog";
+import ImageCropDialog from "./ImageCropDialog";
+import MediaPickerDialog from "./MediaPickerDialog";
+import type { TrashTarget } from "@/lib/trash";
+import { CURRENCIES, NUMBER_LOCALES, formatPrice, getTaxBreakdown } from "@/lib/pricing";
+import { downloadTextFile, fetchMenuExport, toMenuCsv, toMenuJson } from "@/lib/menu-export";
+import { MAX_UPLOAD_BYTES, getImageMeta, getObjectPosition, uploadImage, type ImageEdit } from "@/lib/images";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Restaurant {
   id: string;
   name: string;
   slug: string;
   description: string | null;
+  logo_meta: Json | null;
+  banner_meta: Json | null;
   theme_color: string;
   background_color: string;
   text_color: string;
@@ -32,20 +47,35 @@ interface Restaurant {
   contact_phone: string | null;
   address: string | null;
   is_active: boolean;
+  currency_code: string;
+  locale: string;
+  tax_rate: number;
+  prices_include_tax: boolean;
+  show_net_and_gross: boolean;
+  timezone: string;
 }
 
+type ImageField = 'logo_url' | 'banner_image_url';
+
 const RestaurantsAdmin = () => {
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingRestaurant, setEditingRestaurant] = useState<Restaurant | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [cropTarget, setCropTarget] = useState<{ file: File; field: ImageField } | null>(null);
+  const [pickerField, setPickerField] = useState<ImageField | null>(null);
+  const [hoursRestaurant, setHoursRestaurant] = useState<Restaurant | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<TrashTarget | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
     slug: "",
     description: "",
     logo_url: "",
+    logo_meta: null as Json | null,
     banner_image_url: "",
+    banner_meta: null as Json | null,
     theme_color: "#FF6B35",
     background_color: "#1a1f2e",
     text_color: "#FFFFFF",
@@ -61,6 +91,11 @@ const RestaurantsAdmin = () => {
     font_family: "Inter",
     contact_phone: "",
     address: "",
+    currency_code: "INR",
+    locale: "en-IN",
+    tax_rate: 0,
+    prices_include_tax: true,
+    show_net_and_gross: false,
   });
 
   useEffect(() => {
@@ -69,12 +104,17 @@ const RestaurantsAdmin = () => {
 
   const fetchRestaurants = async () => {
     try {
-      const { data, error } = await supabase
+      const access = await getStaffAccess();
+      let query = supabase
         .from("restaurants")
         .select("*")
         .order("name");
+      if (!access?.isAdmin) query = query.in("id", access?.managedRestaurantIds ?? []);
+
+      const { data, error } = await query;
 
       if (error) throw error;
+      setIsAdmin(!!access?.isAdmin);
       setRestaurants(data || []);
     } catch (error) {
       toast.error("Failed to load restaurants");
@@ -120,7 +160,9 @@ const RestaurantsAdmin = () => {
       slug: restaurant.slug,
       description: restaurant.description || "",
       logo_url: (restaurant as any).logo_url || "",
+      logo_meta: restaurant.logo_meta,
       banner_image_url: (restaurant as any).banner_image_url || "",
+      banner_meta: restaurant.banner_meta,
       theme_color: restaurant.theme_color || "#FF6B35",
       background_color: restaurant.background_color || "#1a1f2e",
       text_color: restaurant.text_color || "#FFFFFF",
@@ -136,29 +178,33 @@ const RestaurantsAdmin = () => {
       font_family: restaurant.font_family || "Inter",
       contact_phone: restaurant.contact_phone || "",
       address: restaurant.address || "",
+      currency_code: restaurant.currency_code,
+      locale: restaurant.locale,
+      tax_rate: restaurant.tax_rate,
+      prices_include_tax: restaurant.prices_include_tax,
+      show_net_and_gross: restaurant.show_net_and_gross,
     });
     setDialogOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this restaurant?")) return;
-
+  const handleExport = async (restaurant: Restaurant, format: "json" | "csv") => {
     try {
-      const { error } = await supabase
-        .from("restaurants")
-        .delete()
-        .eq("id", id);
-
-      if (error) throw error;
-      toast.success("Restaurant deleted successfully");
-      fetchRestaurants();
-    } catch (error: any) {
-      toast.error(error.message || "Failed to delete restaurant");
+      const menu = await fetchMenuExport(restaurant.id);
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === "json") {
+        downloadTextFile(toMenuJson(menu), `${restaurant.slug}-menu-${date}.json`, "application/json");
+      } else {
+        downloadTextFile(toMenuCsv(menu), `${restaurant.slug}-menu-${date}.csv`, "text/csv");
+      }
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to export menu");
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, field: 'logo_url' | 'banner_image_url') => {
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>, field: ImageField) => {
     const file = e.target.files?.[0];
+    // Clear the input so picking the same file again after cancelling still fires
+    e.target.value = "";
     if (!file) return;
 
     if (!file.type.startsWith('image/')) {
@@ -166,27 +212,34 @@ const RestaurantsAdmin = () => {
       return;
     }
 
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error("Image size must be less than 5MB");
+    if (file.size > MAX_UPLOAD_BYTES) {
+      toast.error(`Image size must be less than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`);
       return;
     }
 
-    setUploading(true);
-    try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${field}-${Math.random().toString(36).substring(2)}-${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('menu-images')
-        .upload(fileName, file);
-
-      if (uploadError) throw uploadError;
+    setCropTarget({ file, field });
+  };
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('menu-images')
-        .getPublicUrl(fileName);
+  const handleFileUpload = async (edit: ImageEdit) => {
+    if (!cropTarget) return;
+    const { file, field } = cropTarget;
+    setCropTarget(null);
 
-      setFormData({ ...formData, [field]: publicUrl });
+    setUploading(true);
+    try {
+      // New restaurants have no folder yet; only admins can create them and write outside one
+      const { url, meta } = await uploadImage(
+        file,
+        field === 'logo_url' ? "logo" : "banner",
+        editingRestaurant?.id ?? null,
+        edit
+      );
+
+      setFormData(current => ({
+        ...current,
+        [field]: url,
+        [field === 'logo_url' ? 'logo_meta' : 'banner_meta']: meta,
+      }));
       toast.success("Image uploaded successfully");
     } catch (error: any) {
       toast.error(error.message || "Failed to upload image");
@@ -202,7 +255,9 @@ const RestaurantsAdmin = () => {
       slug: "",
       description: "",
       logo_url: "",
+      logo_meta: null,
       banner_image_url: "",
+      banner_meta: null,
       theme_color: "#FF6B35",
       background_color: "#1a1f2e",
       text_color: "#FFFFFF",
@@ -218,20 +273,30 @@ const RestaurantsAdmin = () => {
       font_family: "Inter",
       contact_phone: "",
       address: "",
+      currency_code: "INR",
+      locale: "en-IN",
+      tax_rate: 0,
+      prices_include_tax: true,
+      show_net_and_gross: false,
     });
   };
 
+  const taxExample = getTaxBreakdown(250, formData);
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-3xl font-bold">Restaurants</h2>
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Restaurant
-            </Button>
-          </DialogTrigger>
+          {/* Only admins open new restaurants; managers edit the ones they run */}
+          {isAdmin && (
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Restaurant
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="flex items-center gap-2">
@@ -241,11 +306,15 @@ const RestaurantsAdmin = () => {
             </DialogHeader>
             <form onSubmit={handleSubmit}>
               <Tabs defaultValue="details" className="w-full">
-                <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsList className="grid w-full grid-cols-3 mb-6">
                   <TabsTrigger value="details" className="flex items-center gap-2">
                     <Settings className="h-4 w-4" />
                     Details
                   </TabsTrigger>
+                  <TabsTrigger value="pricing" className="flex items-center gap-2">
+                    <Receipt className="h-4 w-4" />
+                    Pricing & Tax
+                  </TabsTrigger>
                   <TabsTrigger value="theme" className="flex items-center gap-2">
                     <Palette className="h-4 w-4" />
                     Theme & Colors
@@ -290,7 +359,7 @@ const RestaurantsAdmin = () => {
                         id="logo_url"
                         type="url"
                         value={formData.logo_url}
-                        onChange={(e) => setFormData({ ...formData, logo_url: e.target.value })}
+                        onChange={(e) => setFormData({ ...formData, logo_url: e.target.value, logo_meta: null })}
                         placeholder="https://example.com/logo.jpg"
                         className="flex-1"
                       />
@@ -302,12 +371,15 @@ const RestaurantsAdmin = () => {
                       >
                         {uploading ? "Uploading..." : "Browse"}
                       </Button>
+                      <Button type="button" variant="outline" onClick={() => setPickerField('logo_url')} disabled={uploading}>
+                        Library
+                      </Button>
                     </div>
                     <Input
                       id="logo-upload"
                       type="file"
                       accept="image/*"
-                      onChange={(e) => handleFileUpload(e, 'logo_url')}
+                      onChange={(e) => handleFileSelect(e, 'logo_url')}
                       className="hidden"
                     />
                     {formData.logo_url && (
@@ -326,7 +398,7 @@ const RestaurantsAdmin = () => {
                         id="banner_image_url"
                         type="url"
                         value={formData.banner_image_url}
-                        onChange={(e) => setFormData({ ...formData, banner_image_url: e.target.value })}
+                        onChange={(e) => setFormData({ ...formData, banner_image_url: e.target.value, banner_meta: null })}
                         placeholder="https://example.com/banner.jpg"
                         className="flex-1"
                       />
@@ -338,12 +410,15 @@ const RestaurantsAdmin = () => {
                       >
                         {uploading ? "Uploading..." : "Browse"}
                       </Button>
+                      <Button type="button" variant="outline" onClick={() => setPickerField('banner_image_url')} disabled={uploading}>
+                        Library
+                      </Button>
                     </div>
                     <Input
                       id="banner-upload"
                       type="file"
                       accept="image/*"
-                      onChange={(e) => handleFileUpload(e, 'banner_image_url')}
+                      onChange={(e) => handleFileSelect(e, 'banner_image_url')}
                       className="hidden"
                     />
                     {formData.banner_image_url && (
@@ -351,6 +426,7 @@ const RestaurantsAdmin = () => {
                         src={formData.banner_image_url} 
                         alt="Banner preview" 
                         className="w-full h-32 object-cover rounded-md"
+                        style={{ objectPosition: getObjectPosition(getImageMeta(formData.banner_image_url, formData.banner_meta)) }}
                       />
                     )}
                   </div>
@@ -376,6 +452,98 @@ const RestaurantsAdmin = () => {
                   </div>
                 </TabsContent>
 
+                <TabsContent value="pricing" className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Currency</Label>
+                      <Select
+                        value={formData.currency_code}
+                        onValueChange={(value) => setFormData({ ...formData, currency_code: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.map((currency) => (
+                            <SelectItem key={currency.code} value={currency.code}>
+                              {currency.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Number Format</Label>
+                      <Select
+                        value={formData.locale}
+                        onValueChange={(value) => setFormData({ ...formData, locale: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {NUMBER_LOCALES.map((locale) => (
+                            <SelectItem key={locale.code} value={locale.code}>
+                              {locale.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="tax_rate">Tax Rate (%)</Label>
+                    <Input
+                      id="tax_rate"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="99.99"
+                      value={formData.tax_rate}
+                      onChange={(e) => setFormData({ ...formData, tax_rate: parseFloat(e.target.value) || 0 })}
+                      className="max-w-[10rem]"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                    <div>
+                      <Label htmlFor="prices_include_tax">Menu prices include tax</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Turn off if tax is added on top of menu prices at checkout.
+                      </p>
+                    </div>
+                    <Switch
+                      id="prices_include_tax"
+                      checked={formData.prices_include_tax}
+                      onCheckedChange={(checked) => setFormData({ ...formData, prices_include_tax: checked })}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                    <div>
+                      <Label htmlFor="show_net_and_gross">Show net and gross prices</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Lists the price with and without tax on every dish.
+                      </p>
+                    </div>
+                    <Switch
+                      id="show_net_and_gross"
+                      checked={formData.show_net_and_gross}
+                      onCheckedChange={(checked) => setFormData({ ...formData, show_net_and_gross: checked })}
+                    />
+                  </div>
+
+                  <div className="rounded-lg bg-muted p-4 text-sm space-y-1">
+                    <p className="font-medium">Example: a dish listed at {formatPrice(250, formData)}</p>
+                    <p className="text-muted-foreground">
+                      Net {formatPrice(taxExample.net, formData)} · Tax {formatPrice(taxExample.tax, formData)} · Guest
+                      pays {formatPrice(taxExample.gross, formData)}
+                    </p>
+                  </div>
+                </TabsContent>
+
                 <TabsContent value="theme">
                   <ThemeCustomizer
                     formData={formData}
@@ -412,14 +580,23 @@ const RestaurantsAdmin = () => {
               >
                 <CardTitle className="text-lg flex items-center justify-between">
                   {restaurant.name}
-                  <a 
-                    href={`/menu/${restaurant.slug}`} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="opacity-0 group-hover:opacity-100 transition-opacity"
-                  >
-                    <ExternalLink className="h-4 w-4" />
-                  </a>
+                  <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <a
+                      href={`/kitchen/${restaurant.slug}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title="Kitchen display"
+                    >
+                      <ChefHat className="h-4 w-4" />
+                    </a>
+                    <a 
+                      href={`/menu/${restaurant.slug}`} 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent className="pt-4">
@@ -463,18 +640,84 @@ const RestaurantsAdmin = () => {
                     Edit
                   </Button>
                   <Button
-                    variant="destructive"
+                    variant="outline"
                     size="sm"
-                    onClick={() => handleDelete(restaurant.id)}
+                    onClick={() => setHoursRestaurant(restaurant)}
+                    title="Opening hours"
                   >
-                    <Trash2 className="h-4 w-4" />
+                    <Clock className="h-4 w-4" />
                   </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" title="Export menu">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => handleExport(restaurant, "json")}>
+                        <FileJson className="h-4 w-4 mr-2" />
+                        JSON (re-importable)
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExport(restaurant, "csv")}>
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        CSV spreadsheet
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href={`/menu/${restaurant.slug}/print`} target="_blank" rel="noopener noreferrer">
+                          <FileText className="h-4 w-4 mr-2" />
+                          Printable PDF
+                        </a>
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  {isAdmin && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setDeleteTarget({ table: "restaurants", id: restaurant.id, name: restaurant.name })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      <OpeningHoursEditor
+        restaurant={hoursRestaurant}
+        onClose={() => setHoursRestaurant(null)}
+        onSaved={fetchRestaurants}
+      />
+
+      <MoveToTrashDialog
+        target={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onDeleted={fetchRestaurants}
+      />
+
+      <ImageCropDialog
+        file={cropTarget?.file ?? null}
+        kind={cropTarget?.field === 'logo_url' ? "logo" : "banner"}
+        onCancel={() => setCropTarget(null)}
+        onConfirm={handleFileUpload}
+      />
+
+      <MediaPickerDialog
+        open={!!pickerField}
+        restaurantId={editingRestaurant?.id ?? null}
+        onOpenChange={(open) => !open && setPickerField(null)}
+        onSelect={({ url, meta }) => {
+          if (!pickerField) return;
+          setFormData(current => ({
+            ...current,
+            [pickerField]: url,
+            [pickerField === 'logo_url' ? 'logo_meta' : 'banner_meta']: meta,
+          }));
+        }}
+      />
     </div>
   );
 };
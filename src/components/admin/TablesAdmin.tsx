@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Edit2, Trash2, Download, ExternalLink, Users } from "lucide-react";
+import { toast } from "sonner";
+import { getStaffAccess } from "@/lib/staff-access";
+
+interface Restaurant {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+interface RestaurantTable {
+  id: string;
+  restaurant_id: string;
+  table_number: string;
+  code: string;
+  seats: number | null;
+}
+
+const tableUrl = (slug: string, code: string) => `${window.location.origin}/menu/${slug}/table/${code}`;
+
+const downloadFile = (href: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = fileName;
+  link.click();
+};
+
+const TableQRCode = ({ url, fileName }: { url: string; fileName: string }) => {
+  const [svg, setSvg] = useState("");
+
+  useEffect(() => {
+    QRCode.toString(url, { type: "svg", margin: 1 })
+      .then(setSvg)
+      .catch((error) => console.error("Error generating QR code:", error));
+  }, [url]);
+
+  const handleDownloadSvg = () => {
+    const blob = new Blob([svg], { type: "image/svg+xml" });
+    const href = URL.createObjectURL(blob);
+    downloadFile(href, `${fileName}.svg`);
+    URL.revokeObjectURL(href);
+  };
+
+  const handleDownloadPng = async () => {
+    try {
+      // 1024px is comfortably sharp for a printed table sticker
+      const dataUrl = await QRCode.toDataURL(url, { width: 1024, margin: 2 });
+      downloadFile(dataUrl, `${fileName}.png`);
+    } catch (error) {
+      toast.error("Failed to generate QR code");
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="mx-auto w-40 h-40 bg-white p-2 rounded-md border [&>svg]:w-full [&>svg]:h-full"
+        dangerouslySetInnerHTML={{ __html: svg }}
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={handleDownloadSvg} disabled={!svg}>
+          <Download className="h-4 w-4 mr-1" />
+          SVG
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={handleDownloadPng}>
+          <Download className="h-4 w-4 mr-1" />
+          PNG
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const TablesAdmin = () => {
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [selectedRestaurant, setSelectedRestaurant] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTable, setEditingTable] = useState<RestaurantTable | null>(null);
+  const [formData, setFormData] = useState({
+    table_number: "",
+    seats: "",
+  });
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (selectedRestaurant) {
+      fetchTables(selectedRestaurant);
+    }
+  }, [selectedRestaurant]);
+
+  const fetchData = async () => {
+    try {
+      const access = await getStaffAccess();
+      let query = supabase
+        .from("restaurants")
+        .select("id, name, slug")
+        .eq("is_active", true)
+        .order("name");
+      if (!access?.isAdmin) query = query.in("id", access?.managedRestaurantIds ?? []);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setRestaurants(data || []);
+      if (data && data.length > 0) {
+        setSelectedRestaurant(data[0].id);
+      }
+    } catch (error) {
+      toast.error("Failed to load restaurants");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTables = async (restaurantId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("restaurant_tables")
+        .select("id, restaurant_id, table_number, code, seats")
+        .eq("restaurant_id", restaurantId)
+        .order("table_number");
+
+      if (error) throw error;
+      setTables(data || []);
+    } catch (error) {
+      console.error("Error fetching tables:", error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const tableData = {
+        restaurant_id: selectedRestaurant,
+        table_number: formData.table_number.trim(),
+        seats: formData.seats ? parseInt(formData.seats) : null,
+      };
+
+      if (editingTable) {
+        const { error } = await supabase
+          .from("restaurant_tables")
+          .update(tableData)
+          .eq("id", editingTable.id);
+
+        if (error) throw error;
+        toast.success("Table updated successfully");
+      } else {
+        const { error } = await supabase
+          .from("restaurant_tables")
+          .insert([tableData]);
+
+        if (error) throw error;
+        toast.success("Table created successfully");
+      }
+
+      setDialogOpen(false);
+      resetForm();
+      fetchTables(selectedRestaurant);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save table");
+    }
+  };
+
+  const handleEdit = (table: RestaurantTable) => {
+    setEditingTable(table);
+    setFormData({
+      table_number: table.table_number,
+      seats: table.seats?.toString() || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Are you sure? Printed QR codes for this table will stop working.")) return;
+
+    try {
+      const { error } = await supabase
+        .from("restaurant_tables")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      toast.success("Table deleted successfully");
+      fetchTables(selectedRestaurant);
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to delete table");
+    }
+  };
+
+  const resetForm = () => {
+    setEditingTable(null);
+    setFormData({
+      table_number: "",
+      seats: "",
+    });
+  };
+
+  const restaurant = restaurants.find(r => r.id === selectedRestaurant);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-3xl font-bold">Tables</h2>
+        <div className="flex flex-col sm:flex-row gap-4 w-full sm:w-auto">
+          <Select value={selectedRestaurant} onValueChange={setSelectedRestaurant}>
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue placeholder="Select restaurant" />
+            </SelectTrigger>
+            <SelectContent>
+              {restaurants.map((restaurant) => (
+                <SelectItem key={restaurant.id} value={restaurant.id}>
+                  {restaurant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm} disabled={!selectedRestaurant}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Table
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingTable ? "Edit Table" : "Add New Table"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="table_number">Table Number *</Label>
+                  <Input
+                    id="table_number"
+                    value={formData.table_number}
+                    onChange={(e) => setFormData({ ...formData, table_number: e.target.value })}
+                    placeholder="12 or Patio 3"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="seats">Seats</Label>
+                  <Input
+                    id="seats"
+                    type="number"
+                    min="1"
+                    value={formData.seats}
+                    onChange={(e) => setFormData({ ...formData, seats: e.target.value })}
+                  />
+                </div>
+
+                <div className="flex gap-2 pt-4">
+                  <Button type="submit" className="flex-1">
+                    {editingTable ? "Update" : "Create"} Table
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : tables.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          No tables yet. Add your first table to print its QR code!
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {tables.map((table) => (
+            <Card key={table.id}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center justify-between">
+                  Table {table.table_number}
+                  {restaurant && (
+                    <a
+                      href={tableUrl(restaurant.slug, table.code)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  )}
+                </CardTitle>
+                {table.seats && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <Users className="h-3 w-3" />
+                    {table.seats} seats
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {restaurant && (
+                  <TableQRCode
+                    url={tableUrl(restaurant.slug, table.code)}
+                    fileName={`${restaurant.slug}-table-${table.table_number.replace(/\s+/g, '-')}`}
+                  />
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleEdit(table)}
+                  >
+                    <Edit2 className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDelete(table.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TablesAdmin;
@@ -0,0 +1,494 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Copy, Mail, Plus, Trash2, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import type { Database } from "@/integrations/supabase/types";
+import { getStaffAccess } from "@/lib/staff-access";
+
+type AppRole = Database["public"]["Enums"]["app_role"];
+
+interface Restaurant {
+  id: string;
+  name: string;
+}
+
+interface StaffMember {
+  role_id: string;
+  user_id: string;
+  email: string;
+  role: AppRole;
+  restaurant_id: string | null;
+  created_at: string;
+}
+
+interface StaffInvite {
+  id: string;
+  email: string;
+  role: AppRole;
+  restaurant_id: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+}
+
+// A role and its restaurant are picked together: "admin", or a restaurant role
+// such as "manager:<restaurant id>"
+const ADMIN_SCOPE = "admin";
+
+const RESTAURANT_ROLES = [
+  { role: "manager" as const, label: "Manager" },
+  { role: "floor" as const, label: "Floor staff" },
+];
+
+const scopeOf = (role: AppRole, restaurantId: string | null) =>
+  role === "admin" ? ADMIN_SCOPE : `${role}:${restaurantId ?? ""}`;
+
+const roleForScope = (scope: string) => {
+  if (scope === ADMIN_SCOPE) return { role: "admin" as const, restaurant_id: null };
+  const [role, restaurantId] = scope.split(":");
+  return { role: role as AppRole, restaurant_id: restaurantId };
+};
+
+const inviteStatus = (invite: StaffInvite) => {
+  if (invite.accepted_at) return { label: "Accepted", variant: "secondary" as const };
+  if (invite.revoked_at) return { label: "Revoked", variant: "outline" as const };
+  if (new Date(invite.expires_at) < new Date()) return { label: "Expired", variant: "outline" as const };
+  return { label: "Pending", variant: "default" as const };
+};
+
+const TeamAdmin = () => {
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [invites, setInvites] = useState<StaffInvite[]>([]);
+  const [domains, setDomains] = useState<string[]>([]);
+  const [newDomain, setNewDomain] = useState("");
+  const [currentUserId, setCurrentUserId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [inviteForm, setInviteForm] = useState({ email: "", scope: "" });
+  const [inviteLink, setInviteLink] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [access, restaurantsRes, membersRes, invitesRes, domainsRes] = await Promise.all([
+        getStaffAccess(),
+        supabase.from("restaurants").select("id, name").order("name"),
+        supabase.rpc("list_staff_members"),
+        supabase
+          .from("staff_invites")
+          .select("id, email, role, restaurant_id, expires_at, accepted_at, revoked_at")
+          .order("created_at", { ascending: false })
+          .limit(50),
+        supabase.from("signup_domains").select("domain").order("domain"),
+      ]);
+
+      if (restaurantsRes.error) throw restaurantsRes.error;
+      if (membersRes.error) throw membersRes.error;
+      if (invitesRes.error) throw invitesRes.error;
+      if (domainsRes.error) throw domainsRes.error;
+
+      setCurrentUserId(access?.userId || "");
+      setRestaurants(restaurantsRes.data || []);
+      setMembers((membersRes.data || []).filter(m => m.role !== "user"));
+      setInvites(invitesRes.data || []);
+      setDomains((domainsRes.data || []).map(d => d.domain));
+    } catch (error) {
+      toast.error("Failed to load team");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restaurantName = (id: string | null) => restaurants.find(r => r.id === id)?.name || "Unknown restaurant";
+
+  const scopeLabel = (role: AppRole, restaurantId: string | null) =>
+    role === "admin"
+      ? "Admin · all restaurants"
+      : `${RESTAURANT_ROLES.find(r => r.role === role)?.label ?? role} · ${restaurantName(restaurantId)}`;
+
+  const handleChangeRole = async (member: StaffMember, scope: string) => {
+    if (scope === scopeOf(member.role, member.restaurant_id)) return;
+
+    try {
+      const { error } = await supabase
+        .from("user_roles")
+        .update(roleForScope(scope))
+        .eq("id", member.role_id);
+
+      if (error) throw error;
+      toast.success(`${member.email} is now ${scopeLabel(roleForScope(scope).role, roleForScope(scope).restaurant_id)}`);
+      fetchData();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to change role");
+    }
+  };
+
+  const handleRevokeRole = async (member: StaffMember) => {
+    if (!confirm(`Remove ${scopeLabel(member.role, member.restaurant_id)} from ${member.email}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from("user_roles")
+        .delete()
+        .eq("id", member.role_id);
+
+      if (error) throw error;
+      toast.success("Role revoked");
+      fetchData();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to revoke role");
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteForm.scope) {
+      toast.error("Choose a role for the new team member");
+      return;
+    }
+
+    setSending(true);
+    try {
+      const { role, restaurant_id } = roleForScope(inviteForm.scope);
+      const { data: token, error } = await supabase.rpc("create_staff_invite", {
+        _email: inviteForm.email,
+        _role: role,
+        _restaurant_id: restaurant_id ?? undefined,
+      });
+
+      if (error) throw error;
+      setInviteLink(`${window.location.origin}/auth?invite=${encodeURIComponent(token)}`);
+      fetchData();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to create invite");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevokeInvite = async (id: string) => {
+    if (!confirm("Revoke this invite? The link will stop working.")) return;
+
+    try {
+      const { error } = await supabase
+        .from("staff_invites")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) throw error;
+      toast.success("Invite revoked");
+      fetchData();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to revoke invite");
+    }
+  };
+
+  const handleAddDomain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const domain = newDomain.trim().toLowerCase().replace(/^@/, "");
+    if (!domain) return;
+
+    try {
+      const { error } = await supabase.from("signup_domains").insert({ domain });
+
+      if (error) throw error;
+      setNewDomain("");
+      toast.success(`Anyone with an @${domain} email can now sign up`);
+      fetchData();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to add domain");
+    }
+  };
+
+  const handleRemoveDomain = async (domain: string) => {
+    try {
+      const { error } = await supabase
+        .from("signup_domains")
+        .delete()
+        .eq("domain", domain);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to remove domain");
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast.success("Invite link copied");
+    } catch (error) {
+      toast.error("Could not copy the link. Select it and copy it manually.");
+    }
+  };
+
+  const openInviteDialog = () => {
+    setInviteForm({ email: "", scope: "" });
+    setInviteLink("");
+    setInviteOpen(true);
+  };
+
+  const mailtoLink = `mailto:${inviteForm.email}?subject=${encodeURIComponent("You're invited to manage our menu")}&body=${encodeURIComponent(`Use this link to create your account or sign in and join the team. It expires in 7 days.\n\n${inviteLink}`)}`;
+
+  const scopeOptions = (
+    <>
+      <SelectItem value={ADMIN_SCOPE}>Admin · all restaurants</SelectItem>
+      {RESTAURANT_ROLES.flatMap(({ role, label }) =>
+        restaurants.map((restaurant) => (
+          <SelectItem key={`${role}-${restaurant.id}`} value={scopeOf(role, restaurant.id)}>
+            {label} · {restaurant.name}
+          </SelectItem>
+        ))
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-3xl font-bold">Team</h2>
+        <Button onClick={openInviteDialog}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite Member
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Members</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead className="hidden md:table-cell">Since</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => {
+                    const isSelf = member.user_id === currentUserId;
+                    return (
+                      <TableRow key={member.role_id}>
+                        <TableCell className="font-medium">
+                          {member.email}
+                          {isSelf && <Badge variant="outline" className="ml-2">You</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={scopeOf(member.role, member.restaurant_id)}
+                            onValueChange={(scope) => handleChangeRole(member, scope)}
+                            disabled={isSelf}
+                          >
+                            <SelectTrigger className="w-full sm:w-72">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>{scopeOptions}</SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-muted-foreground">
+                          {new Date(member.created_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevokeRole(member)}
+                            disabled={isSelf}
+                            title={isSelf ? "You cannot remove your own role" : "Revoke role"}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Invites</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {invites.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No invites sent yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="hidden md:table-cell">Expires</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invites.map((invite) => {
+                      const status = inviteStatus(invite);
+                      return (
+                        <TableRow key={invite.id}>
+                          <TableCell className="font-medium">{invite.email}</TableCell>
+                          <TableCell>{scopeLabel(invite.role, invite.restaurant_id)}</TableCell>
+                          <TableCell>
+                            <Badge variant={status.variant}>{status.label}</Badge>
+                          </TableCell>
+                          <TableCell className="hidden md:table-cell text-muted-foreground">
+                            {new Date(invite.expires_at).toLocaleString()}
+                          </TableCell>
+                          <TableCell>
+                            {status.label === "Pending" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRevokeInvite(invite.id)}
+                                title="Revoke invite"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Sign-up Domains</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Only invited people can create an account, plus anyone with an email at these domains.
+                They still need a role before they can use the admin.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {domains.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {domains.map((domain) => (
+                    <Badge key={domain} variant="secondary" className="gap-1 pr-1">
+                      @{domain}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveDomain(domain)}
+                        className="rounded-full p-0.5 hover:bg-background"
+                        aria-label={`Remove ${domain}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <form onSubmit={handleAddDomain} className="flex gap-2 max-w-md">
+                <Input
+                  value={newDomain}
+                  onChange={(e) => setNewDomain(e.target.value)}
+                  placeholder="yourrestaurant.com"
+                />
+                <Button type="submit" variant="outline" disabled={!newDomain.trim()}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite a team member</DialogTitle>
+            <DialogDescription>
+              They get a link to sign up or sign in with this email. The link works once and expires after 7 days.
+            </DialogDescription>
+          </DialogHeader>
+
+          {inviteLink ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-link">Invite link for {inviteForm.email}</Label>
+                <Input id="invite-link" value={inviteLink} readOnly onFocus={(e) => e.target.select()} />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleCopyLink} className="flex-1">
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy Link
+                </Button>
+                <Button variant="outline" asChild>
+                  <a href={mailtoLink}>
+                    <Mail className="h-4 w-4 mr-2" />
+                    Send by Email
+                  </a>
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleInvite} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email *</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                  placeholder="chef@example.com"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Role *</Label>
+                <Select value={inviteForm.scope} onValueChange={(scope) => setInviteForm({ ...inviteForm, scope })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                  <SelectContent>{scopeOptions}</SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1" disabled={sending}>
+                  {sending ? "Creating..." : "Create Invite"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setInviteOpen(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TeamAdmin;
@@ -3,6 +3,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Palette, Type, Layout, Sparkles } from "lucide-react";
+import { formatPrice } from "@/lib/pricing";
 
 interface ThemeFormData {
   theme_color: string;
@@ -18,6 +19,8 @@ interface ThemeFormData {
   button_text_color: string;
   border_color: string;
   font_family: string;
+  currency_code: string;
+  locale: string;
 }
 
 interface ThemeCustomizerProps {
@@ -259,7 +262,7 @@ const ThemeCustomizer = ({ formData, onChange }: ThemeCustomizerProps) => {
               </p>
             </div>
             <span style={{ color: formData.price_color }} className="font-bold text-lg">
-              ₹249
+              {formatPrice(249, formData)}
             </span>
           </div>
           <button
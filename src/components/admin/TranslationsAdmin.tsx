@@ -0,0 +1,374 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Languages, Save } from "lucide-react";
+import { toast } from "sonner";
+import { getStaffAccess } from "@/lib/staff-access";
+import {
+  LANGUAGES,
+  getLanguageLabel,
+  translationKey,
+  type TranslatableEntity,
+  type TranslatableField,
+} from "@/lib/translations";
+
+interface Restaurant {
+  id: string;
+  name: string;
+  description: string | null;
+  default_locale: string;
+  supported_locales: string[];
+}
+
+interface GridRow {
+  entityType: TranslatableEntity;
+  entityId: string;
+  field: TranslatableField;
+  label: string;
+  source: string;
+}
+
+// Grid cells are keyed by translation key and locale
+const cellKey = (row: GridRow, locale: string) => `${translationKey(row.entityType, row.entityId, row.field)}:${locale}`;
+
+const TranslationsAdmin = () => {
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [selectedRestaurant, setSelectedRestaurant] = useState("");
+  const [rows, setRows] = useState<GridRow[]>([]);
+  const [saved, setSaved] = useState<Record<string, string>>({});
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [languageForm, setLanguageForm] = useState({ default_locale: "en", supported_locales: ["en"] });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    const restaurant = restaurants.find(r => r.id === selectedRestaurant);
+    if (restaurant) {
+      setLanguageForm({
+        default_locale: restaurant.default_locale,
+        supported_locales: restaurant.supported_locales,
+      });
+      fetchGrid(restaurant);
+    }
+  }, [selectedRestaurant, restaurants]);
+
+  const fetchData = async () => {
+    try {
+      const access = await getStaffAccess();
+      let query = supabase
+        .from("restaurants")
+        .select("id, name, description, default_locale, supported_locales")
+        .eq("is_active", true)
+        .order("name");
+      if (!access?.isAdmin) query = query.in("id", access?.managedRestaurantIds ?? []);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setRestaurants(data || []);
+      if (data && data.length > 0) {
+        setSelectedRestaurant(current => current || data[0].id);
+      }
+    } catch (error) {
+      toast.error("Failed to load restaurants");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchGrid = async (restaurant: Restaurant) => {
+    try {
+      const [categoriesRes, itemsRes, translationsRes] = await Promise.all([
+        supabase
+          .from("menu_categories")
+          .select("id, name, description")
+          .eq("restaurant_id", restaurant.id)
+          .order("display_order"),
+        supabase
+          .from("menu_items")
+          .select("id, name, description, category_id, menu_categories!inner(restaurant_id, display_order)")
+          .eq("menu_categories.restaurant_id", restaurant.id)
+          .order("display_order"),
+        supabase
+          .from("translations")
+          .select("entity_type, entity_id, field, locale, value")
+          .eq("restaurant_id", restaurant.id),
+      ]);
+
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (itemsRes.error) throw itemsRes.error;
+      if (translationsRes.error) throw translationsRes.error;
+
+      const gridRows: GridRow[] = [];
+      const addRows = (entityType: TranslatableEntity, entity: { id: string; name: string; description: string | null }, prefix: string) => {
+        gridRows.push({ entityType, entityId: entity.id, field: "name", label: `${prefix} name`, source: entity.name });
+        if (entity.description) {
+          gridRows.push({ entityType, entityId: entity.id, field: "description", label: `${prefix} description`, source: entity.description });
+        }
+      };
+
+      addRows("restaurant", restaurant, "Restaurant");
+      for (const category of categoriesRes.data || []) {
+        addRows("category", category, "Category");
+        for (const item of (itemsRes.data || []).filter(i => i.category_id === category.id)) {
+          addRows("item", item, "Item");
+        }
+      }
+
+      const savedValues = Object.fromEntries(
+        (translationsRes.data || []).map(t => [
+          `${translationKey(t.entity_type as TranslatableEntity, t.entity_id, t.field as TranslatableField)}:${t.locale}`,
+          t.value,
+        ])
+      );
+
+      setRows(gridRows);
+      setSaved(savedValues);
+      setDrafts(savedValues);
+    } catch (error) {
+      toast.error("Failed to load translations");
+      console.error(error);
+    }
+  };
+
+  const handleSaveLanguages = async () => {
+    const supported = Array.from(new Set([languageForm.default_locale, ...languageForm.supported_locales]));
+
+    try {
+      const { error } = await supabase
+        .from("restaurants")
+        .update({ default_locale: languageForm.default_locale, supported_locales: supported })
+        .eq("id", selectedRestaurant);
+
+      if (error) throw error;
+      toast.success("Languages updated successfully");
+      fetchData();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update languages");
+    }
+  };
+
+  const handleSaveTranslations = async () => {
+    const translationLocales = languageForm.supported_locales.filter(l => l !== languageForm.default_locale);
+    const upserts = [];
+    const deletions: { row: GridRow; locale: string }[] = [];
+
+    for (const row of rows) {
+      for (const locale of translationLocales) {
+        const key = cellKey(row, locale);
+        const value = (drafts[key] || "").trim();
+        if (value === (saved[key] || "")) continue;
+
+        if (value) {
+          upserts.push({
+            restaurant_id: selectedRestaurant,
+            entity_type: row.entityType,
+            entity_id: row.entityId,
+            field: row.field,
+            locale,
+            value,
+          });
+        } else {
+          deletions.push({ row, locale });
+        }
+      }
+    }
+
+    if (upserts.length === 0 && deletions.length === 0) {
+      toast.info("No changes to save");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (upserts.length > 0) {
+        const { error } = await supabase
+          .from("translations")
+          .upsert(upserts, { onConflict: "entity_type,entity_id,field,locale" });
+
+        if (error) throw error;
+      }
+
+      for (const { row, locale } of deletions) {
+        const { error } = await supabase
+          .from("translations")
+          .delete()
+          .eq("entity_type", row.entityType)
+          .eq("entity_id", row.entityId)
+          .eq("field", row.field)
+          .eq("locale", locale);
+
+        if (error) throw error;
+      }
+
+      toast.success("Translations saved successfully");
+      const restaurant = restaurants.find(r => r.id === selectedRestaurant);
+      if (restaurant) {
+        fetchGrid(restaurant);
+      }
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save translations");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const translationLocales = languageForm.supported_locales.filter(l => l !== languageForm.default_locale);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-3xl font-bold">Translations</h2>
+        <Select value={selectedRestaurant} onValueChange={setSelectedRestaurant}>
+          <SelectTrigger className="w-full sm:w-64">
+            <SelectValue placeholder="Select restaurant" />
+          </SelectTrigger>
+          <SelectContent>
+            {restaurants.map((restaurant) => (
+              <SelectItem key={restaurant.id} value={restaurant.id}>
+                {restaurant.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : !selectedRestaurant ? (
+        <div className="text-center py-12 text-muted-foreground">
+          Add a restaurant first to translate its menu.
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Languages className="h-5 w-5" />
+                Languages
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2 max-w-xs">
+                <Label>Default Language</Label>
+                <Select
+                  value={languageForm.default_locale}
+                  onValueChange={(value) => setLanguageForm({ ...languageForm, default_locale: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LANGUAGES.map((language) => (
+                      <SelectItem key={language.code} value={language.code}>
+                        {language.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">The language your menu text is written in.</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Additional Languages</Label>
+                <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+                  {LANGUAGES.filter(l => l.code !== languageForm.default_locale).map((language) => (
+                    <div key={language.code} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`locale-${language.code}`}
+                        checked={languageForm.supported_locales.includes(language.code)}
+                        onCheckedChange={(checked) =>
+                          setLanguageForm({
+                            ...languageForm,
+                            supported_locales: checked
+                              ? [...languageForm.supported_locales, language.code]
+                              : languageForm.supported_locales.filter(code => code !== language.code),
+                          })
+                        }
+                      />
+                      <label htmlFor={`locale-${language.code}`} className="text-sm cursor-pointer">
+                        {language.label}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <Button variant="outline" onClick={handleSaveLanguages}>
+                Save Languages
+              </Button>
+            </CardContent>
+          </Card>
+
+          {translationLocales.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              Add a second language above to start translating.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-40">Field</TableHead>
+                      <TableHead className="min-w-[200px]">{getLanguageLabel(languageForm.default_locale)} (default)</TableHead>
+                      {translationLocales.map(locale => (
+                        <TableHead key={locale} className="min-w-[220px]">{getLanguageLabel(locale)}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(row => (
+                      <TableRow key={translationKey(row.entityType, row.entityId, row.field)}>
+                        <TableCell className="text-xs text-muted-foreground align-top">{row.label}</TableCell>
+                        <TableCell className="text-sm align-top">{row.source}</TableCell>
+                        {translationLocales.map(locale => {
+                          const key = cellKey(row, locale);
+                          const onChange = (value: string) => setDrafts({ ...drafts, [key]: value });
+                          return (
+                            <TableCell key={locale} className="align-top">
+                              {row.field === "description" ? (
+                                <Textarea
+                                  value={drafts[key] || ""}
+                                  onChange={(e) => onChange(e.target.value)}
+                                  rows={2}
+                                  placeholder="Uses default language"
+                                />
+                              ) : (
+                                <Input
+                                  value={drafts[key] || ""}
+                                  onChange={(e) => onChange(e.target.value)}
+                                  placeholder="Uses default language"
+                                />
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <Button onClick={handleSaveTranslations} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Translations"}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TranslationsAdmin;
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { getAuditEntityLabel } from "@/lib/audit";
+import { fetchTrashRetentionDays, getPurgeDate } from "@/lib/trash";
+
+interface TrashEntry {
+  table_name: string;
+  id: string;
+  name: string;
+  restaurant_id: string;
+  parent_name: string | null;
+  deleted_at: string;
+  deleted_by: string | null;
+  categories: number;
+  menu_items: number;
+}
+
+const describeContents = (entry: TrashEntry) => {
+  const parts = [
+    entry.categories > 0 && `${entry.categories} ${entry.categories === 1 ? "category" : "categories"}`,
+    entry.menu_items > 0 && `${entry.menu_items} ${entry.menu_items === 1 ? "item" : "items"}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "—";
+};
+
+const TrashAdmin = () => {
+  const { access } = useAuth();
+  const isAdmin = !!access?.isAdmin;
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [retentionInput, setRetentionInput] = useState("30");
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const [trashRes, actorsRes, days] = await Promise.all([
+        supabase.rpc("list_trash"),
+        supabase.rpc("list_audit_actors"),
+        fetchTrashRetentionDays(),
+      ]);
+
+      if (trashRes.error) throw trashRes.error;
+      if (actorsRes.error) throw actorsRes.error;
+      setEntries(trashRes.data || []);
+      setActors(Object.fromEntries((actorsRes.data || []).map(a => [a.user_id, a.email])));
+      setRetentionDays(days);
+      setRetentionInput(String(days));
+    } catch (error) {
+      toast.error("Failed to load trash");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setRestoring(entry.id);
+    try {
+      const { error } = await supabase.rpc("restore_from_trash", { _table: entry.table_name, _id: entry.id });
+
+      if (error) throw error;
+      toast.success(`"${entry.name}" restored`);
+      fetchTrash();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to restore");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const handleSaveRetention = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from("app_settings")
+        .update({ trash_retention_days: Number(retentionInput) })
+        .eq("id", true);
+
+      if (error) throw error;
+      setRetentionDays(Number(retentionInput));
+      toast.success("Retention period updated");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update retention period");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold">Trash</h2>
+          <p className="text-sm text-muted-foreground">
+            Deleted restaurants, categories and items are kept for {retentionDays} days, then removed for good.
+          </p>
+        </div>
+        {isAdmin && (
+          <form onSubmit={handleSaveRetention} className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="trash-retention" className="text-xs text-muted-foreground">Keep for (days)</Label>
+              <Input
+                id="trash-retention"
+                type="number"
+                min={1}
+                max={365}
+                value={retentionInput}
+                onChange={(e) => setRetentionInput(e.target.value)}
+                className="w-24"
+                required
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={Number(retentionInput) === retentionDays}>
+              Save
+            </Button>
+          </form>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            The trash is empty.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>What</TableHead>
+                  <TableHead className="hidden md:table-cell">In</TableHead>
+                  <TableHead className="hidden md:table-cell">Also restores</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead className="hidden lg:table-cell">Removed for good</TableHead>
+                  <TableHead className="w-28" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={`${entry.table_name}-${entry.id}`}>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary">{getAuditEntityLabel(entry.table_name)}</Badge>
+                        <span className="font-medium">{entry.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">{entry.parent_name || "—"}</TableCell>
+                    <TableCell className="hidden md:table-cell text-muted-foreground">{describeContents(entry)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      <div className="whitespace-nowrap">{new Date(entry.deleted_at).toLocaleString()}</div>
+                      <div className="text-xs">{entry.deleted_by ? actors[entry.deleted_by] || "Unknown user" : "System"}</div>
+                    </TableCell>
+                    <TableCell className="hidden lg:table-cell whitespace-nowrap text-muted-foreground">
+                      {getPurgeDate(entry.deleted_at, retentionDays).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(entry)}
+                        disabled={restoring === entry.id}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default TrashAdmin;
@@ -0,0 +1,71 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, AuthContextValue, AssuranceLevels } from "@/hooks/use-auth";
+import { StaffAccess, can, clearStaffAccess, getStaffAccess } from "@/lib/staff-access";
+
+interface AuthState {
+  session: Session | null;
+  access: StaffAccess | null;
+  mfa: AssuranceLevels | null;
+}
+
+const resolveAuthState = async (session: Session | null): Promise<AuthState> => {
+  if (!session) return { session: null, access: null, mfa: null };
+
+  const [access, aalRes] = await Promise.all([
+    getStaffAccess(),
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+  ]);
+
+  if (aalRes.error) throw aalRes.error;
+  return { session, access, mfa: aalRes.data };
+};
+
+// Keeps the session, roles and MFA level of the signed-in user in one place
+const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [state, setState] = useState<AuthState>({ session: null, access: null, mfa: null });
+  const [loading, setLoading] = useState(true);
+  const latest = useRef(0);
+
+  const resolve = useCallback(async (session: Session | null) => {
+    // Token refreshes can overlap; only the newest result is kept
+    const request = ++latest.current;
+    try {
+      const next = await resolveAuthState(session);
+      if (request === latest.current) setState(next);
+    } catch (error) {
+      console.error("Error loading session:", error);
+      if (request === latest.current) setState({ session, access: null, mfa: null });
+    } finally {
+      if (request === latest.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Fires straight away with the stored session, then on every change.
+    // Supabase calls are deferred out of the callback.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setTimeout(() => resolve(session), 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [resolve]);
+
+  const refreshAccess = useCallback(async () => {
+    clearStaffAccess();
+    const { data: { session } } = await supabase.auth.getSession();
+    await resolve(session);
+  }, [resolve]);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    ...state,
+    loading,
+    can: (action, restaurantId) => can(state.access, action, restaurantId),
+    refreshAccess,
+  }), [state, loading, refreshAccess]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { toast } from "sonner";
+
+interface MfaChallengeProps {
+  // Factor to verify; defaults to the account's authenticator app
+  factorId?: string;
+  submitLabel?: string;
+  onVerified?: () => void;
+}
+
+// Asks for a TOTP code and upgrades the session to aal2 once it checks out
+const MfaChallenge = ({ factorId, submitLabel = "Verify", onVerified }: MfaChallengeProps) => {
+  const [code, setCode] = useState("");
+  const [verifying, setVerifying] = useState(false);
+
+  const handleVerify = async (value: string) => {
+    setVerifying(true);
+    try {
+      let id = factorId;
+      if (!id) {
+        const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+        if (factorsError) throw factorsError;
+        id = factors.totp[0]?.id;
+      }
+      if (!id) throw new Error("No authenticator app is set up for this account");
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: id, code: value });
+      if (error) throw error;
+
+      onVerified?.();
+    } catch (error) {
+      toast.error((error as Error).message || "That code didn't work. Try again.");
+      setCode("");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">Enter the 6-digit code from your authenticator app.</p>
+      <InputOTP
+        maxLength={6}
+        value={code}
+        onChange={setCode}
+        onComplete={handleVerify}
+        disabled={verifying}
+        autoFocus
+      >
+        <InputOTPGroup>
+          {Array.from({ length: 6 }, (_, i) => (
+            <InputOTPSlot key={i} index={i} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+      <Button onClick={() => handleVerify(code)} disabled={code.length < 6 || verifying} className="w-full">
+        {verifying ? "Verifying..." : submitLabel}
+      </Button>
+    </div>
+  );
+};
+
+export default MfaChallenge;
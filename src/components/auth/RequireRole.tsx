@@ -0,0 +1,105 @@
+import { ReactNode } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { isStaff } from "@/lib/staff-access";
+import MfaChallenge from "@/components/auth/MfaChallenge";
+
+interface RequireRoleProps {
+  // Leave out to only require a signed-in user
+  role?: "staff" | "admin";
+  children: ReactNode;
+}
+
+// Route guard: sends signed-out visitors to sign in and back again, and makes
+// staff confirm their second factor before anything else renders
+const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { session, access, mfa, loading } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const handleSignOut = async () => {
+    navigate("/");
+    await supabase.auth.signOut();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    const next = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/auth?next=${next}`} replace />;
+  }
+
+  if (!role) {
+    return <>{children}</>;
+  }
+
+  const allowed = role === "admin" ? !!access?.isAdmin : isStaff(access);
+
+  if (!allowed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-sm text-center">
+          <CardHeader>
+            <div className="flex justify-center mb-4">
+              <ShieldAlert className="h-12 w-12 text-muted-foreground" />
+            </div>
+            <CardTitle className="text-2xl">Access denied</CardTitle>
+            <CardDescription>
+              {role === "admin" ? "Admin privileges required." : "Restaurant staff access required."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Button className="w-full" onClick={() => navigate("/")}>
+              Back to restaurants
+            </Button>
+            <Button variant="ghost" className="w-full" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Admin rights only count in two-factor sessions, so admins must have an authenticator app
+  if (access?.isAdmin && mfa?.nextLevel !== "aal2") {
+    return <Navigate to="/account?setup=mfa" replace />;
+  }
+
+  if (mfa && mfa.currentLevel !== mfa.nextLevel) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-accent/5 to-background p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <ShieldCheck className="h-12 w-12 text-primary" />
+            </div>
+            <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+            <CardDescription>Confirm it's you to continue</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* The upgraded session reaches the auth provider, which lifts this screen */}
+            <MfaChallenge />
+            <Button variant="ghost" className="w-full" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Armchair, CheckCircle2, Minus, Plus, ShoppingBag, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { useCart } from "@/hooks/use-cart";
+import type { TableSession } from "@/hooks/use-table-session";
+import { formatPrice, getTaxBreakdown, type PriceSettings } from "@/lib/pricing";
+
+interface CartTheme extends PriceSettings {
+  id: string;
+  background_color: string;
+  text_color: string;
+  card_color: string;
+  card_text_color: string;
+  price_color: string;
+  theme_color: string;
+  button_color: string;
+  button_text_color: string;
+  border_color: string;
+}
+
+interface CartSheetProps {
+  restaurant: CartTheme;
+  cart: ReturnType<typeof useCart>;
+  table?: TableSession | null;
+  closedMessage?: string | null;
+}
+
+const CartSheet = ({ restaurant, cart, table, closedMessage }: CartSheetProps) => {
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [customerName, setCustomerName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [placedOrderId, setPlacedOrderId] = useState<string | null>(null);
+
+  const accentColor = restaurant.button_color || restaurant.theme_color;
+  const totals = getTaxBreakdown(cart.subtotal, restaurant);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setPlacedOrderId(null);
+    }
+  };
+
+  const handlePlaceOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (cart.lines.length === 0 || closedMessage) return;
+
+    setSubmitting(true);
+    try {
+      // The order and its items go in together, so a rejected item never
+      // leaves an empty ticket behind in the kitchen
+      const { data: orderId, error } = await supabase.rpc("place_order", {
+        _restaurant_id: restaurant.id,
+        _table_id: table?.id,
+        _customer_name: customerName.trim() || undefined,
+        _notes: notes.trim() || undefined,
+        _items: cart.lines.map(line => ({
+          menu_item_id: line.menu_item_id,
+          item_name: line.name,
+          quantity: line.quantity,
+          modifier_option_ids: (line.modifiers || []).map(m => m.id),
+        })),
+      });
+
+      if (error) throw error;
+
+      cart.clearCart();
+      setNotes("");
+      setPlacedOrderId(orderId);
+      toast.success("Order placed!");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to place order");
+      console.error("Error placing order:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (cart.itemCount === 0 && !open) {
+    return null;
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      {cart.itemCount > 0 && (
+        <div className="fixed bottom-4 sm:bottom-6 left-4 right-20 sm:right-24 lg:left-auto lg:right-6 lg:w-96 z-50 animate-slide-up">
+          <Button
+            size="lg"
+            onClick={() => setOpen(true)}
+            className="w-full h-14 sm:h-16 rounded-full shadow-2xl justify-between px-6 transition-all duration-300 hover:scale-[1.02]"
+            style={{
+              backgroundColor: accentColor,
+              color: restaurant.button_text_color,
+            }}
+          >
+            <span className="flex items-center gap-2 font-semibold">
+              <ShoppingBag className="h-5 w-5" />
+              {cart.itemCount} {cart.itemCount === 1 ? "item" : "items"}
+            </span>
+            <span className="font-bold">{formatPrice(totals.gross, restaurant)}</span>
+          </Button>
+        </div>
+      )}
+
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-md flex flex-col p-0"
+        style={{
+          backgroundColor: restaurant.background_color,
+          color: restaurant.text_color,
+          borderColor: restaurant.border_color,
+        }}
+      >
+        <SheetHeader className="p-6 pb-4 border-b" style={{ borderColor: restaurant.border_color }}>
+          <SheetTitle style={{ color: restaurant.text_color }}>Your Order</SheetTitle>
+          {table && (
+            <p className="flex items-center gap-1.5 text-sm" style={{ opacity: 0.7 }}>
+              <Armchair className="h-4 w-4" />
+              Table {table.table_number}
+            </p>
+          )}
+        </SheetHeader>
+
+        {placedOrderId ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center p-6 gap-4">
+            <CheckCircle2 className="h-16 w-16" style={{ color: accentColor }} />
+            <h3 className="text-2xl font-bold">Order placed!</h3>
+            <p style={{ opacity: 0.7 }}>
+              Your order <span className="font-mono font-semibold">#{placedOrderId.slice(0, 8).toUpperCase()}</span> has
+              been sent to the kitchen{table ? ` for table ${table.table_number}` : ""}.
+            </p>
+            <Button
+              onClick={() => handleOpenChange(false)}
+              style={{ backgroundColor: accentColor, color: restaurant.button_text_color }}
+            >
+              Back to menu
+            </Button>
+          </div>
+        ) : cart.lines.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center p-6 gap-2">
+            <ShoppingBag className="h-12 w-12" style={{ opacity: 0.4 }} />
+            <p style={{ opacity: 0.7 }}>Your cart is empty</p>
+          </div>
+        ) : (
+          <form onSubmit={handlePlaceOrder} className="flex-1 flex flex-col min-h-0">
+            <ScrollArea className="flex-1">
+              <div className="p-6 space-y-3">
+                {cart.lines.map(line => (
+                  <div
+                    key={line.key}
+                    className="rounded-lg border p-3 space-y-2"
+                    style={{ backgroundColor: restaurant.card_color, borderColor: restaurant.border_color, color: restaurant.card_text_color }}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <span className="font-medium leading-tight">{line.name}</span>
+                        {line.modifiers && line.modifiers.length > 0 && (
+                          <p className="text-xs mt-0.5" style={{ opacity: 0.7 }}>
+                            {line.modifiers.map(m => m.name).join(", ")}
+                          </p>
+                        )}
+                      </div>
+                      <span className="font-semibold whitespace-nowrap" style={{ color: restaurant.price_color || restaurant.theme_color }}>
+                        {formatPrice(line.unit_price * line.quantity, restaurant)}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => cart.updateQuantity(line.key, line.quantity - 1)}
+                          style={{ borderColor: restaurant.border_color, backgroundColor: "transparent", color: restaurant.card_text_color }}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <span className="w-6 text-center font-semibold">{line.quantity}</span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => cart.updateQuantity(line.key, line.quantity + 1)}
+                          style={{ borderColor: restaurant.border_color, backgroundColor: "transparent", color: restaurant.card_text_color }}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cart.removeLine(line.key)}
+                        style={{ color: restaurant.card_text_color, opacity: 0.7 }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+
+                <div className="space-y-2 pt-2">
+                  <Label htmlFor="customer_name" style={{ color: restaurant.text_color }}>Your name</Label>
+                  <Input
+                    id="customer_name"
+                    value={customerName}
+                    onChange={(e) => setCustomerName(e.target.value)}
+                    placeholder="Optional"
+                    style={{ backgroundColor: `${restaurant.card_color}80`, borderColor: restaurant.border_color, color: restaurant.text_color }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="order_notes" style={{ color: restaurant.text_color }}>Notes for the kitchen</Label>
+                  <Textarea
+                    id="order_notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Allergies, preferences..."
+                    rows={2}
+                    style={{ backgroundColor: `${restaurant.card_color}80`, borderColor: restaurant.border_color, color: restaurant.text_color }}
+                  />
+                </div>
+              </div>
+            </ScrollArea>
+
+            <div className="p-6 border-t space-y-4" style={{ borderColor: restaurant.border_color }}>
+              <div className="space-y-1">
+                {restaurant.tax_rate > 0 && !restaurant.prices_include_tax && (
+                  <>
+                    <div className="flex items-center justify-between text-sm" style={{ opacity: 0.8 }}>
+                      <span>Subtotal</span>
+                      <span>{formatPrice(totals.net, restaurant)}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm" style={{ opacity: 0.8 }}>
+                      <span>Tax ({restaurant.tax_rate}%)</span>
+                      <span>{formatPrice(totals.tax, restaurant)}</span>
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center justify-between text-lg font-bold">
+                  <span>Total</span>
+                  <span style={{ color: restaurant.price_color || restaurant.theme_color }}>{formatPrice(totals.gross, restaurant)}</span>
+                </div>
+                {restaurant.tax_rate > 0 && restaurant.prices_include_tax && (
+                  <p className="text-xs text-right" style={{ opacity: 0.7 }}>
+                    Includes {formatPrice(totals.tax, restaurant)} tax ({restaurant.tax_rate}%)
+                  </p>
+                )}
+              </div>
+              {closedMessage && (
+                <p className="text-sm text-center" style={{ opacity: 0.8 }}>{closedMessage}</p>
+              )}
+              <Button
+                type="submit"
+                size="lg"
+                className="w-full font-semibold"
+                disabled={submitting || !!closedMessage}
+                style={{ backgroundColor: accentColor, color: restaurant.button_text_color }}
+              >
+                {submitting ? "Placing order..." : "Place Order"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CartSheet;
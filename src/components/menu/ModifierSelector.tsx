@@ -0,0 +1,89 @@
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
+import { describeGroupRule, minSelections, type ModifierGroup, type ModifierSelection } from "@/lib/modifiers";
+import { formatPriceDelta, type PriceSettings } from "@/lib/pricing";
+
+interface ModifierSelectorProps {
+  groups: ModifierGroup[];
+  selection: ModifierSelection;
+  onChange: (selection: ModifierSelection) => void;
+  priceSettings: PriceSettings;
+}
+
+const ModifierSelector = ({ groups, selection, onChange, priceSettings }: ModifierSelectorProps) => {
+  const toggleOption = (group: ModifierGroup, optionId: string, checked: boolean) => {
+    const current = selection[group.id] || [];
+    // With a single pick allowed, ticking another option swaps it in
+    const next = checked
+      ? group.max_select === 1 ? [optionId] : [...current, optionId]
+      : current.filter(id => id !== optionId);
+    if (next.length > group.max_select) return;
+    onChange({ ...selection, [group.id]: next });
+  };
+
+  return (
+    <div className="space-y-5">
+      {groups.map(group => {
+        const selected = selection[group.id] || [];
+        // Radios can't be cleared, so optional single-choice groups use checkboxes
+        const isSingle = group.max_select === 1 && minSelections(group) >= 1;
+
+        return (
+          <div key={group.id} className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="font-semibold">{group.name}</h3>
+              <Badge variant={minSelections(group) > 0 ? "default" : "secondary"} className="text-xs">
+                {describeGroupRule(group)}
+              </Badge>
+            </div>
+
+            {isSingle ? (
+              <RadioGroup
+                value={selected[0] || ""}
+                onValueChange={(value) => onChange({ ...selection, [group.id]: [value] })}
+              >
+                {group.modifier_options.map(option => (
+                  <div key={option.id} className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value={option.id} id={`option-${option.id}`} />
+                      <Label htmlFor={`option-${option.id}`} className="cursor-pointer font-normal">
+                        {option.name}
+                      </Label>
+                    </div>
+                    <span className="text-sm text-muted-foreground">{formatPriceDelta(option.price_delta, priceSettings)}</span>
+                  </div>
+                ))}
+              </RadioGroup>
+            ) : (
+              <div className="grid gap-2">
+                {group.modifier_options.map(option => {
+                  const checked = selected.includes(option.id);
+                  return (
+                    <div key={option.id} className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`option-${option.id}`}
+                          checked={checked}
+                          disabled={!checked && group.max_select > 1 && selected.length >= group.max_select}
+                          onCheckedChange={(value) => toggleOption(group, option.id, value as boolean)}
+                        />
+                        <Label htmlFor={`option-${option.id}`} className="cursor-pointer font-normal">
+                          {option.name}
+                        </Label>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{formatPriceDelta(option.price_delta, priceSettings)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ModifierSelector;
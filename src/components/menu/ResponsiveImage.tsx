@@ -0,0 +1,54 @@
+import { useMemo, useState } from "react";
+import type { Json } from "@/integrations/supabase/types";
+import { getBlurhashDataUrl, getImageMeta, getObjectPosition, getSrcSet } from "@/lib/images";
+
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src" | "srcSet"> {
+  src: string;
+  meta?: Json | null;
+  sizes: string;
+}
+
+// Serves processed uploads as a srcset in the best format the browser takes,
+// with the blurhash showing until the image arrives and object-position set to
+// the stored focal point. Plain URLs render as-is.
+const ResponsiveImage = ({ src, meta, sizes, style, onLoad, ...props }: ResponsiveImageProps) => {
+  const image = getImageMeta(src, meta);
+  const blurhash = image?.blurhash;
+  const placeholder = useMemo(() => (blurhash ? getBlurhashDataUrl(blurhash) : undefined), [blurhash]);
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+
+  if (!image) {
+    return <img src={src} style={style} onLoad={onLoad} {...props} />;
+  }
+
+  const fallback = image.formats[image.formats.length - 1];
+  const focusedStyle = { objectPosition: getObjectPosition(image), ...style };
+
+  return (
+    <picture className="contents">
+      {image.formats.slice(0, -1).map((format) => (
+        <source key={format} type={`image/${format}`} srcSet={getSrcSet(image, format)} sizes={sizes} />
+      ))}
+      <img
+        src={src}
+        srcSet={getSrcSet(image, fallback)}
+        sizes={sizes}
+        width={image.width}
+        height={image.height}
+        decoding="async"
+        onLoad={(e) => {
+          setLoadedSrc(src);
+          onLoad?.(e);
+        }}
+        style={
+          loadedSrc === src || !placeholder
+            ? focusedStyle
+            : { ...focusedStyle, backgroundImage: `url(${placeholder})`, backgroundSize: "cover", backgroundPosition: focusedStyle.objectPosition ?? "center" }
+        }
+        {...props}
+      />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
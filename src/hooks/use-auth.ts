@@ -0,0 +1,32 @@
+import { createContext, useContext } from "react";
+import type { AuthMFAGetAuthenticatorAssuranceLevelResponse, Session } from "@supabase/supabase-js";
+import type { StaffAccess, StaffAction } from "@/lib/staff-access";
+
+export type AssuranceLevels = NonNullable<AuthMFAGetAuthenticatorAssuranceLevelResponse["data"]>;
+
+export interface AuthContextValue {
+  session: Session | null;
+  // Roles of the signed-in user; null when signed out
+  access: StaffAccess | null;
+  // Current and required MFA levels of the session
+  mfa: AssuranceLevels | null;
+  // True until the first session has been resolved
+  loading: boolean;
+  can: (action: StaffAction, restaurantId?: string) => boolean;
+  // Reload roles after they change, e.g. once an invite has been accepted
+  refreshAccess: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
+
+// Only same-site paths are followed after sign-in
+export const safeNextPath = (next: string | null) =>
+  next && next.startsWith("/") && !next.startsWith("//") ? next : null;
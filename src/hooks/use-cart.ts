@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+export interface CartModifier {
+  id: string;
+  name: string;
+  price_delta: number;
+}
+
+export interface CartLine {
+  key: string;
+  menu_item_id: string;
+  name: string;
+  unit_price: number;
+  quantity: number;
+  modifiers?: CartModifier[];
+}
+
+// The same dish with different options is a separate line
+const lineKey = (line: Omit<CartLine, "key">) =>
+  [line.menu_item_id, ...(line.modifiers || []).map(m => m.id).sort()].join(":");
+
+const storageKey = (slug: string) => `cart:${slug}`;
+
+const readCart = (slug: string): CartLine[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(slug));
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Per-restaurant cart, persisted in localStorage under the restaurant slug
+export function useCart(slug: string | undefined) {
+  const [cart, setCart] = useState(() => ({ slug, lines: slug ? readCart(slug) : [] }));
+
+  // Switching restaurants loads that restaurant's saved cart
+  if (cart.slug !== slug) {
+    setCart({ slug, lines: slug ? readCart(slug) : [] });
+  }
+
+  const lines = cart.lines;
+  const setLines = useCallback((update: (current: CartLine[]) => CartLine[]) => {
+    setCart(c => ({ ...c, lines: update(c.lines) }));
+  }, []);
+
+  useEffect(() => {
+    if (!cart.slug) return;
+    if (cart.lines.length === 0) {
+      localStorage.removeItem(storageKey(cart.slug));
+    } else {
+      localStorage.setItem(storageKey(cart.slug), JSON.stringify(cart.lines));
+    }
+  }, [cart]);
+
+  const addItem = useCallback((line: Omit<CartLine, "key">) => {
+    const key = lineKey(line);
+    setLines(current => {
+      const existing = current.find(l => l.key === key);
+      if (existing) {
+        return current.map(l => (l.key === key ? { ...l, quantity: l.quantity + line.quantity } : l));
+      }
+      return [...current, { ...line, key }];
+    });
+  }, [setLines]);
+
+  const updateQuantity = useCallback((key: string, quantity: number) => {
+    setLines(current =>
+      quantity <= 0
+        ? current.filter(l => l.key !== key)
+        : current.map(l => (l.key === key ? { ...l, quantity } : l))
+    );
+  }, [setLines]);
+
+  const removeLine = useCallback((key: string) => {
+    setLines(current => current.filter(l => l.key !== key));
+  }, [setLines]);
+
+  const clearCart = useCallback(() => setLines(() => []), [setLines]);
+
+  const itemCount = useMemo(() => lines.reduce((sum, l) => sum + l.quantity, 0), [lines]);
+  const subtotal = useMemo(() => lines.reduce((sum, l) => sum + l.unit_price * l.quantity, 0), [lines]);
+
+  return { lines, itemCount, subtotal, addItem, updateQuantity, removeLine, clearCart };
+}
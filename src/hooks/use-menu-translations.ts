@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { translationKey, type TranslatableEntity, type TranslatableField } from "@/lib/translations";
+
+interface LocaleSettings {
+  id: string;
+  default_locale: string;
+  supported_locales: string[];
+}
+
+const storageKey = (slug: string) => `locale:${slug}`;
+
+// Diner's language choice for a restaurant, remembered per slug. Missing
+// translations fall back to the restaurant's default-language text.
+export function useMenuTranslations(slug: string | undefined, restaurant: LocaleSettings | null) {
+  const [locale, setLocaleState] = useState<string | null>(null);
+  const [translations, setTranslations] = useState<Record<string, string>>({});
+
+  const activeLocale = restaurant
+    ? (locale && restaurant.supported_locales.includes(locale) ? locale : restaurant.default_locale)
+    : null;
+
+  useEffect(() => {
+    if (slug) {
+      setLocaleState(localStorage.getItem(storageKey(slug)));
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    if (!restaurant || !activeLocale || activeLocale === restaurant.default_locale) {
+      setTranslations({});
+      return;
+    }
+
+    const fetchTranslations = async () => {
+      const { data, error } = await supabase
+        .from("translations")
+        .select("entity_type, entity_id, field, value")
+        .eq("restaurant_id", restaurant.id)
+        .eq("locale", activeLocale);
+
+      if (error) {
+        console.error("Error fetching translations:", error);
+        return;
+      }
+
+      setTranslations(Object.fromEntries(
+        (data || []).map(t => [
+          translationKey(t.entity_type as TranslatableEntity, t.entity_id, t.field as TranslatableField),
+          t.value,
+        ])
+      ));
+    };
+
+    fetchTranslations();
+  }, [restaurant, activeLocale]);
+
+  const setLocale = useCallback((value: string) => {
+    if (slug) {
+      localStorage.setItem(storageKey(slug), value);
+    }
+    setLocaleState(value);
+  }, [slug]);
+
+  const translate = useCallback(
+    (entityType: TranslatableEntity, entityId: string, field: TranslatableField, fallback: string | null) =>
+      translations[translationKey(entityType, entityId, field)] ?? fallback,
+    [translations]
+  );
+
+  return { locale: activeLocale, setLocale, translate };
+}
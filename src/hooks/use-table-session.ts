@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TableSession {
+  id: string;
+  table_number: string;
+  code: string;
+}
+
+const storageKey = (slug: string) => `table:${slug}`;
+
+const readSession = (slug: string): TableSession | null => {
+  try {
+    const raw = sessionStorage.getItem(storageKey(slug));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+// A freshly scanned code only trusts the stored table if it is the same one,
+// so service requests never go to the previously scanned table
+const readSessionFor = (slug: string, tableCode: string | undefined) => {
+  const session = readSession(slug);
+  return !tableCode || session?.code === tableCode ? session : null;
+};
+
+// Binds the browser session to the table whose QR code was scanned, so the
+// diner keeps their table while navigating around the restaurant's menu.
+export function useTableSession(slug: string | undefined, tableCode: string | undefined, restaurantId: string | undefined) {
+  const [table, setTable] = useState<TableSession | null>(() => (slug ? readSessionFor(slug, tableCode) : null));
+
+  useEffect(() => {
+    if (!slug || !restaurantId) return;
+
+    if (!tableCode) {
+      setTable(readSession(slug));
+      return;
+    }
+
+    setTable(readSessionFor(slug, tableCode));
+
+    const resolveTable = async () => {
+      const { data, error } = await supabase
+        .from("restaurant_tables")
+        .select("id, table_number, code")
+        .eq("restaurant_id", restaurantId)
+        .eq("code", tableCode)
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (error || !data) {
+        console.error("Error resolving table:", error);
+        sessionStorage.removeItem(storageKey(slug));
+        setTable(null);
+        return;
+      }
+
+      sessionStorage.setItem(storageKey(slug), JSON.stringify(data));
+      setTable(data);
+    };
+
+    resolveTable();
+  }, [slug, tableCode, restaurantId]);
+
+  return table;
+}
@@ -14,9 +14,131 @@ export type Database = {
   }
   public: {
     Tables: {
+      allergens: {
+        Row: {
+          display_order: number | null
+          id: string
+          name: string
+        }
+        Insert: {
+          display_order?: number | null
+          id: string
+          name: string
+        }
+        Update: {
+          display_order?: number | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      app_settings: {
+        Row: {
+          id: boolean
+          trash_retention_days: number
+          updated_at: string | null
+        }
+        Insert: {
+          id?: boolean
+          trash_retention_days?: number
+          updated_at?: string | null
+        }
+        Update: {
+          id?: boolean
+          trash_retention_days?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string | null
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          restaurant_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          restaurant_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          restaurant_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      availability_windows: {
+        Row: {
+          category_id: string | null
+          created_at: string | null
+          days: number[]
+          ends_at: string
+          id: string
+          menu_item_id: string | null
+          starts_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string | null
+          days?: number[]
+          ends_at: string
+          id?: string
+          menu_item_id?: string | null
+          starts_at: string
+          updated_at?: string | null
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string | null
+          days?: number[]
+          ends_at?: string
+          id?: string
+          menu_item_id?: string | null
+          starts_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "availability_windows_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "availability_windows_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_categories: {
         Row: {
           created_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           display_order: number | null
           id: string
@@ -27,6 +149,8 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           display_order?: number | null
           id?: string
@@ -37,6 +161,8 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           display_order?: number | null
           id?: string
@@ -55,13 +181,49 @@ export type Database = {
           },
         ]
       }
+      menu_item_allergens: {
+        Row: {
+          allergen_id: string
+          created_at: string | null
+          menu_item_id: string
+        }
+        Insert: {
+          allergen_id: string
+          created_at?: string | null
+          menu_item_id: string
+        }
+        Update: {
+          allergen_id?: string
+          created_at?: string | null
+          menu_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_allergens_allergen_id_fkey"
+            columns: ["allergen_id"]
+            isOneToOne: false
+            referencedRelation: "allergens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_allergens_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_items: {
         Row: {
           category_id: string
           created_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           display_order: number | null
           id: string
+          image_meta: Json | null
           image_url: string | null
           is_available: boolean | null
           is_spicy: boolean | null
@@ -74,9 +236,12 @@ export type Database = {
         Insert: {
           category_id: string
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           display_order?: number | null
           id?: string
+          image_meta?: Json | null
           image_url?: string | null
           is_available?: boolean | null
           is_spicy?: boolean | null
@@ -87,26 +252,395 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
-          category_id?: string
+          category_id?: string
+          created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          display_order?: number | null
+          id?: string
+          image_meta?: Json | null
+          image_url?: string | null
+          is_available?: boolean | null
+          is_spicy?: boolean | null
+          is_vegan?: boolean | null
+          is_vegetarian?: boolean | null
+          name?: string
+          price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_versions: {
+        Row: {
+          id: string
+          note: string | null
+          published_at: string
+          published_by: string | null
+          restaurant_id: string
+          restored_from: number | null
+          snapshot: Json
+          version: number
+        }
+        Insert: {
+          id?: string
+          note?: string | null
+          published_at?: string
+          published_by?: string | null
+          restaurant_id: string
+          restored_from?: number | null
+          snapshot: Json
+          version: number
+        }
+        Update: {
+          id?: string
+          note?: string | null
+          published_at?: string
+          published_by?: string | null
+          restaurant_id?: string
+          restored_from?: number | null
+          snapshot?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_versions_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_groups: {
+        Row: {
+          created_at: string | null
+          display_order: number | null
+          id: string
+          is_required: boolean
+          max_select: number
+          menu_item_id: string
+          min_select: number
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          display_order?: number | null
+          id?: string
+          is_required?: boolean
+          max_select?: number
+          menu_item_id: string
+          min_select?: number
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          display_order?: number | null
+          id?: string
+          is_required?: boolean
+          max_select?: number
+          menu_item_id?: string
+          min_select?: number
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_options: {
+        Row: {
+          created_at: string | null
+          display_order: number | null
+          group_id: string
+          id: string
+          is_available: boolean | null
+          name: string
+          price_delta: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          display_order?: number | null
+          group_id: string
+          id?: string
+          is_available?: boolean | null
+          name: string
+          price_delta?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          display_order?: number | null
+          group_id?: string
+          id?: string
+          is_available?: boolean | null
+          name?: string
+          price_delta?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opening_hour_overrides: {
+        Row: {
+          closes_at: string | null
+          created_at: string | null
+          date: string
+          id: string
+          is_closed: boolean
+          note: string | null
+          opens_at: string | null
+          restaurant_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          closes_at?: string | null
+          created_at?: string | null
+          date: string
+          id?: string
+          is_closed?: boolean
+          note?: string | null
+          opens_at?: string | null
+          restaurant_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          closes_at?: string | null
+          created_at?: string | null
+          date?: string
+          id?: string
+          is_closed?: boolean
+          note?: string | null
+          opens_at?: string | null
+          restaurant_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opening_hour_overrides_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opening_hours: {
+        Row: {
+          closes_at: string
+          created_at: string | null
+          day_of_week: number
+          id: string
+          opens_at: string
+          restaurant_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          closes_at: string
+          created_at?: string | null
+          day_of_week: number
+          id?: string
+          opens_at: string
+          restaurant_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          closes_at?: string
+          created_at?: string | null
+          day_of_week?: number
+          id?: string
+          opens_at?: string
+          restaurant_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opening_hours_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          item_name: string
+          menu_item_id: string | null
+          modifier_option_ids: string[]
+          modifiers: Json
+          notes: string | null
+          order_id: string
+          quantity: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          item_name: string
+          menu_item_id?: string | null
+          modifier_option_ids?: string[]
+          modifiers?: Json
+          notes?: string | null
+          order_id: string
+          quantity: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          item_name?: string
+          menu_item_id?: string | null
+          modifier_option_ids?: string[]
+          modifiers?: Json
+          notes?: string | null
+          order_id?: string
+          quantity?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          created_at: string | null
+          currency_code: string
+          customer_name: string | null
+          id: string
+          notes: string | null
+          restaurant_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          table_id: string | null
+          table_number: string | null
+          tax_amount: number
+          total: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          currency_code?: string
+          customer_name?: string | null
+          id?: string
+          notes?: string | null
+          restaurant_id: string
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal?: number
+          table_id?: string | null
+          table_number?: string | null
+          tax_amount?: number
+          total?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          currency_code?: string
+          customer_name?: string | null
+          id?: string
+          notes?: string | null
+          restaurant_id?: string
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal?: number
+          table_id?: string | null
+          table_number?: string | null
+          tax_amount?: number
+          total?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurant_tables: {
+        Row: {
+          code: string
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          restaurant_id: string
+          seats: number | null
+          table_number: string
+          updated_at: string | null
+        }
+        Insert: {
+          code?: string
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          restaurant_id: string
+          seats?: number | null
+          table_number: string
+          updated_at?: string | null
+        }
+        Update: {
+          code?: string
           created_at?: string | null
-          description?: string | null
-          display_order?: number | null
           id?: string
-          image_url?: string | null
-          is_available?: boolean | null
-          is_spicy?: boolean | null
-          is_vegan?: boolean | null
-          is_vegetarian?: boolean | null
-          name?: string
-          price?: number
+          is_active?: boolean | null
+          restaurant_id?: string
+          seats?: number | null
+          table_number?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "menu_items_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "restaurant_tables_restaurant_id_fkey"
+            columns: ["restaurant_id"]
             isOneToOne: false
-            referencedRelation: "menu_categories"
+            referencedRelation: "restaurants"
             referencedColumns: ["id"]
           },
         ]
@@ -116,6 +650,7 @@ export type Database = {
           address: string | null
           background_color: string | null
           banner_image_url: string | null
+          banner_meta: Json | null
           border_color: string | null
           button_color: string | null
           button_text_color: string | null
@@ -125,24 +660,36 @@ export type Database = {
           contact_email: string | null
           contact_phone: string | null
           created_at: string | null
+          currency_code: string
+          default_locale: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           font_family: string | null
           header_gradient_end: string | null
           header_gradient_start: string | null
           id: string
           is_active: boolean | null
+          locale: string
+          logo_meta: Json | null
           logo_url: string | null
           name: string
           price_color: string | null
+          prices_include_tax: boolean
+          show_net_and_gross: boolean
           slug: string
+          supported_locales: string[]
+          tax_rate: number
           text_color: string | null
           theme_color: string | null
+          timezone: string
           updated_at: string | null
         }
         Insert: {
           address?: string | null
           background_color?: string | null
           banner_image_url?: string | null
+          banner_meta?: Json | null
           border_color?: string | null
           button_color?: string | null
           button_text_color?: string | null
@@ -152,24 +699,36 @@ export type Database = {
           contact_email?: string | null
           contact_phone?: string | null
           created_at?: string | null
+          currency_code?: string
+          default_locale?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           font_family?: string | null
           header_gradient_end?: string | null
           header_gradient_start?: string | null
           id?: string
           is_active?: boolean | null
+          locale?: string
+          logo_meta?: Json | null
           logo_url?: string | null
           name: string
           price_color?: string | null
+          prices_include_tax?: boolean
+          show_net_and_gross?: boolean
           slug: string
+          supported_locales?: string[]
+          tax_rate?: number
           text_color?: string | null
           theme_color?: string | null
+          timezone?: string
           updated_at?: string | null
         }
         Update: {
           address?: string | null
           background_color?: string | null
           banner_image_url?: string | null
+          banner_meta?: Json | null
           border_color?: string | null
           button_color?: string | null
           button_text_color?: string | null
@@ -179,22 +738,223 @@ export type Database = {
           contact_email?: string | null
           contact_phone?: string | null
           created_at?: string | null
+          currency_code?: string
+          default_locale?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           font_family?: string | null
           header_gradient_end?: string | null
           header_gradient_start?: string | null
           id?: string
           is_active?: boolean | null
+          locale?: string
+          logo_meta?: Json | null
           logo_url?: string | null
           name?: string
           price_color?: string | null
+          prices_include_tax?: boolean
+          show_net_and_gross?: boolean
           slug?: string
+          supported_locales?: string[]
+          tax_rate?: number
           text_color?: string | null
           theme_color?: string | null
+          timezone?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      service_requests: {
+        Row: {
+          created_at: string | null
+          id: string
+          request_type: Database["public"]["Enums"]["service_request_type"]
+          resolved_at: string | null
+          restaurant_id: string
+          table_id: string
+          table_number: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          request_type?: Database["public"]["Enums"]["service_request_type"]
+          resolved_at?: string | null
+          restaurant_id: string
+          table_id: string
+          table_number?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          request_type?: Database["public"]["Enums"]["service_request_type"]
+          resolved_at?: string | null
+          restaurant_id?: string
+          table_id?: string
+          table_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_requests_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_requests_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      signup_domains: {
+        Row: {
+          created_at: string | null
+          domain: string
+        }
+        Insert: {
+          created_at?: string | null
+          domain: string
+        }
+        Update: {
+          created_at?: string | null
+          domain?: string
+        }
+        Relationships: []
+      }
+      sold_out_items: {
+        Row: {
+          marked_by: string | null
+          menu_item_id: string
+          restaurant_id: string
+          until: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          marked_by?: string | null
+          menu_item_id: string
+          restaurant_id: string
+          until?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          marked_by?: string | null
+          menu_item_id?: string
+          restaurant_id?: string
+          until?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sold_out_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: true
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sold_out_items_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_invites: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string | null
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          restaurant_id: string | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string | null
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          restaurant_id?: string | null
+          revoked_at?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          restaurant_id?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_invites_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      translations: {
+        Row: {
+          created_at: string | null
+          entity_id: string
+          entity_type: string
+          field: string
+          id: string
+          locale: string
+          restaurant_id: string
+          updated_at: string | null
+          value: string
+        }
+        Insert: {
+          created_at?: string | null
+          entity_id: string
+          entity_type: string
+          field: string
+          id?: string
+          locale: string
+          restaurant_id: string
+          updated_at?: string | null
+          value: string
+        }
+        Update: {
+          created_at?: string | null
+          entity_id?: string
+          entity_type?: string
+          field?: string
+          id?: string
+          locale?: string
+          restaurant_id?: string
+          updated_at?: string | null
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "translations_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -232,6 +992,73 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_manage_restaurant: {
+        Args: {
+          _restaurant_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      category_restaurant_id: {
+        Args: {
+          _category_id: string
+        }
+        Returns: string
+      }
+      create_menu_preview_token: {
+        Args: {
+          _restaurant_id: string
+        }
+        Returns: string
+      }
+      create_staff_invite: {
+        Args: {
+          _email: string
+          _restaurant_id?: string
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: string
+      }
+      discard_menu_draft: {
+        Args: {
+          _restaurant_id: string
+        }
+        Returns: undefined
+      }
+      get_menu_draft: {
+        Args: {
+          _restaurant_id: string
+        }
+        Returns: Json
+      }
+      get_menu_preview: {
+        Args: {
+          _restaurant_id: string
+          _token: string
+        }
+        Returns: Json
+      }
+      get_service_intervals: {
+        Args: {
+          _date: string
+          _restaurant_id: string
+        }
+        Returns: {
+          closes_at: string
+          opens_at: string
+        }[]
+      }
+      get_staff_invite: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          email: string
+          expires_at: string
+          restaurant_name: string
+          role: Database["public"]["Enums"]["app_role"]
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -239,9 +1066,204 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_menu_items: {
+        Args: {
+          _categories?: Json
+          _items: Json
+          _restaurant_id: string
+          _theme?: Json
+        }
+        Returns: undefined
+      }
+      is_menu_item_available: {
+        Args: {
+          _at?: string
+          _menu_item_id: string
+        }
+        Returns: boolean
+      }
+      is_mfa_verified: {
+        Args: never
+        Returns: boolean
+      }
+      is_restaurant_manager: {
+        Args: {
+          _restaurant_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_restaurant_open: {
+        Args: {
+          _at?: string
+          _restaurant_id: string
+        }
+        Returns: boolean
+      }
+      is_restaurant_staff: {
+        Args: {
+          _restaurant_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_sold_out: {
+        Args: {
+          _at?: string
+          _menu_item_id: string
+        }
+        Returns: boolean
+      }
+      is_within_windows: {
+        Args: {
+          _local: string
+          _windows: Json
+        }
+        Returns: boolean
+      }
+      list_audit_actors: {
+        Args: never
+        Returns: {
+          email: string
+          user_id: string
+        }[]
+      }
+      list_media: {
+        Args: never
+        Returns: {
+          asset: string
+          created_at: string
+          meta: Json
+          path: string
+          paths: string[]
+          refs: Json
+          restaurant_id: string
+          restaurant_name: string
+          size: number
+        }[]
+      }
+      list_staff_members: {
+        Args: never
+        Returns: {
+          created_at: string
+          email: string
+          restaurant_id: string
+          role: Database["public"]["Enums"]["app_role"]
+          role_id: string
+          user_id: string
+        }[]
+      }
+      list_trash: {
+        Args: never
+        Returns: {
+          categories: number
+          deleted_at: string
+          deleted_by: string
+          id: string
+          menu_items: number
+          name: string
+          parent_name: string
+          restaurant_id: string
+          table_name: string
+        }[]
+      }
+      media_asset_key: {
+        Args: {
+          _path: string
+        }
+        Returns: string
+      }
+      media_object_path: {
+        Args: {
+          _url: string
+        }
+        Returns: string
+      }
+      menu_item_restaurant_id: {
+        Args: {
+          _menu_item_id: string
+        }
+        Returns: string
+      }
+      move_to_trash: {
+        Args: {
+          _id: string
+          _table: string
+        }
+        Returns: undefined
+      }
+      order_accepts_items: {
+        Args: {
+          _order_id: string
+        }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          _customer_name?: string
+          _items: Json
+          _notes?: string
+          _restaurant_id: string
+          _table_id?: string
+        }
+        Returns: string
+      }
+      publish_menu: {
+        Args: {
+          _note?: string
+          _restaurant_id: string
+        }
+        Returns: number
+      }
+      published_menu: {
+        Args: {
+          _restaurant_id: string
+        }
+        Returns: Json
+      }
+      published_menu_version_id: {
+        Args: {
+          _restaurant_id: string
+        }
+        Returns: string
+      }
+      redeem_staff_invite: {
+        Args: {
+          _token: string
+        }
+        Returns: undefined
+      }
+      reorder_menu: {
+        Args: {
+          _layout: Json
+          _restaurant_id: string
+        }
+        Returns: undefined
+      }
+      restore_from_trash: {
+        Args: {
+          _id: string
+          _table: string
+        }
+        Returns: undefined
+      }
+      rollback_menu: {
+        Args: {
+          _version_id: string
+        }
+        Returns: number
+      }
+      storage_object_restaurant_id: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "admin" | "manager" | "user"
+      app_role: "admin" | "manager" | "user" | "floor"
+      order_status: "new" | "preparing" | "ready" | "served" | "cancelled"
+      service_request_type: "call_waiter" | "bill" | "water"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -369,7 +1391,9 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "manager", "user"],
+      app_role: ["admin", "manager", "user", "floor"],
+      order_status: ["new", "preparing", "ready", "served", "cancelled"],
+      service_request_type: ["call_waiter", "bill", "water"],
     },
   },
 } as const
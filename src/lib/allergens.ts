@@ -0,0 +1,21 @@
+import { Bean, CircleDot, Droplet, Egg, Fish, Flower, Leaf, Milk, Nut, Shell, Snail, Sprout, Wheat, Wine, type LucideIcon } from "lucide-react";
+
+// Mirrors the rows seeded into the `allergens` table
+export const ALLERGENS: { id: string; label: string; icon: LucideIcon }[] = [
+  { id: "gluten", label: "Gluten", icon: Wheat },
+  { id: "crustaceans", label: "Crustaceans", icon: Shell },
+  { id: "eggs", label: "Eggs", icon: Egg },
+  { id: "fish", label: "Fish", icon: Fish },
+  { id: "peanuts", label: "Peanuts", icon: Bean },
+  { id: "soybeans", label: "Soy", icon: Sprout },
+  { id: "milk", label: "Milk", icon: Milk },
+  { id: "nuts", label: "Tree nuts", icon: Nut },
+  { id: "celery", label: "Celery", icon: Leaf },
+  { id: "mustard", label: "Mustard", icon: Droplet },
+  { id: "sesame", label: "Sesame", icon: CircleDot },
+  { id: "sulphites", label: "Sulphites", icon: Wine },
+  { id: "lupin", label: "Lupin", icon: Flower },
+  { id: "molluscs", label: "Molluscs", icon: Snail },
+];
+
+export const getAllergen = (id: string) => ALLERGENS.find(a => a.id === id);
@@ -0,0 +1,66 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Tables with audit triggers, as stored in `audit_log.table_name`
+export const AUDIT_ENTITIES: { table: string; label: string }[] = [
+  { table: "restaurants", label: "Restaurant" },
+  { table: "menu_categories", label: "Category" },
+  { table: "menu_items", label: "Menu item" },
+  { table: "user_roles", label: "Staff role" },
+];
+
+export const getAuditEntityLabel = (table: string) =>
+  AUDIT_ENTITIES.find(e => e.table === table)?.label ?? table;
+
+export interface AuditFieldChange {
+  field: string;
+  before: Json | undefined;
+  after: Json | undefined;
+}
+
+// Bookkeeping columns that change on every save, or repeat the actor or image URL
+const IGNORED_FIELDS = ["id", "created_at", "updated_at", "deleted_by", "image_meta", "logo_meta", "banner_meta"];
+
+const asRecord = (data: Json | null): Record<string, Json> =>
+  data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, Json>) : {};
+
+// Fields that differ between the before and after snapshots. Inserts and
+// deletes list every field that has a value.
+export const diffAuditEntry = (oldData: Json | null, newData: Json | null): AuditFieldChange[] => {
+  const before = asRecord(oldData);
+  const after = asRecord(newData);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .sort();
+
+  return fields
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+// Soft deletes are stored as updates; this tells them apart for display
+export const getAuditAction = (action: string, oldData: Json | null, newData: Json | null) => {
+  if (action !== "update") return action;
+  const wasTrashed = !!asRecord(oldData).deleted_at;
+  const isTrashed = !!asRecord(newData).deleted_at;
+  if (!wasTrashed && isTrashed) return "trash";
+  if (wasTrashed && !isTrashed) return "restore";
+  return action;
+};
+
+// Short name for the changed record, e.g. the dish name
+export const describeAuditRecord = (oldData: Json | null, newData: Json | null) => {
+  const record = { ...asRecord(oldData), ...asRecord(newData) };
+  if (typeof record.name === "string") return record.name;
+  if (typeof record.role === "string") return record.role;
+  return null;
+};
+
+export const formatAuditValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export const formatFieldName = (field: string) =>
+  field.replace(/_/g, " ").replace(/^./, c => c.toUpperCase());
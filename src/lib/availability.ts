@@ -0,0 +1,60 @@
+import { DAYS, formatTime, getLocalTime } from "@/lib/opening-hours";
+
+export interface AvailabilityWindow {
+  days: number[];
+  starts_at: string;
+  ends_at: string;
+}
+
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Mirrors is_menu_item_available; no windows means available all day
+export const isWithinWindows = (windows: AvailabilityWindow[], timezone: string, at: Date = new Date()) => {
+  if (windows.length === 0) return true;
+
+  const { dayOfWeek, minutes } = getLocalTime(timezone, at);
+  const previousDay = (dayOfWeek + 6) % 7;
+
+  return windows.some(w => {
+    const start = toMinutes(w.starts_at);
+    const end = toMinutes(w.ends_at);
+    const overnight = end <= start;
+    return (
+      (w.days.includes(dayOfWeek) && minutes >= start && (overnight || minutes < end)) ||
+      (overnight && w.days.includes(previousDay) && minutes < end)
+    );
+  });
+};
+
+// "7–11 AM", "11 AM–3 PM"
+const formatRange = (startsAt: string, endsAt: string) => {
+  const start = formatTime(startsAt);
+  const end = formatTime(endsAt);
+  const [startTime, startPeriod] = start.split(/\s/);
+  const [, endPeriod] = end.split(/\s/);
+  return startPeriod === endPeriod ? `${startTime}–${end}` : `${start}–${end}`;
+};
+
+// "Mon–Fri", "Sat, Sun"; empty when the window runs every day
+const formatDays = (days: number[]) => {
+  if (days.length === 7) return "";
+  // Monday-first so weekday runs read naturally
+  const sorted = [...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+  const isRun = sorted.every((day, i) => i === 0 || day === (sorted[i - 1] + 1) % 7);
+  const short = (day: number) => DAYS[day].slice(0, 3);
+  return isRun && sorted.length > 2
+    ? `${short(sorted[0])}–${short(sorted[sorted.length - 1])}`
+    : sorted.map(short).join(", ");
+};
+
+// e.g. "Available 7–11 AM" or "Available Mon–Fri 5–7 PM"
+export const describeWindows = (windows: AvailabilityWindow[]) => {
+  if (windows.length === 0) return null;
+  const parts = windows.map(w => [formatDays(w.days), formatRange(w.starts_at, w.ends_at)].filter(Boolean).join(" "));
+  return `Available ${parts.join(" · ")}`;
+};
@@ -0,0 +1,263 @@
+import { decode, encode } from "blurhash";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export const IMAGE_BUCKET = "menu-images";
+// Originals are re-encoded before upload, so this only has to keep the browser
+// from choking; the bucket's own 5MB limit applies to the variants.
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+export type ImageKind = "logo" | "banner" | "dish";
+export type ImageFormat = "avif" | "webp" | "jpeg";
+
+interface ImagePreset {
+  label: string;
+  aspect: number;
+  widths: number[];
+  // Shapes the crop is later squeezed into with object-cover, used to preview the focal point
+  previews: { label: string; aspect: number }[];
+}
+
+// Crop shape and output widths for each place an image is shown. Widths cover
+// the rendered size at 1x-3x; anything wider is never downloaded.
+export const IMAGE_PRESETS: Record<ImageKind, ImagePreset> = {
+  logo: { label: "Logo", aspect: 1, widths: [96, 192, 320], previews: [] },
+  banner: {
+    label: "Banner",
+    aspect: 2,
+    widths: [640, 1024, 1600, 2400],
+    previews: [
+      { label: "Phone", aspect: 390 / 224 },
+      { label: "Desktop", aspect: 1440 / 384 },
+    ],
+  },
+  dish: {
+    label: "Dish photo",
+    aspect: 4 / 3,
+    widths: [160, 320, 640, 1024],
+    previews: [
+      { label: "Menu card", aspect: 1 },
+      { label: "Dish details", aspect: 672 / 320 },
+    ],
+  },
+};
+
+// Area of the original to keep, in source pixels
+export type ImageCrop = { x: number; y: number; width: number; height: number };
+
+// The part of the image that has to stay in view, as percentages of the crop
+export type FocusPoint = { x: number; y: number };
+
+export interface ImageEdit {
+  crop: ImageCrop | null;
+  focus: FocusPoint | null;
+}
+
+// Stored in the *_meta column next to an image URL. Variants live beside `src`
+// as `<width>.<format>`, and formats run from smallest to most compatible.
+export type ImageMeta = {
+  src: string;
+  width: number;
+  height: number;
+  widths: number[];
+  formats: ImageFormat[];
+  blurhash: string;
+  focus?: FocusPoint;
+};
+
+interface ImageVariant {
+  width: number;
+  format: ImageFormat;
+  blob: Blob;
+}
+
+const QUALITY: Record<ImageFormat, number> = { avif: 0.6, webp: 0.8, jpeg: 0.85 };
+
+const toBlob = (canvas: HTMLCanvasElement, format: ImageFormat) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, `image/${format}`, QUALITY[format]));
+
+// Browsers that can't encode a format quietly hand back a PNG instead
+const encodeCanvas = async (canvas: HTMLCanvasElement, format: ImageFormat) => {
+  const blob = await toBlob(canvas, format);
+  return blob?.type === `image/${format}` ? blob : null;
+};
+
+type SourceRect = { sx: number; sy: number; sw: number; sh: number };
+
+const getCenterCrop = (width: number, height: number, aspect: number): SourceRect => {
+  if (width / height > aspect) {
+    const sw = Math.round(height * aspect);
+    return { sx: Math.round((width - sw) / 2), sy: 0, sw, sh: height };
+  }
+  const sh = Math.round(width / aspect);
+  return { sx: 0, sy: Math.round((height - sh) / 2), sw: width, sh };
+};
+
+const getSourceRect = (bitmap: ImageBitmap, aspect: number, crop: ImageCrop | null | undefined): SourceRect => {
+  if (!crop) return getCenterCrop(bitmap.width, bitmap.height, aspect);
+  const sx = Math.max(0, Math.round(crop.x));
+  const sy = Math.max(0, Math.round(crop.y));
+  return {
+    sx,
+    sy,
+    sw: Math.max(1, Math.min(bitmap.width - sx, Math.round(crop.width))),
+    sh: Math.max(1, Math.min(bitmap.height - sy, Math.round(crop.height))),
+  };
+};
+
+// Never upscale: small uploads stop at their own width
+const getOutputWidths = (sourceWidth: number, presetWidths: number[]) => {
+  const largest = Math.min(sourceWidth, presetWidths[presetWidths.length - 1]);
+  return [...presetWidths.filter(w => w < largest), largest];
+};
+
+const drawCrop = (
+  bitmap: ImageBitmap,
+  crop: SourceRect,
+  width: number,
+  height: number,
+  background?: string
+) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(bitmap, crop.sx, crop.sy, crop.sw, crop.sh, 0, 0, width, height);
+  return canvas;
+};
+
+const getBlurhash = (bitmap: ImageBitmap, crop: SourceRect, aspect: number) => {
+  const width = 32;
+  const height = Math.max(1, Math.round(width / aspect));
+  const canvas = drawCrop(bitmap, crop, width, height);
+  const pixels = canvas.getContext("2d")!.getImageData(0, 0, width, height).data;
+  return encode(pixels, width, height, 4, 3);
+};
+
+// Small JPEG of the cropped area, for previews in the crop editor
+export const getCropPreviewUrl = (bitmap: ImageBitmap, kind: ImageKind, crop: ImageCrop) => {
+  const { aspect } = IMAGE_PRESETS[kind];
+  const width = 480;
+  return drawCrop(bitmap, getSourceRect(bitmap, aspect, crop), width, Math.round(width / aspect)).toDataURL("image/jpeg", 0.8);
+};
+
+// Without a crop, the middle of the image is kept
+export const processImage = async (file: File, kind: ImageKind, imageCrop?: ImageCrop | null) => {
+  const { aspect, widths: presetWidths } = IMAGE_PRESETS[kind];
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const crop = getSourceRect(bitmap, aspect, imageCrop);
+    const widths = getOutputWidths(crop.sw, presetWidths);
+    const variants: ImageVariant[] = [];
+    let formats: ImageFormat[] = ["avif", "webp"];
+
+    for (const width of widths) {
+      const height = Math.round(width / aspect);
+      const canvas = drawCrop(bitmap, crop, width, height);
+      for (const format of [...formats]) {
+        const blob = await encodeCanvas(canvas, format);
+        if (blob) {
+          variants.push({ width, format, blob });
+        } else {
+          formats = formats.filter(f => f !== format);
+        }
+      }
+    }
+
+    // Without WebP support, fall back to JPEG on white so transparent logos stay legible
+    if (!formats.includes("webp")) {
+      formats = [...formats, "jpeg"];
+      for (const width of widths) {
+        const height = Math.round(width / aspect);
+        const blob = await encodeCanvas(drawCrop(bitmap, crop, width, height, "#ffffff"), "jpeg");
+        if (!blob) throw new Error("This browser can't process images");
+        variants.push({ width, format: "jpeg", blob });
+      }
+    }
+
+    const largest = widths[widths.length - 1];
+    return {
+      variants: variants.filter(v => formats.includes(v.format)),
+      widths,
+      formats,
+      width: largest,
+      height: Math.round(largest / aspect),
+      blurhash: getBlurhash(bitmap, crop, aspect),
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const getImageUrl = (path: string) =>
+  supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+
+// Uploads every variant into a folder of its own. `folder` is the restaurant id,
+// which is what lets its staff write there; only admins can upload without one.
+// The metadata rides along on each file so the image can be reused from the media library.
+export const uploadImage = async (file: File, kind: ImageKind, folder: string | null, edit?: ImageEdit) => {
+  const { variants, widths, formats, width, height, blurhash } = await processImage(file, kind, edit?.crop);
+  const base = `${folder ? `${folder}/` : ""}${crypto.randomUUID()}`;
+  const src = getImageUrl(`${base}/${width}.${formats[formats.length - 1]}`);
+  const meta: ImageMeta = { src, width, height, widths, formats, blurhash, ...(edit?.focus ? { focus: edit.focus } : {}) };
+
+  await Promise.all(
+    variants.map(async variant => {
+      const { error } = await supabase.storage
+        .from(IMAGE_BUCKET)
+        .upload(`${base}/${variant.width}.${variant.format}`, variant.blob, {
+          contentType: `image/${variant.format}`,
+          cacheControl: "31536000",
+          metadata: meta,
+        });
+      if (error) throw error;
+    })
+  );
+
+  return { url: src, meta };
+};
+
+// Metadata only counts while it still describes the URL next to it; pasted
+// URLs and imported menus change the URL without touching the metadata.
+export const getImageMeta = (url: string | null | undefined, meta: Json | null | undefined) => {
+  const parsed = meta as unknown as ImageMeta | null | undefined;
+  return url && parsed?.src === url && parsed.widths?.length && parsed.formats?.length ? parsed : null;
+};
+
+export const getObjectPosition = (meta: ImageMeta | null) =>
+  meta?.focus ? `${meta.focus.x}% ${meta.focus.y}%` : undefined;
+
+export const getVariantUrl = (meta: ImageMeta, width: number, format: ImageFormat) =>
+  `${meta.src.slice(0, meta.src.lastIndexOf("/"))}/${width}.${format}`;
+
+export const getSrcSet = (meta: ImageMeta, format: ImageFormat) =>
+  meta.widths.map(width => `${getVariantUrl(meta, width, format)} ${width}w`).join(", ");
+
+const placeholders = new Map<string, string>();
+
+// Decodes a blurhash into a tiny data URL, good as a background while the image loads
+export const getBlurhashDataUrl = (blurhash: string) => {
+  const cached = placeholders.get(blurhash);
+  if (cached) return cached;
+
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = 32;
+    canvas.height = 32;
+    const ctx = canvas.getContext("2d")!;
+    const imageData = ctx.createImageData(32, 32);
+    imageData.data.set(decode(blurhash, 32, 32));
+    ctx.putImageData(imageData, 0, 0);
+    const url = canvas.toDataURL();
+    placeholders.set(blurhash, url);
+    return url;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { IMAGE_BUCKET, getImageUrl } from "@/lib/images";
+
+export type MediaReferenceKind = "logo" | "banner" | "menu_item" | "menu_version";
+
+export interface MediaReference {
+  kind: MediaReferenceKind;
+  id: string;
+  label: string;
+  restaurant_id: string;
+  trashed: boolean;
+}
+
+// One uploaded image: a folder of variants, or a single file from before uploads were processed
+export interface MediaAsset {
+  asset: string;
+  restaurant_id: string | null;
+  restaurant_name: string | null;
+  path: string;
+  paths: string[];
+  size: number;
+  created_at: string;
+  meta: Json | null;
+  refs: MediaReference[];
+  url: string;
+}
+
+export const MEDIA_REFERENCE_LABELS: Record<MediaReferenceKind, string> = {
+  logo: "Logo",
+  banner: "Banner",
+  menu_item: "Menu item",
+  menu_version: "Published menu",
+};
+
+// Uploads this recent may belong to a form that hasn't been saved yet
+export const UNUSED_GRACE_HOURS = 24;
+
+export const fetchMedia = async (): Promise<MediaAsset[]> => {
+  const { data, error } = await supabase.rpc("list_media");
+
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    refs: row.refs as unknown as MediaReference[],
+    url: getImageUrl(row.path),
+  }));
+};
+
+export const isUnusedMedia = (asset: MediaAsset, now = new Date()) =>
+  asset.refs.length === 0 &&
+  new Date(asset.created_at).getTime() < now.getTime() - UNUSED_GRACE_HOURS * 60 * 60 * 1000;
+
+// Storage removes at most a thousand files per call
+export const removeMedia = async (assets: MediaAsset[]) => {
+  const paths = assets.flatMap(asset => asset.paths);
+  for (let i = 0; i < paths.length; i += 1000) {
+    const { error } = await supabase.storage.from(IMAGE_BUCKET).remove(paths.slice(i, i + 1000));
+    if (error) throw error;
+  }
+  return paths.length;
+};
+
+// The list on screen can be stale: an image may have been picked for a dish or
+// logo since it loaded. Only assets that are still unused right now are deleted.
+export const removeUnusedMedia = async (assets: MediaAsset[]) => {
+  const selected = new Set(assets.map(asset => asset.asset));
+  const stillUnused = (await fetchMedia()).filter(asset => selected.has(asset.asset) && isUnusedMedia(asset));
+  const files = await removeMedia(stillUnused);
+  return { images: stillUnused.length, files };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
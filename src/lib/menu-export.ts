@@ -0,0 +1,146 @@
+import Papa from "papaparse";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getTaxBreakdown } from "@/lib/pricing";
+
+export const MENU_EXPORT_FORMAT = "feast-menu";
+export const MENU_EXPORT_VERSION = 1;
+
+type ExcludedFields = "id" | "created_at" | "updated_at" | "deleted_at" | "deleted_by";
+type WindowExport = Pick<Tables<"availability_windows">, "days" | "starts_at" | "ends_at">;
+
+export interface MenuExportItem
+  extends Omit<Tables<"menu_items">, ExcludedFields | "category_id"> {
+  allergens: string[];
+  availability_windows: WindowExport[];
+  modifier_groups: (Pick<Tables<"modifier_groups">, "name" | "min_select" | "max_select" | "is_required" | "display_order"> & {
+    options: Pick<Tables<"modifier_options">, "name" | "price_delta" | "is_available" | "display_order">[];
+  })[];
+}
+
+export interface MenuExportCategory
+  extends Omit<Tables<"menu_categories">, ExcludedFields | "restaurant_id"> {
+  availability_windows: WindowExport[];
+  items: MenuExportItem[];
+}
+
+// Ids, timestamps and trash markers are left out so the file can be imported into any restaurant
+export interface MenuExport {
+  format: typeof MENU_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  restaurant: Omit<Tables<"restaurants">, ExcludedFields>;
+  categories: MenuExportCategory[];
+}
+
+const WINDOW_SELECT = "availability_windows(days, starts_at, ends_at)";
+
+export const fetchMenuExport = async (restaurantId: string): Promise<MenuExport> => {
+  const [restaurantRes, categoriesRes, itemsRes] = await Promise.all([
+    supabase.from("restaurants").select("*").eq("id", restaurantId).single(),
+    supabase
+      .from("menu_categories")
+      .select(`*, ${WINDOW_SELECT}`)
+      .eq("restaurant_id", restaurantId)
+      .order("display_order"),
+    supabase
+      .from("menu_items")
+      .select(`*, menu_categories!inner(restaurant_id), menu_item_allergens(allergen_id), ${WINDOW_SELECT}, modifier_groups(*, modifier_options(*))`)
+      .eq("menu_categories.restaurant_id", restaurantId)
+      .order("display_order"),
+  ]);
+
+  if (restaurantRes.error) throw restaurantRes.error;
+  if (categoriesRes.error) throw categoriesRes.error;
+  if (itemsRes.error) throw itemsRes.error;
+
+  const {
+    id: _id,
+    created_at: _created,
+    updated_at: _updated,
+    deleted_at: _deleted,
+    deleted_by: _deletedBy,
+    ...restaurant
+  } = restaurantRes.data;
+  const byOrder = (a: { display_order: number | null }, b: { display_order: number | null }) =>
+    (a.display_order ?? 0) - (b.display_order ?? 0);
+
+  return {
+    format: MENU_EXPORT_FORMAT,
+    version: MENU_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    restaurant,
+    categories: categoriesRes.data.map(({ id, restaurant_id: _r, created_at: _c, updated_at: _u, deleted_at: _d, deleted_by: _db, ...category }) => ({
+      ...category,
+      items: itemsRes.data
+        .filter(item => item.category_id === id)
+        .map(({
+          id: _i,
+          category_id: _cat,
+          created_at: _ic,
+          updated_at: _iu,
+          deleted_at: _idel,
+          deleted_by: _idelBy,
+          menu_categories: _mc,
+          menu_item_allergens,
+          modifier_groups,
+          ...item
+        }) => ({
+          ...item,
+          allergens: menu_item_allergens.map(a => a.allergen_id),
+          modifier_groups: [...modifier_groups].sort(byOrder).map(group => ({
+            name: group.name,
+            min_select: group.min_select,
+            max_select: group.max_select,
+            is_required: group.is_required,
+            display_order: group.display_order,
+            options: [...group.modifier_options].sort(byOrder).map(option => ({
+              name: option.name,
+              price_delta: option.price_delta,
+              is_available: option.is_available,
+              display_order: option.display_order,
+            })),
+          })),
+        })),
+    })),
+  };
+};
+
+export const toMenuJson = (menu: MenuExport) => JSON.stringify(menu, null, 2);
+
+// One row per item. The leading columns match the menu importer.
+export const toMenuCsv = (menu: MenuExport) => {
+  const yesNo = (value: boolean | null) => (value ? "yes" : "no");
+  return Papa.unparse(
+    menu.categories.flatMap(category =>
+      category.items.map(item => {
+        const { net, tax, gross } = getTaxBreakdown(item.price, menu.restaurant);
+        return {
+          category: category.name,
+          name: item.name,
+          description: item.description || "",
+          price: item.price.toFixed(2),
+          vegetarian: yesNo(item.is_vegetarian),
+          vegan: yesNo(item.is_vegan),
+          spicy: yesNo(item.is_spicy),
+          image_url: item.image_url || "",
+          available: yesNo(item.is_available && category.is_active),
+          allergens: item.allergens.join(";"),
+          currency: menu.restaurant.currency_code,
+          net_price: net.toFixed(2),
+          tax_rate: menu.restaurant.tax_rate,
+          tax: tax.toFixed(2),
+          gross_price: gross.toFixed(2),
+        };
+      })
+    )
+  );
+};
+
+export const downloadTextFile = (content: string, fileName: string, type: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([content], { type }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
@@ -0,0 +1,336 @@
+import Papa from "papaparse";
+import { readSheet } from "read-excel-file/browser";
+import { MENU_EXPORT_FORMAT, type MenuExport, type MenuExportCategory, type MenuExportItem } from "@/lib/menu-export";
+import { parsePrice } from "@/lib/pricing";
+
+export interface ImportItem {
+  category: string;
+  name: string;
+  description: string | null;
+  price: number;
+  is_vegetarian: boolean;
+  is_vegan: boolean;
+  is_spicy: boolean;
+  image_url: string | null;
+}
+
+// What a JSON export carries beyond the spreadsheet columns
+export type ImportItemDetails = Pick<
+  MenuExportItem,
+  "is_available" | "image_meta" | "allergens" | "availability_windows" | "modifier_groups"
+>;
+
+export interface ExistingItem extends Omit<ImportItem, "category"> {
+  id: string;
+  category_id: string;
+  details: ImportItemDetails;
+}
+
+export type ImportAction = "create" | "update" | "skip" | "error";
+
+export interface ImportPlanRow {
+  // Spreadsheet row; null for JSON exports, whose items are found by category and name
+  row: number | null;
+  action: ImportAction;
+  item: ImportItem | null;
+  name: string;
+  category: string;
+  existingId?: string;
+  // Only the parts that differ from the existing item, so unchanged options keep their ids
+  details?: Partial<ImportItemDetails>;
+  changes: string[];
+  errors: string[];
+}
+
+// Spreadsheet number cells and JSON prices arrive as numbers and skip locale parsing
+type RawRow = Record<string, string | number>;
+
+interface ImportRow {
+  category: string;
+  name: string;
+  description: string;
+  price: string | number;
+  vegetarian: string;
+  vegan: string;
+  spicy: string;
+  image_url: string;
+  details?: ImportItemDetails;
+}
+
+export interface MenuFile {
+  rows: ImportRow[];
+  // Set for JSON exports, which also bring categories, hours and the theme
+  menu: MenuExport | null;
+}
+
+// Restaurant columns a JSON import can bring along
+export const THEME_COLUMNS = [
+  "theme_color",
+  "background_color",
+  "text_color",
+  "card_color",
+  "card_text_color",
+  "price_color",
+  "category_header_color",
+  "button_color",
+  "button_text_color",
+  "border_color",
+  "header_gradient_start",
+  "header_gradient_end",
+  "font_family",
+] as const;
+
+export const IMPORT_COLUMNS = ["category", "name", "description", "price", "vegetarian", "vegan", "spicy", "image_url"];
+
+// Accepted spellings for each column, after normalizeHeader
+const COLUMN_ALIASES: Record<string, string[]> = {
+  category: ["category", "category_name", "section"],
+  name: ["name", "item", "item_name", "dish"],
+  description: ["description", "desc"],
+  price: ["price", "amount"],
+  vegetarian: ["vegetarian", "is_vegetarian", "veg"],
+  vegan: ["vegan", "is_vegan"],
+  spicy: ["spicy", "is_spicy"],
+  image_url: ["image_url", "image", "photo", "photo_url"],
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// The same dish name can appear in more than one category, e.g. a salad as a starter and a main
+const itemKey = (category: string, name: string) => `${normalizeName(category)}\u0000${normalizeName(name)}`;
+
+const readCsv = (file: File) =>
+  new Promise<RawRow[]>((resolve, reject) => {
+    Papa.parse<RawRow>(file, {
+      header: true,
+      skipEmptyLines: "greedy",
+      transformHeader: normalizeHeader,
+      complete: (results) => resolve(results.data),
+      error: reject,
+    });
+  });
+
+const readXlsx = async (file: File) => {
+  const [headerRow = [], ...rows] = await readSheet(file);
+  const headers = headerRow.map(cell => normalizeHeader(String(cell ?? "")));
+  return rows
+    .filter(row => row.some(cell => cell !== null && String(cell).trim() !== ""))
+    .map(row => Object.fromEntries(headers.map((header, i) => {
+      const cell = row[i];
+      return [header, cell === null || cell === undefined ? "" : typeof cell === "number" ? cell : String(cell)];
+    })));
+};
+
+const readJson = async (file: File) => {
+  const menu = JSON.parse(await file.text()) as MenuExport;
+  if (menu?.format !== MENU_EXPORT_FORMAT) {
+    throw new Error("Not a menu export file");
+  }
+  return menu;
+};
+
+const yesNo = (value: boolean | null) => (value ? "yes" : "no");
+
+// Flattens an exported item back into an importer row, keeping the rest of it alongside
+const toJsonRow = (category: MenuExportCategory, item: MenuExportItem): ImportRow => ({
+  category: category.name,
+  name: item.name,
+  description: item.description || "",
+  price: item.price,
+  vegetarian: yesNo(item.is_vegetarian),
+  vegan: yesNo(item.is_vegan),
+  spicy: yesNo(item.is_spicy),
+  image_url: item.image_url || "",
+  details: {
+    is_available: item.is_available,
+    image_meta: item.image_meta,
+    allergens: item.allergens,
+    availability_windows: item.availability_windows,
+    modifier_groups: item.modifier_groups,
+  },
+});
+
+// Map whatever header spelling was used onto the canonical column names
+const toImportRow = (raw: RawRow): ImportRow => {
+  const value = (column: string) => {
+    const key = COLUMN_ALIASES[column].find(alias => alias in raw);
+    return key ? raw[key] ?? "" : "";
+  };
+  const text = (column: string) => String(value(column)).trim();
+  const price = value("price");
+
+  return {
+    category: text("category"),
+    name: text("name"),
+    description: text("description"),
+    price: typeof price === "number" ? price : price.trim(),
+    vegetarian: text("vegetarian"),
+    vegan: text("vegan"),
+    spicy: text("spicy"),
+    image_url: text("image_url"),
+  };
+};
+
+export const readMenuFile = async (file: File): Promise<MenuFile> => {
+  if (/\.json$/i.test(file.name)) {
+    const menu = await readJson(file);
+    return {
+      rows: menu.categories.flatMap(category => category.items.map(item => toJsonRow(category, item))),
+      menu,
+    };
+  }
+
+  const rows = /\.xlsx$/i.test(file.name) ? await readXlsx(file) : await readCsv(file);
+  return { rows: rows.map(toImportRow), menu: null };
+};
+
+const parseBoolean = (value: string) => ["yes", "y", "true", "1", "x"].includes(value.toLowerCase());
+
+const validateRow = (raw: ImportRow, locale: string) => {
+  const errors: string[] = [];
+
+  if (!raw.category) errors.push("Category is required");
+  if (!raw.name) errors.push("Name is required");
+
+  const price = typeof raw.price === "number" ? raw.price : parsePrice(raw.price, locale);
+  if (raw.price === "" || Number.isNaN(price)) {
+    errors.push(`Price must be a number written like ${new Intl.NumberFormat(locale || "en-IN", { minimumFractionDigits: 2 }).format(1234.5)}`);
+  } else if (price < 0) {
+    errors.push("Price cannot be negative");
+  }
+
+  if (raw.image_url && !/^https?:\/\//i.test(raw.image_url)) {
+    errors.push("Image URL must start with http:// or https://");
+  }
+
+  const item: ImportItem = {
+    category: raw.category,
+    name: raw.name,
+    description: raw.description || null,
+    price: Math.round(price * 100) / 100,
+    is_vegetarian: parseBoolean(raw.vegetarian) || parseBoolean(raw.vegan),
+    is_vegan: parseBoolean(raw.vegan),
+    is_spicy: parseBoolean(raw.spicy),
+    image_url: raw.image_url || null,
+  };
+
+  return { item, errors };
+};
+
+const diffItem = (item: ImportItem, existing: ExistingItem) => {
+  const changes: string[] = [];
+  if (item.name !== existing.name) changes.push("name");
+  if ((item.description || null) !== (existing.description || null)) changes.push("description");
+  if (item.price !== Number(existing.price)) changes.push(`price ${existing.price} → ${item.price}`);
+  if (item.is_vegetarian !== existing.is_vegetarian) changes.push("vegetarian");
+  if (item.is_vegan !== existing.is_vegan) changes.push("vegan");
+  if (item.is_spicy !== existing.is_spicy) changes.push("spicy");
+  if ((item.image_url || null) !== (existing.image_url || null)) changes.push("image");
+  return changes;
+};
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const normalizeWindows = (windows: ImportItemDetails["availability_windows"]) =>
+  windows.map(w => `${[...w.days].sort().join(",")} ${w.starts_at}-${w.ends_at}`).sort();
+
+// Ordering is compared through the position in the list, not the stored numbers
+const normalizeGroups = (groups: ImportItemDetails["modifier_groups"]) =>
+  [...groups]
+    .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0))
+    .map(group => ({
+      name: group.name,
+      min_select: group.min_select,
+      max_select: group.max_select,
+      is_required: group.is_required,
+      options: [...group.options]
+        .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0))
+        .map(option => ({ name: option.name, price_delta: Number(option.price_delta), is_available: option.is_available !== false })),
+    }));
+
+const diffDetails = (details: ImportItemDetails, item: ImportItem, existing: ExistingItem) => {
+  const changes: string[] = [];
+  const patch: Partial<ImportItemDetails> = {};
+  const current = existing.details;
+
+  if ((details.is_available !== false) !== (current.is_available !== false)) {
+    changes.push(details.is_available === false ? "unavailable" : "available");
+    patch.is_available = details.is_available;
+  }
+  if ((item.image_url || null) !== (existing.image_url || null)) {
+    patch.image_meta = details.image_meta;
+  }
+  if (!sameJson([...details.allergens].sort(), [...current.allergens].sort())) {
+    changes.push("allergens");
+    patch.allergens = details.allergens;
+  }
+  if (!sameJson(normalizeWindows(details.availability_windows), normalizeWindows(current.availability_windows))) {
+    changes.push("hours");
+    patch.availability_windows = details.availability_windows;
+  }
+  if (!sameJson(normalizeGroups(details.modifier_groups), normalizeGroups(current.modifier_groups))) {
+    changes.push("options");
+    patch.modifier_groups = details.modifier_groups;
+  }
+  return { changes, patch };
+};
+
+// Dry run: rows are matched to existing items by category and name, case-insensitively.
+// Typed prices are read with the restaurant's number locale.
+export const buildImportPlan = (
+  rows: ImportRow[],
+  categories: { id: string; name: string }[],
+  existingItems: ExistingItem[],
+  locale: string,
+): ImportPlanRow[] => {
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  const itemsByKey = new Map(existingItems.map(i => [itemKey(categoryNames.get(i.category_id) || "", i.name), i]));
+  const seen = new Set<string>();
+
+  return rows.map((raw, index) => {
+    // Spreadsheet row numbers, counting the header as row 1. Only JSON rows carry details.
+    const row = raw.details ? null : index + 2;
+    const { item, errors } = validateRow(raw, locale);
+    const base = { row, name: raw.name, category: raw.category, changes: [] as string[] };
+
+    const key = itemKey(raw.category, raw.name);
+    if (raw.name && seen.has(key)) {
+      errors.push("Duplicate name in this category");
+    }
+    seen.add(key);
+
+    if (errors.length > 0) {
+      return { ...base, action: "error", item: null, errors };
+    }
+
+    const existing = itemsByKey.get(key);
+    if (!existing) {
+      return { ...base, action: "create", item, details: raw.details, errors };
+    }
+
+    const changes = diffItem(item, existing);
+    const extra = raw.details ? diffDetails(raw.details, item, existing) : null;
+    if (extra) changes.push(...extra.changes);
+
+    return {
+      ...base,
+      action: changes.length > 0 ? "update" : "skip",
+      item,
+      existingId: existing.id,
+      details: extra?.patch,
+      changes,
+      errors,
+    };
+  });
+};
+
+export const buildTemplateCsv = () =>
+  Papa.unparse({
+    fields: IMPORT_COLUMNS,
+    data: [
+      ["Starters", "Paneer Tikka", "Chargrilled cottage cheese with mint chutney", "249", "yes", "no", "yes", "https://example.com/paneer.jpg"],
+      ["Mains", "Butter Chicken", "Creamy tomato gravy", "349", "no", "no", "no", ""],
+    ],
+  });
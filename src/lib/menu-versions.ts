@@ -0,0 +1,148 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { describeWindows, type AvailabilityWindow } from "@/lib/availability";
+import { diffAuditEntry, type AuditFieldChange } from "@/lib/audit";
+
+type Timestamps = "created_at" | "updated_at";
+type TrashFields = "deleted_at" | "deleted_by";
+type SnapshotWindow = AvailabilityWindow & { id: string };
+
+export type SnapshotCategory = Omit<Tables<"menu_categories">, Timestamps | TrashFields> & {
+  availability_windows: SnapshotWindow[];
+};
+
+export type SnapshotItem = Omit<Tables<"menu_items">, Timestamps | TrashFields> & {
+  menu_item_allergens: { allergen_id: string }[];
+  availability_windows: SnapshotWindow[];
+};
+
+export type SnapshotModifierGroup = Omit<Tables<"modifier_groups">, Timestamps> & {
+  modifier_options: Omit<Tables<"modifier_options">, Timestamps>[];
+};
+
+// Mirrors build_menu_snapshot: every row of a restaurant's menu, in menu order
+export interface MenuSnapshot {
+  categories: SnapshotCategory[];
+  items: SnapshotItem[];
+  modifier_groups: SnapshotModifierGroup[];
+}
+
+const EMPTY_MENU: MenuSnapshot = { categories: [], items: [], modifier_groups: [] };
+
+export const parseMenuSnapshot = (data: Json | null): MenuSnapshot =>
+  data ? (data as unknown as MenuSnapshot) : EMPTY_MENU;
+
+// The live menu; empty until the restaurant publishes for the first time
+export const fetchPublishedMenu = async (restaurantId: string) => {
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .select("snapshot")
+    .eq("restaurant_id", restaurantId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return parseMenuSnapshot(data?.snapshot ?? null);
+};
+
+// The draft behind a preview link, or null when the link is invalid or expired
+export const fetchMenuPreview = async (restaurantId: string, token: string) => {
+  const { data, error } = await supabase.rpc("get_menu_preview", { _restaurant_id: restaurantId, _token: token });
+
+  if (error) throw error;
+  return data ? parseMenuSnapshot(data) : null;
+};
+
+// What diners see: active categories, available dishes and options
+export const getVisibleMenu = (snapshot: MenuSnapshot) => {
+  const categories = snapshot.categories.filter(c => c.is_active);
+  const categoryIds = new Set(categories.map(c => c.id));
+  const items = snapshot.items.filter(i => i.is_available && categoryIds.has(i.category_id));
+  const itemIds = new Set(items.map(i => i.id));
+  const modifierGroups = snapshot.modifier_groups
+    .filter(g => itemIds.has(g.menu_item_id))
+    .map(g => ({ ...g, modifier_options: g.modifier_options.filter(o => o.is_available !== false) }));
+
+  return { categories, items, modifierGroups };
+};
+
+export type MenuChangeKind = "category" | "item" | "modifier_group";
+
+export interface MenuChange {
+  kind: MenuChangeKind;
+  id: string;
+  name: string;
+  action: "insert" | "update" | "delete";
+  changes: AuditFieldChange[];
+}
+
+export const MENU_CHANGE_LABELS: Record<MenuChangeKind, string> = {
+  category: "Category",
+  item: "Menu item",
+  modifier_group: "Options",
+};
+
+type ComparableRow = { id: string; name: string } & Record<string, unknown>;
+
+const describeAvailability = (windows: AvailabilityWindow[]) => describeWindows(windows) ?? "All day";
+
+// Flattens nested rows into readable fields so the diff compares like for like
+const comparableRows = (snapshot: MenuSnapshot): Record<MenuChangeKind, ComparableRow[]> => {
+  const categoryNames = new Map(snapshot.categories.map(c => [c.id, c.name]));
+  const itemNames = new Map(snapshot.items.map(i => [i.id, i.name]));
+
+  const categories = snapshot.categories.map(({ availability_windows, restaurant_id: _restaurant, ...category }) => ({
+    ...category,
+    availability: describeAvailability(availability_windows),
+  }));
+
+  const items = snapshot.items.map(({ menu_item_allergens, availability_windows, category_id, ...item }) => ({
+    ...item,
+    category: categoryNames.get(category_id) ?? category_id,
+    allergens: menu_item_allergens.map(a => a.allergen_id).sort().join(", "),
+    availability: describeAvailability(availability_windows),
+  }));
+
+  const groups = snapshot.modifier_groups.map(({ modifier_options, menu_item_id, ...group }) => ({
+    ...group,
+    name: `${itemNames.get(menu_item_id) ?? "Removed dish"} · ${group.name}`,
+    options: modifier_options
+      .map(o => `${o.name}${o.price_delta ? ` (${o.price_delta > 0 ? "+" : ""}${o.price_delta})` : ""}${o.is_available === false ? " – off" : ""}`)
+      .join(", "),
+  }));
+
+  return { category: categories, item: items, modifier_group: groups };
+};
+
+// Everything added, removed or edited between two snapshots
+export const diffMenuSnapshots = (before: MenuSnapshot, after: MenuSnapshot): MenuChange[] => {
+  const beforeRows = comparableRows(before);
+  const afterRows = comparableRows(after);
+  const result: MenuChange[] = [];
+
+  (Object.keys(MENU_CHANGE_LABELS) as MenuChangeKind[]).forEach(kind => {
+    const oldById = new Map(beforeRows[kind].map(row => [row.id, row] as const));
+    const newById = new Map(afterRows[kind].map(row => [row.id, row] as const));
+
+    afterRows[kind].forEach(row => {
+      const old = oldById.get(row.id);
+      const changes = diffAuditEntry((old ?? null) as unknown as Json, row as unknown as Json);
+      if (old && changes.length === 0) return;
+      result.push({ kind, id: row.id, name: row.name, action: old ? "update" : "insert", changes });
+    });
+
+    beforeRows[kind].forEach(row => {
+      if (newById.has(row.id)) return;
+      result.push({
+        kind,
+        id: row.id,
+        name: row.name,
+        action: "delete",
+        changes: diffAuditEntry(row as unknown as Json, null),
+      });
+    });
+  });
+
+  return result;
+};
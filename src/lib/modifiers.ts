@@ -0,0 +1,62 @@
+export interface ModifierOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  display_order: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  menu_item_id: string;
+  name: string;
+  min_select: number;
+  max_select: number;
+  is_required: boolean;
+  display_order: number;
+  modifier_options: ModifierOption[];
+}
+
+// Selected option ids, keyed by modifier group id
+export type ModifierSelection = Record<string, string[]>;
+
+export const minSelections = (group: ModifierGroup) =>
+  Math.max(group.min_select, group.is_required ? 1 : 0);
+
+export const describeGroupRule = (group: ModifierGroup) => {
+  const min = minSelections(group);
+  if (group.max_select === 1) {
+    return min === 1 ? "Required" : "Optional";
+  }
+  if (min === 0) {
+    return `Choose up to ${group.max_select}`;
+  }
+  if (min === group.max_select) {
+    return `Choose ${min}`;
+  }
+  return `Choose ${min}–${group.max_select}`;
+};
+
+// Single-choice required groups start on their first option
+export const defaultSelection = (groups: ModifierGroup[]): ModifierSelection =>
+  Object.fromEntries(
+    groups
+      .filter(g => g.max_select === 1 && minSelections(g) === 1 && g.modifier_options.length > 0)
+      .map(g => [g.id, [g.modifier_options[0].id]])
+  );
+
+export const getSelectionError = (groups: ModifierGroup[], selection: ModifierSelection) => {
+  for (const group of groups) {
+    const count = selection[group.id]?.length ?? 0;
+    if (count < minSelections(group)) {
+      return `Please choose ${group.name.toLowerCase()}`;
+    }
+    if (count > group.max_select) {
+      return `Too many options selected for ${group.name.toLowerCase()}`;
+    }
+  }
+  return null;
+};
+
+export const getSelectedOptions = (groups: ModifierGroup[], selection: ModifierSelection) =>
+  groups.flatMap(g => g.modifier_options.filter(o => selection[g.id]?.includes(o.id)));
@@ -0,0 +1,145 @@
+export interface OpeningHour {
+  day_of_week: number;
+  opens_at: string;
+  closes_at: string;
+}
+
+export interface OpeningHourOverride {
+  id: string;
+  date: string;
+  is_closed: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  note: string | null;
+}
+
+export interface OpeningSchedule {
+  timezone: string;
+  opening_hours: OpeningHour[];
+  opening_hour_overrides: OpeningHourOverride[];
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  label: string;
+}
+
+// Indexed by day_of_week (0 = Sunday), matching EXTRACT(DOW)
+export const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Monday-first order for schedule editors
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const TIMEZONES = [
+  "Asia/Kolkata",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Asia/Shanghai",
+  "Asia/Bangkok",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Madrid",
+  "Europe/Rome",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+  "America/Toronto",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+  "UTC",
+];
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// "18:00:00" -> "6 PM", "18:30:00" -> "6:30 PM"
+export const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Intl.DateTimeFormat("en-US", {
+    hour: "numeric",
+    minute: minutes ? "2-digit" : undefined,
+    timeZone: "UTC",
+  }).format(new Date(Date.UTC(2000, 0, 1, hours, minutes || 0)));
+};
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const dayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Wall-clock date and time at the restaurant
+export const getLocalTime = (timezone: string, at: Date = new Date()) => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(at);
+  } catch {
+    return getLocalTime("UTC", at);
+  }
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "00";
+  const date = `${get("year")}-${get("month")}-${get("day")}`;
+  return { date, dayOfWeek: dayOfWeek(date), minutes: Number(get("hour")) * 60 + Number(get("minute")) };
+};
+
+// Mirrors get_service_intervals: an override replaces the weekly hours
+const getIntervals = (schedule: OpeningSchedule, date: string) => {
+  const override = schedule.opening_hour_overrides.find(o => o.date === date);
+  if (override) {
+    return override.is_closed || !override.opens_at || !override.closes_at
+      ? []
+      : [{ opens_at: override.opens_at, closes_at: override.closes_at }];
+  }
+  return schedule.opening_hours
+    .filter(h => h.day_of_week === dayOfWeek(date))
+    .sort((a, b) => toMinutes(a.opens_at) - toMinutes(b.opens_at));
+};
+
+const isOvernight = (interval: { opens_at: string; closes_at: string }) =>
+  toMinutes(interval.closes_at) <= toMinutes(interval.opens_at);
+
+// Mirrors is_restaurant_open; null means the restaurant has no schedule
+export const getOpenStatus = (schedule: OpeningSchedule, at: Date = new Date()): OpenStatus | null => {
+  if (schedule.opening_hours.length === 0) return null;
+
+  const now = getLocalTime(schedule.timezone, at);
+  const today = getIntervals(schedule, now.date);
+
+  const current =
+    today.find(i => now.minutes >= toMinutes(i.opens_at) && (isOvernight(i) || now.minutes < toMinutes(i.closes_at))) ||
+    getIntervals(schedule, addDays(now.date, -1)).find(i => isOvernight(i) && now.minutes < toMinutes(i.closes_at));
+
+  if (current) {
+    return { isOpen: true, label: `Open now · until ${formatTime(current.closes_at)}` };
+  }
+
+  const laterToday = today.find(i => toMinutes(i.opens_at) > now.minutes);
+  if (laterToday) {
+    return { isOpen: false, label: `Opens at ${formatTime(laterToday.opens_at)}` };
+  }
+
+  for (let offset = 1; offset <= 7; offset++) {
+    const date = addDays(now.date, offset);
+    const [next] = getIntervals(schedule, date);
+    if (next) {
+      const day = offset === 1 ? "tomorrow" : DAYS[dayOfWeek(date)].slice(0, 3);
+      return { isOpen: false, label: `Opens ${day} at ${formatTime(next.opens_at)}` };
+    }
+  }
+
+  return { isOpen: false, label: "Closed" };
+};
@@ -0,0 +1,123 @@
+export interface PriceSettings {
+  currency_code: string;
+  locale: string;
+  tax_rate: number;
+  prices_include_tax: boolean;
+  show_net_and_gross: boolean;
+}
+
+export const CURRENCIES = [
+  { code: "INR", label: "Indian Rupee (INR)" },
+  { code: "USD", label: "US Dollar (USD)" },
+  { code: "EUR", label: "Euro (EUR)" },
+  { code: "GBP", label: "British Pound (GBP)" },
+  { code: "AED", label: "UAE Dirham (AED)" },
+  { code: "SGD", label: "Singapore Dollar (SGD)" },
+  { code: "AUD", label: "Australian Dollar (AUD)" },
+  { code: "CAD", label: "Canadian Dollar (CAD)" },
+  { code: "JPY", label: "Japanese Yen (JPY)" },
+  { code: "CHF", label: "Swiss Franc (CHF)" },
+];
+
+// Controls digit grouping, decimal separator and symbol placement
+export const NUMBER_LOCALES = [
+  { code: "en-IN", label: "English (India) — 1,23,456.00" },
+  { code: "en-US", label: "English (US) — 123,456.00" },
+  { code: "en-GB", label: "English (UK) — 123,456.00" },
+  { code: "de-DE", label: "German — 123.456,00" },
+  { code: "fr-FR", label: "French — 123 456,00" },
+  { code: "es-ES", label: "Spanish — 123.456,00" },
+  { code: "it-IT", label: "Italian — 123.456,00" },
+  { code: "ar-AE", label: "Arabic (UAE) — ١٢٣٬٤٥٦٫٠٠" },
+  { code: "ja-JP", label: "Japanese — 123,456" },
+];
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (locale: string, currency: string) => {
+  const key = `${locale}:${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale, { style: "currency", currency });
+    } catch {
+      // An unknown locale or currency code should not break the menu
+      formatter = new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" });
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export const formatPrice = (amount: number, settings: Pick<PriceSettings, "currency_code" | "locale">) =>
+  getFormatter(settings.locale || "en-IN", settings.currency_code || "INR").format(amount);
+
+const SPACES = /[\s\u00a0\u202f]/g;
+
+const getSeparators = (locale: string) => {
+  let formatter: Intl.NumberFormat;
+  try {
+    formatter = new Intl.NumberFormat(locale);
+  } catch {
+    formatter = new Intl.NumberFormat("en-IN");
+  }
+  const parts = formatter.formatToParts(1234567.8);
+  const integers = parts.filter(p => p.type === "integer");
+  return {
+    group: parts.find(p => p.type === "group")?.value ?? ",",
+    decimal: parts.find(p => p.type === "decimal")?.value ?? ".",
+    // Indian lakh/crore notation groups by two after the first thousand: 12,34,567
+    lakh: integers.length > 2 && integers[1].value.length === 2,
+  };
+};
+
+// Reads a typed price the way the restaurant writes numbers, so "12,50" is
+// 12.5 in Germany. Separators that don't fit the locale, like "12,50" on an
+// English menu, give NaN rather than a guess.
+export const parsePrice = (value: string, locale: string) => {
+  const { group, decimal, lakh } = getSeparators(locale || "en-IN");
+  const text = value.replace(/[^\d.,'’\s\u00a0\u202f-]/g, "").trim();
+  const negative = text.startsWith("-");
+  const [whole, fraction, ...rest] = text.replace(/^-\s*/, "").split(decimal);
+
+  if (rest.length > 0 || (fraction !== undefined && !/^\d+$/.test(fraction))) return NaN;
+
+  // Groups are three digits, or two in lakh/crore notation where the locale uses it
+  const groups = group.replace(SPACES, " ") === " " ? whole.split(SPACES) : whole.split(group);
+  const grouped = groups.length === 1
+    ? /^\d+$/.test(whole)
+    : /^\d{1,3}$/.test(groups[0]) &&
+      /^\d{3}$/.test(groups[groups.length - 1]) &&
+      groups.slice(1, -1).every(g => (lakh ? /^\d{2}$/ : /^\d{3}$/).test(g));
+  if (!grouped) return NaN;
+
+  const amount = Number(`${groups.join("")}${fraction !== undefined ? `.${fraction}` : ""}`);
+  return negative ? -amount : amount;
+};
+
+// Option surcharges read as "+₹20.00" / "−₹10.00", and nothing when free
+export const formatPriceDelta = (delta: number, settings: Pick<PriceSettings, "currency_code" | "locale">) =>
+  delta === 0 ? "" : `${delta > 0 ? "+" : "−"}${formatPrice(Math.abs(delta), settings)}`;
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Mirrors handle_order_item_totals so the cart matches the stored order
+export const getTaxBreakdown = (amount: number, settings: Pick<PriceSettings, "tax_rate" | "prices_include_tax">) => {
+  const rate = (settings.tax_rate || 0) / 100;
+  if (settings.prices_include_tax) {
+    const tax = roundCurrency(amount - amount / (1 + rate));
+    return { net: roundCurrency(amount - tax), tax, gross: amount };
+  }
+  const tax = roundCurrency(amount * rate);
+  return { net: amount, tax, gross: roundCurrency(amount + tax) };
+};
+
+// The other side of the net/gross split, e.g. "₹200.00 excl. tax" on a
+// tax-inclusive menu; null when the restaurant only shows one amount
+export const getAlternatePrice = (amount: number, settings: PriceSettings) => {
+  if (!settings.show_net_and_gross || !settings.tax_rate) return null;
+  const { net, gross } = getTaxBreakdown(amount, settings);
+  return settings.prices_include_tax
+    ? `${formatPrice(net, settings)} excl. tax`
+    : `${formatPrice(gross, settings)} incl. tax`;
+};
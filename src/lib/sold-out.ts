@@ -0,0 +1,55 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getLocalTime } from "@/lib/opening-hours";
+
+export type SoldOutItem = Pick<Tables<"sold_out_items">, "menu_item_id" | "until">;
+
+// A row only counts while `until` is unset or still ahead; putting a dish back
+// on sets `until` to now, so every change arrives as an insert or update
+export const isSoldOut = (entry: SoldOutItem | undefined, now: Date) =>
+  !!entry && (!entry.until || new Date(entry.until) > now);
+
+export const fetchSoldOutItems = async (restaurantId: string): Promise<SoldOutItem[]> => {
+  const { data, error } = await supabase
+    .from("sold_out_items")
+    .select("menu_item_id, until")
+    .eq("restaurant_id", restaurantId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const SOLD_OUT_DURATIONS = [
+  { value: "manual", label: "Until turned back on" },
+  { value: "30", label: "For 30 minutes" },
+  { value: "60", label: "For 1 hour" },
+  { value: "120", label: "For 2 hours" },
+  { value: "tomorrow", label: "Until tomorrow" },
+] as const;
+
+export type SoldOutDuration = typeof SOLD_OUT_DURATIONS[number]["value"];
+
+// When a dish marked sold out for this long comes back, or null to wait for staff.
+// "Tomorrow" is the next midnight at the restaurant, not in the browser.
+export const getSoldOutUntil = (duration: SoldOutDuration, timezone: string, now = new Date()) => {
+  if (duration === "manual") return null;
+  if (duration === "tomorrow") {
+    const startOfMinute = Math.floor(now.getTime() / 60_000) * 60_000;
+    let midnight = startOfMinute + (24 * 60 - getLocalTime(timezone, now).minutes) * 60_000;
+    // A clock change today leaves this an hour either side of midnight
+    const { minutes } = getLocalTime(timezone, new Date(midnight));
+    if (minutes) midnight += (minutes >= 12 * 60 ? 24 * 60 - minutes : -minutes) * 60_000;
+    return new Date(midnight).toISOString();
+  }
+  return new Date(now.getTime() + Number(duration) * 60_000).toISOString();
+};
+
+// Times are given in restaurant time, like opening hours
+export const describeSoldOut = (entry: SoldOutItem, timezone: string) => {
+  if (!entry.until) return "Sold out";
+  const until = new Date(entry.until);
+  const sameDay = getLocalTime(timezone, until).date === getLocalTime(timezone).date;
+  return sameDay
+    ? `Sold out · back at ${until.toLocaleTimeString([], { hour: "numeric", minute: "2-digit", timeZone: timezone })}`
+    : "Sold out · back tomorrow";
+};
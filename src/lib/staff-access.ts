@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export interface StaffRole {
+  role: Database["public"]["Enums"]["app_role"];
+  restaurant_id: string | null;
+}
+
+export interface StaffAccess {
+  userId: string;
+  roles: StaffRole[];
+  isAdmin: boolean;
+  // Restaurants the user holds a manager role for
+  managedRestaurantIds: string[];
+  // Restaurants the user works the floor at
+  floorRestaurantIds: string[];
+}
+
+const accessByUser = new Map<string, Promise<StaffAccess>>();
+
+const loadStaffAccess = async (userId: string): Promise<StaffAccess> => {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("role, restaurant_id")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return {
+    userId,
+    roles: data,
+    isAdmin: data.some(r => r.role === "admin"),
+    managedRestaurantIds: data
+      .filter(r => r.role === "manager" && r.restaurant_id)
+      .map(r => r.restaurant_id as string),
+    floorRestaurantIds: data
+      .filter(r => r.role === "floor" && r.restaurant_id)
+      .map(r => r.restaurant_id as string),
+  };
+};
+
+// Roles of the signed-in user, loaded once per user; null when signed out
+export const getStaffAccess = async (): Promise<StaffAccess | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+
+  const userId = session.user.id;
+  if (!accessByUser.has(userId)) {
+    accessByUser.set(userId, loadStaffAccess(userId).catch(error => {
+      accessByUser.delete(userId);
+      throw error;
+    }));
+  }
+  return accessByUser.get(userId)!;
+};
+
+// Forget cached roles, e.g. after an invite has been accepted
+export const clearStaffAccess = () => accessByUser.clear();
+
+export const isStaff = (access: StaffAccess | null) =>
+  !!access && (access.isAdmin || access.managedRestaurantIds.length > 0 || access.floorRestaurantIds.length > 0);
+
+export const canManageRestaurant = (access: StaffAccess | null, restaurantId: string) =>
+  !!access && (access.isAdmin || access.managedRestaurantIds.includes(restaurantId));
+
+// Things managers may do for their own restaurants. Everything else is admin-only.
+const managerActions = ["manage_menu", "edit_restaurant", "view_orders", "mark_sold_out"] as const;
+
+// Floor staff only keep dish availability up to date
+const floorActions: readonly StaffAction[] = ["mark_sold_out"];
+
+export type StaffAction =
+  | typeof managerActions[number]
+  | "create_restaurant"
+  | "delete_restaurant"
+  | "manage_team";
+
+// Without a restaurant id, checks whether the user may do it for any restaurant
+export const can = (access: StaffAccess | null, action: StaffAction, restaurantId?: string) => {
+  if (!access) return false;
+  if (access.isAdmin) return true;
+
+  const restaurantIds = [
+    ...((managerActions as readonly StaffAction[]).includes(action) ? access.managedRestaurantIds : []),
+    ...(floorActions.includes(action) ? access.floorRestaurantIds : []),
+  ];
+  return restaurantId ? restaurantIds.includes(restaurantId) : restaurantIds.length > 0;
+};
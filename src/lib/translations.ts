@@ -0,0 +1,24 @@
+export type TranslatableEntity = "restaurant" | "category" | "item";
+export type TranslatableField = "name" | "description";
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "hi", label: "हिन्दी" },
+  { code: "mr", label: "मराठी" },
+  { code: "ta", label: "தமிழ்" },
+  { code: "te", label: "తెలుగు" },
+  { code: "bn", label: "বাংলা" },
+  { code: "gu", label: "ગુજરાતી" },
+  { code: "kn", label: "ಕನ್ನಡ" },
+  { code: "ar", label: "العربية" },
+  { code: "zh", label: "中文" },
+  { code: "fr", label: "Français" },
+  { code: "de", label: "Deutsch" },
+  { code: "es", label: "Español" },
+  { code: "it", label: "Italiano" },
+];
+
+export const getLanguageLabel = (code: string) => LANGUAGES.find(l => l.code === code)?.label || code;
+
+export const translationKey = (entityType: TranslatableEntity, entityId: string, field: TranslatableField) =>
+  `${entityType}:${entityId}:${field}`;
@@ -0,0 +1,54 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type TrashTable = "restaurants" | "menu_categories" | "menu_items";
+
+export interface TrashTarget {
+  table: TrashTable;
+  id: string;
+  name: string;
+}
+
+// Rows that go to the trash along with the target, or are lost with it on purge
+export interface DeleteImpact {
+  categories: number;
+  menuItems: number;
+  modifierGroups: number;
+}
+
+const countOrThrow = async (query: PromiseLike<{ count: number | null; error: Error | null }>) => {
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const fetchDeleteImpact = async ({ table, id }: TrashTarget): Promise<DeleteImpact> => {
+  const head = { count: "exact" as const, head: true };
+
+  if (table === "restaurants") {
+    const [categories, menuItems] = await Promise.all([
+      countOrThrow(supabase.from("menu_categories").select("id", head).eq("restaurant_id", id)),
+      countOrThrow(
+        supabase.from("menu_items").select("id, menu_categories!inner(restaurant_id)", head).eq("menu_categories.restaurant_id", id)
+      ),
+    ]);
+    return { categories, menuItems, modifierGroups: 0 };
+  }
+
+  if (table === "menu_categories") {
+    const menuItems = await countOrThrow(supabase.from("menu_items").select("id", head).eq("category_id", id));
+    return { categories: 0, menuItems, modifierGroups: 0 };
+  }
+
+  const modifierGroups = await countOrThrow(supabase.from("modifier_groups").select("id", head).eq("menu_item_id", id));
+  return { categories: 0, menuItems: 0, modifierGroups };
+};
+
+export const fetchTrashRetentionDays = async () => {
+  const { data, error } = await supabase.from("app_settings").select("trash_retention_days").maybeSingle();
+
+  if (error) throw error;
+  return data?.trash_retention_days ?? 30;
+};
+
+export const getPurgeDate = (deletedAt: string, retentionDays: number) =>
+  new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, ShieldCheck, Smartphone, UserCog } from "lucide-react";
+import { toast } from "sonner";
+import MfaChallenge from "@/components/auth/MfaChallenge";
+import { useAuth } from "@/hooks/use-auth";
+
+interface Enrollment {
+  id: string;
+  qr_code: string;
+  secret: string;
+}
+
+const Account = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const setupRequired = searchParams.get("setup") === "mfa";
+  const { session, access } = useAuth();
+  const isAdmin = !!access?.isAdmin;
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.mfa.listFactors().then(({ data, error }) => {
+      if (error) {
+        toast.error("Failed to load account");
+        console.error(error);
+      } else {
+        setFactorId(data.totp[0]?.id ?? null);
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast.error("Passwords don't match");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) throw error;
+      setPassword("");
+      setConfirmPassword("");
+      toast.success("Password updated");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update password");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStartEnrollment = async () => {
+    try {
+      // Clear out any earlier set-up that was never finished
+      const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+      if (factorsError) throw factorsError;
+      for (const factor of factors.all.filter(f => f.factor_type === "totp" && f.status === "unverified")) {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: "Authenticator app",
+      });
+
+      if (error) throw error;
+      setEnrollment({ id: data.id, qr_code: data.totp.qr_code, secret: data.totp.secret });
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to start two-factor set-up");
+    }
+  };
+
+  const handleEnrolled = () => {
+    setFactorId(enrollment?.id ?? null);
+    setEnrollment(null);
+    toast.success("Two-factor authentication is on");
+    if (setupRequired) navigate("/admin");
+  };
+
+  const handleDisable = async () => {
+    if (!factorId) return;
+    const warning = isAdmin
+      ? "Turn off two-factor authentication? Admins can't open the dashboard without it."
+      : "Turn off two-factor authentication?";
+    if (!confirm(warning)) return;
+
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+
+      if (error) throw error;
+      setFactorId(null);
+      toast.success("Two-factor authentication is off");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to turn off two-factor authentication");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-card">
+        <div className="container max-w-3xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <UserCog className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Account</h1>
+                <p className="text-sm text-muted-foreground">{session?.user.email}</p>
+              </div>
+            </div>
+            <Button variant="outline" onClick={() => navigate("/admin")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <Card className={setupRequired && !factorId ? "border-primary" : undefined}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Two-factor authentication
+              {factorId && <Badge variant="secondary">On</Badge>}
+            </CardTitle>
+            <CardDescription>
+              {setupRequired && !factorId
+                ? "Admins must set up an authenticator app before using the dashboard."
+                : "Ask for a code from an authenticator app each time you sign in."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {factorId ? (
+              <Button variant="outline" onClick={handleDisable}>
+                Turn off
+              </Button>
+            ) : enrollment ? (
+              <div className="grid gap-6 sm:grid-cols-2">
+                <div className="space-y-3">
+                  <p className="text-sm">
+                    Scan this code with Google Authenticator, 1Password or a similar app.
+                  </p>
+                  <img src={enrollment.qr_code} alt="Authenticator QR code" className="h-44 w-44 rounded-md border bg-white p-2" />
+                  <div className="space-y-1">
+                    <Label htmlFor="totp-secret" className="text-xs text-muted-foreground">Or enter this key</Label>
+                    <Input id="totp-secret" value={enrollment.secret} readOnly className="font-mono text-xs" />
+                  </div>
+                </div>
+                <MfaChallenge factorId={enrollment.id} submitLabel="Turn On" onVerified={handleEnrolled} />
+              </div>
+            ) : (
+              <Button onClick={handleStartEnrollment}>
+                <Smartphone className="h-4 w-4 mr-2" />
+                Set Up Authenticator App
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Change password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleChangePassword} className="space-y-4 max-w-sm">
+              <div className="space-y-2">
+                <Label htmlFor="account-password">New password</Label>
+                <Input
+                  id="account-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={6}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-confirm-password">Confirm password</Label>
+                <Input
+                  id="account-confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={6}
+                />
+              </div>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Update Password"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Account;
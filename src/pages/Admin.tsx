@@ -1,72 +1,37 @@
-import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { LogOut, ShieldCheck } from "lucide-react";
+import { LogOut, ShieldCheck, UserCog } from "lucide-react";
 import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
 import RestaurantsAdmin from "@/components/admin/RestaurantsAdmin";
 import CategoriesAdmin from "@/components/admin/CategoriesAdmin";
 import MenuItemsAdmin from "@/components/admin/MenuItemsAdmin";
+import TablesAdmin from "@/components/admin/TablesAdmin";
+import TranslationsAdmin from "@/components/admin/TranslationsAdmin";
+import TeamAdmin from "@/components/admin/TeamAdmin";
+import ActivityAdmin from "@/components/admin/ActivityAdmin";
+import MenuVersionsAdmin from "@/components/admin/MenuVersionsAdmin";
+import TrashAdmin from "@/components/admin/TrashAdmin";
+import AvailabilityBoard from "@/components/admin/AvailabilityBoard";
+import MediaAdmin from "@/components/admin/MediaAdmin";
 
+// Admins manage every restaurant, managers only the ones they are assigned to,
+// and floor staff only get the availability board.
+// Access and two-factor checks happen in the RequireRole guard around this page.
 const Admin = () => {
   const navigate = useNavigate();
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    checkAdminAccess();
-  }, []);
-
-  const checkAdminAccess = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        navigate("/auth");
-        return;
-      }
-
-      const { data: roles, error } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", user.id)
-        .eq("role", "admin")
-        .single();
-
-      if (error || !roles) {
-        toast.error("Access denied. Admin privileges required.");
-        navigate("/");
-        return;
-      }
-
-      setIsAdmin(true);
-    } catch (error) {
-      console.error("Error checking admin access:", error);
-      navigate("/");
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { access, can } = useAuth();
+  const isAdmin = !!access?.isAdmin;
+  const isFloorOnly = !can("manage_menu");
 
   const handleLogout = async () => {
-    await supabase.auth.signOut();
     navigate("/");
+    await supabase.auth.signOut();
     toast.success("Logged out successfully");
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
-      </div>
-    );
-  }
-
-  if (!isAdmin) {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-background">
       {/* Admin Header */}
@@ -76,39 +41,99 @@ const Admin = () => {
             <div className="flex items-center gap-3">
               <ShieldCheck className="h-8 w-8 text-primary" />
               <div>
-                <h1 className="text-2xl font-bold">Admin Dashboard</h1>
-                <p className="text-sm text-muted-foreground">Manage your restaurants and menus</p>
+                <h1 className="text-2xl font-bold">
+                  {isAdmin ? "Admin Dashboard" : isFloorOnly ? "Floor Dashboard" : "Manager Dashboard"}
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  {isFloorOnly ? "Mark dishes as sold out" : "Manage your restaurants and menus"}
+                </p>
               </div>
             </div>
-            <Button variant="outline" onClick={handleLogout}>
-              <LogOut className="h-4 w-4 mr-2" />
-              Logout
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate("/account")}>
+                <UserCog className="h-4 w-4 mr-2" />
+                Account
+              </Button>
+              <Button variant="outline" onClick={handleLogout}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
       </div>
 
       {/* Admin Content */}
       <div className="container max-w-7xl mx-auto px-4 py-8">
-        <Tabs defaultValue="restaurants" className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-3">
-            <TabsTrigger value="restaurants">Restaurants</TabsTrigger>
-            <TabsTrigger value="categories">Categories</TabsTrigger>
-            <TabsTrigger value="items">Menu Items</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="restaurants">
-            <RestaurantsAdmin />
-          </TabsContent>
-
-          <TabsContent value="categories">
-            <CategoriesAdmin />
-          </TabsContent>
-
-          <TabsContent value="items">
-            <MenuItemsAdmin />
-          </TabsContent>
-        </Tabs>
+        {isFloorOnly ? (
+          <div className="max-w-2xl mx-auto">
+            <AvailabilityBoard />
+          </div>
+        ) : (
+          <Tabs defaultValue="restaurants" className="space-y-6">
+            <TabsList className={`grid w-full max-w-6xl ${isAdmin ? "grid-cols-11" : "grid-cols-9"}`}>
+              <TabsTrigger value="restaurants">Restaurants</TabsTrigger>
+              <TabsTrigger value="categories">Categories</TabsTrigger>
+              <TabsTrigger value="items">Menu Items</TabsTrigger>
+              <TabsTrigger value="availability">Availability</TabsTrigger>
+              <TabsTrigger value="tables">Tables</TabsTrigger>
+              <TabsTrigger value="translations">Translations</TabsTrigger>
+              <TabsTrigger value="publishing">Publishing</TabsTrigger>
+              <TabsTrigger value="activity">Activity</TabsTrigger>
+              <TabsTrigger value="trash">Trash</TabsTrigger>
+              {isAdmin && <TabsTrigger value="media">Media</TabsTrigger>}
+              {isAdmin && <TabsTrigger value="team">Team</TabsTrigger>}
+            </TabsList>
+
+            <TabsContent value="restaurants">
+              <RestaurantsAdmin />
+            </TabsContent>
+
+            <TabsContent value="categories">
+              <CategoriesAdmin />
+            </TabsContent>
+
+            <TabsContent value="items">
+              <MenuItemsAdmin />
+            </TabsContent>
+
+            <TabsContent value="availability">
+              <AvailabilityBoard />
+            </TabsContent>
+
+            <TabsContent value="tables">
+              <TablesAdmin />
+            </TabsContent>
+
+            <TabsContent value="translations">
+              <TranslationsAdmin />
+            </TabsContent>
+
+            <TabsContent value="publishing">
+              <MenuVersionsAdmin />
+            </TabsContent>
+
+            <TabsContent value="activity">
+              <ActivityAdmin />
+            </TabsContent>
+
+            <TabsContent value="trash">
+              <TrashAdmin />
+            </TabsContent>
+
+            {isAdmin && (
+              <TabsContent value="media">
+                <MediaAdmin />
+              </TabsContent>
+            )}
+
+            {isAdmin && (
+              <TabsContent value="team">
+                <TeamAdmin />
+              </TabsContent>
+            )}
+          </Tabs>
+        )}
       </div>
     </div>
   );
@@ -1,37 +1,70 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ChefHat } from "lucide-react";
+import { ChefHat, Mail, MailCheck } from "lucide-react";
 import { toast } from "sonner";
+import { safeNextPath, useAuth } from "@/hooks/use-auth";
+
+interface StaffInvite {
+  email: string;
+  role: string;
+  restaurant_name: string | null;
+  expires_at: string;
+}
 
 const Auth = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get("invite");
+  const nextPath = safeNextPath(searchParams.get("next"));
+  const { session, refreshAccess } = useAuth();
+  const [invite, setInvite] = useState<StaffInvite | null>(null);
+  const entering = useRef(false);
   const [loading, setLoading] = useState(false);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
   useEffect(() => {
-    // Check if user is already logged in
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session) {
-        navigate("/admin");
+    if (!inviteToken) return;
+
+    supabase.rpc("get_staff_invite", { _token: inviteToken }).then(({ data, error }) => {
+      if (error || !data || data.length === 0) {
+        toast.error("This invite link is invalid or has expired");
+        return;
       }
+      setInvite(data[0]);
+      setEmail(data[0].email);
     });
+  }, [inviteToken]);
 
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (event === "SIGNED_IN" && session) {
-        navigate("/admin");
+  useEffect(() => {
+    if (!session || entering.current) return;
+    entering.current = true;
+
+    // Accept a pending invite, then carry on to where the user was headed
+    const enter = async () => {
+      if (inviteToken) {
+        const { error } = await supabase.rpc("redeem_staff_invite", { _token: inviteToken });
+        if (error) {
+          toast.error(error.message);
+        } else {
+          toast.success("Invite accepted. Welcome to the team!");
+          await refreshAccess();
+        }
       }
-    });
+      navigate(nextPath ?? "/admin", { replace: true });
+    };
 
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+    enter();
+  }, [session, inviteToken, nextPath, navigate, refreshAccess]);
+
+  // Links in emails come back to this page, keeping the invite and where to go next
+  const redirectTo = `${window.location.origin}/auth${window.location.search}`;
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,10 +75,15 @@ const Auth = () => {
         email,
         password,
         options: {
-          emailRedirectTo: `${window.location.origin}/admin`,
+          emailRedirectTo: redirectTo,
         },
       });
 
+      // The allow-list trigger on auth.users surfaces as a generic database error
+      if (error?.status === 500) {
+        toast.error("Sign up is by invitation only. Ask an admin to invite you, or use your work email.");
+        return;
+      }
       if (error) throw error;
 
       toast.success("Account created! Please check your email to verify.");
@@ -76,6 +114,52 @@ const Auth = () => {
     }
   };
 
+  const handleMagicLink = async () => {
+    if (!email) {
+      toast.error("Enter your email first");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          shouldCreateUser: false,
+          emailRedirectTo: redirectTo,
+        },
+      });
+
+      if (error) throw error;
+      toast.success("Check your email for a sign-in link");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to send sign-in link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleForgotPassword = async () => {
+    if (!email) {
+      toast.error("Enter your email first");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/auth/reset`,
+      });
+
+      if (error) throw error;
+      toast.success("Check your email for a link to reset your password");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to send reset link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-accent/5 to-background p-4">
       <Card className="w-full max-w-md">
@@ -84,10 +168,26 @@ const Auth = () => {
             <ChefHat className="h-12 w-12 text-primary" />
           </div>
           <CardTitle className="text-2xl">Admin Access</CardTitle>
-          <CardDescription>Sign in to manage your restaurants</CardDescription>
+          <CardDescription>
+            {nextPath ? "Sign in to continue where you left off" : "Sign in to manage your restaurants"}
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="signin" className="w-full">
+          {invite && (
+            <div className="mb-4 flex gap-3 rounded-lg border bg-muted/50 p-3 text-sm">
+              <MailCheck className="h-5 w-5 shrink-0 text-primary" />
+              <p>
+                You've been invited to join as{" "}
+                <span className="font-medium">
+                  {invite.role === "admin"
+                    ? "an admin"
+                    : `${invite.role === "floor" ? "floor staff at" : "manager of"} ${invite.restaurant_name}`}
+                </span>
+                . Sign up or sign in with <span className="font-medium">{invite.email}</span> to accept.
+              </p>
+            </div>
+          )}
+          <Tabs defaultValue={inviteToken ? "signup" : "signin"} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="signin">Sign In</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -107,7 +207,18 @@ const Auth = () => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="password-signin">Password</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password-signin">Password</Label>
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="h-auto p-0 text-xs"
+                      onClick={handleForgotPassword}
+                      disabled={loading}
+                    >
+                      Forgot password?
+                    </Button>
+                  </div>
                   <Input
                     id="password-signin"
                     type="password"
@@ -119,11 +230,20 @@ const Auth = () => {
                 <Button type="submit" className="w-full" disabled={loading}>
                   {loading ? "Signing in..." : "Sign In"}
                 </Button>
+                <Button type="button" variant="outline" className="w-full" onClick={handleMagicLink} disabled={loading}>
+                  <Mail className="h-4 w-4 mr-2" />
+                  Email me a sign-in link
+                </Button>
               </form>
             </TabsContent>
 
             <TabsContent value="signup">
               <form onSubmit={handleSignUp} className="space-y-4">
+                {!invite && (
+                  <p className="text-sm text-muted-foreground">
+                    Accounts are for restaurant staff. Use the email your invite was sent to, or your work email.
+                  </p>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="email-signup">Email</Label>
                   <Input
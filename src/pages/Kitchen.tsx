@@ -0,0 +1,478 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Armchair, BellRing, Check, ChefHat, Clock, Receipt, Volume2, VolumeX, X } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+
+interface Restaurant {
+  id: string;
+  name: string;
+  theme_color: string;
+  background_color: string;
+  text_color: string;
+  card_color: string;
+  card_text_color: string;
+  price_color: string;
+  category_header_color: string;
+  button_color: string;
+  button_text_color: string;
+  border_color: string;
+  font_family: string;
+}
+
+type OrderStatus = "new" | "preparing" | "ready" | "served" | "cancelled";
+
+interface OrderItem {
+  id: string;
+  item_name: string;
+  quantity: number;
+  modifiers: { name: string }[];
+}
+
+interface Order {
+  id: string;
+  status: OrderStatus;
+  customer_name: string | null;
+  notes: string | null;
+  table_number: string | null;
+  created_at: string;
+  order_items: OrderItem[];
+}
+
+type ServiceRequestType = "call_waiter" | "bill" | "water";
+
+interface ServiceRequest {
+  id: string;
+  request_type: ServiceRequestType;
+  table_number: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+const SERVICE_REQUEST_LABELS: Record<ServiceRequestType, string> = {
+  call_waiter: "Waiter",
+  bill: "Bill",
+  water: "Water",
+};
+
+const COLUMNS: { status: OrderStatus; title: string; action?: string; next?: OrderStatus }[] = [
+  { status: "new", title: "New", action: "Start", next: "preparing" },
+  { status: "preparing", title: "Preparing", action: "Ready", next: "ready" },
+  { status: "ready", title: "Ready", action: "Served", next: "served" },
+  { status: "served", title: "Served" },
+];
+
+// Orders older than this drop off the board
+const BOARD_WINDOW_HOURS = 12;
+
+const ORDER_SELECT = "id, status, customer_name, notes, table_number, created_at, order_items(id, item_name, quantity, modifiers)";
+
+const minutesSince = (timestamp: string) => Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000));
+
+// Two short rising tones, generated so no audio asset is needed
+const playNewOrderAlert = (context: AudioContext) => {
+  [880, 1320].forEach((frequency, index) => {
+    const start = context.currentTime + index * 0.2;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.18);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.2);
+  });
+};
+
+const Kitchen = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [serviceRequests, setServiceRequests] = useState<ServiceRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [, setTick] = useState(0);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  useEffect(() => {
+    if (slug) {
+      loadKitchen();
+    }
+  }, [slug]);
+
+  // Keep the "minutes waiting" counters fresh
+  useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadKitchen = async () => {
+    try {
+      const { data: restaurantData, error: restaurantError } = await supabase
+        .from("restaurants")
+        .select("*")
+        .eq("slug", slug)
+        .single();
+
+      if (restaurantError) throw restaurantError;
+
+      if (!can("view_orders", restaurantData.id)) {
+        toast.error("Access denied. Kitchen staff only.");
+        navigate("/");
+        return;
+      }
+
+      setRestaurant(restaurantData);
+
+      const since = new Date(Date.now() - BOARD_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+      const { data: ordersData, error: ordersError } = await supabase
+        .from("orders")
+        .select(ORDER_SELECT)
+        .eq("restaurant_id", restaurantData.id)
+        .neq("status", "cancelled")
+        .gte("created_at", since)
+        .order("created_at");
+
+      if (ordersError) throw ordersError;
+      setOrders((ordersData || []) as unknown as Order[]);
+
+      const { data: requestsData, error: requestsError } = await supabase
+        .from("service_requests")
+        .select("id, request_type, table_number, resolved_at, created_at")
+        .eq("restaurant_id", restaurantData.id)
+        .is("resolved_at", null)
+        .gte("created_at", since)
+        .order("created_at");
+
+      if (requestsError) throw requestsError;
+      setServiceRequests((requestsData || []) as ServiceRequest[]);
+    } catch (error) {
+      toast.error("Failed to load kitchen orders");
+      console.error("Error loading kitchen:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshOrder = useCallback(async (orderId: string) => {
+    const { data, error } = await supabase
+      .from("orders")
+      .select(ORDER_SELECT)
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error refreshing order:", error);
+      return;
+    }
+
+    const order = data as unknown as Order | null;
+    setOrders(current => {
+      const others = current.filter(o => o.id !== orderId);
+      if (!order || order.status === "cancelled") return others;
+      return [...others, order].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!restaurant) return;
+
+    const channel = supabase
+      .channel(`kitchen-${restaurant.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "orders", filter: `restaurant_id=eq.${restaurant.id}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            setOrders(current => current.filter(o => o.id !== (payload.old as { id: string }).id));
+            return;
+          }
+
+          const changed = payload.new as { id: string };
+          // Change events carry the order row only, so the ticket is re-read
+          // with its items
+          refreshOrder(changed.id);
+
+          if (payload.eventType === "INSERT") {
+            toast.success("New order received");
+            if (audioContextRef.current) {
+              playNewOrderAlert(audioContextRef.current);
+            }
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "service_requests", filter: `restaurant_id=eq.${restaurant.id}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            setServiceRequests(current => current.filter(r => r.id !== (payload.old as { id: string }).id));
+            return;
+          }
+
+          const request = payload.new as ServiceRequest;
+          if (request.resolved_at) {
+            setServiceRequests(current => current.filter(r => r.id !== request.id));
+            return;
+          }
+
+          setServiceRequests(current => [...current.filter(r => r.id !== request.id), request]);
+          if (payload.eventType === "INSERT") {
+            toast.info(`Table ${request.table_number ?? "?"}: ${SERVICE_REQUEST_LABELS[request.request_type].toLowerCase()} requested`);
+            if (audioContextRef.current) {
+              playNewOrderAlert(audioContextRef.current);
+            }
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [restaurant, refreshOrder]);
+
+  const toggleSound = () => {
+    if (soundEnabled) {
+      audioContextRef.current?.suspend();
+      setSoundEnabled(false);
+      return;
+    }
+
+    // Browsers only allow audio after a user gesture, so it is created here
+    audioContextRef.current = audioContextRef.current || new AudioContext();
+    audioContextRef.current.resume();
+    playNewOrderAlert(audioContextRef.current);
+    setSoundEnabled(true);
+  };
+
+  const updateStatus = async (order: Order, status: OrderStatus) => {
+    const previous = orders;
+    setOrders(current => current.map(o => (o.id === order.id ? { ...o, status } : o)));
+
+    try {
+      const { error } = await supabase
+        .from("orders")
+        .update({ status })
+        .eq("id", order.id);
+
+      if (error) throw error;
+    } catch (error) {
+      setOrders(previous);
+      toast.error((error as Error).message || "Failed to update order");
+    }
+  };
+
+  const resolveServiceRequest = async (request: ServiceRequest) => {
+    const previous = serviceRequests;
+    setServiceRequests(current => current.filter(r => r.id !== request.id));
+
+    try {
+      const { error } = await supabase
+        .from("service_requests")
+        .update({ resolved_at: new Date().toISOString() })
+        .eq("id", request.id);
+
+      if (error) throw error;
+    } catch (error) {
+      setServiceRequests(previous);
+      toast.error((error as Error).message || "Failed to resolve request");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!restaurant) {
+    return null;
+  }
+
+  const fontLink = restaurant.font_family && restaurant.font_family !== 'Inter'
+    ? `https://fonts.googleapis.com/css2?family=${restaurant.font_family.replace(' ', '+')}:wght@400;500;600;700&display=swap`
+    : null;
+
+  const accentColor = restaurant.button_color || restaurant.theme_color;
+
+  return (
+    <div
+      className="min-h-screen flex flex-col"
+      style={{
+        backgroundColor: restaurant.background_color,
+        color: restaurant.text_color,
+        fontFamily: `'${restaurant.font_family || 'Inter'}', sans-serif`
+      }}
+    >
+      {fontLink && (
+        <link rel="stylesheet" href={fontLink} />
+      )}
+
+      {/* Header */}
+      <div className="border-b px-4 py-4" style={{ backgroundColor: restaurant.card_color, borderColor: restaurant.border_color }}>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3" style={{ color: restaurant.card_text_color }}>
+            <ChefHat className="h-8 w-8" style={{ color: accentColor }} />
+            <div>
+              <h1 className="text-2xl font-bold">{restaurant.name}</h1>
+              <p className="text-sm" style={{ opacity: 0.7 }}>Kitchen Display</p>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={toggleSound}
+            style={{ borderColor: restaurant.border_color, color: restaurant.card_text_color, backgroundColor: "transparent" }}
+          >
+            {soundEnabled ? <Volume2 className="h-4 w-4 mr-2" /> : <VolumeX className="h-4 w-4 mr-2" />}
+            {soundEnabled ? "Sound on" : "Enable sound"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Service Requests */}
+      {serviceRequests.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 border-b px-4 py-3" style={{ borderColor: restaurant.border_color }}>
+          <span className="text-sm font-semibold" style={{ color: restaurant.category_header_color || restaurant.theme_color }}>
+            Service
+          </span>
+          {serviceRequests.map(request => (
+            <div
+              key={request.id}
+              className="flex items-center gap-2 rounded-md border py-1 pl-3 pr-1 text-sm animate-scale-in"
+              style={{ backgroundColor: restaurant.card_color, borderColor: restaurant.border_color, color: restaurant.card_text_color }}
+            >
+              {request.request_type === "bill" ? <Receipt className="h-4 w-4" /> : <BellRing className="h-4 w-4" />}
+              <span className="font-semibold">Table {request.table_number ?? "?"}</span>
+              <span>{SERVICE_REQUEST_LABELS[request.request_type]}</span>
+              <span style={{ opacity: 0.7 }}>{minutesSince(request.created_at)} min</span>
+              <Button
+                size="icon"
+                className="h-7 w-7"
+                title="Mark as handled"
+                onClick={() => resolveServiceRequest(request)}
+                style={{ backgroundColor: accentColor, color: restaurant.button_text_color }}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Ticket Columns */}
+      <div className="flex-1 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 p-4">
+        {COLUMNS.map(column => {
+          const columnOrders = orders.filter(o => o.status === column.status);
+
+          return (
+            <div
+              key={column.status}
+              className="flex flex-col rounded-lg border min-h-[300px]"
+              style={{ borderColor: restaurant.border_color }}
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b" style={{ borderColor: restaurant.border_color }}>
+                <h2 className="text-lg font-bold" style={{ color: restaurant.category_header_color || restaurant.theme_color }}>
+                  {column.title}
+                </h2>
+                <Badge style={{ backgroundColor: accentColor, color: restaurant.button_text_color }}>
+                  {columnOrders.length}
+                </Badge>
+              </div>
+
+              <ScrollArea className="flex-1">
+                <div className="p-3 space-y-3">
+                  {columnOrders.map(order => (
+                    <Card
+                      key={order.id}
+                      className="animate-scale-in"
+                      style={{ backgroundColor: restaurant.card_color, borderColor: restaurant.border_color, color: restaurant.card_text_color }}
+                    >
+                      <CardHeader className="p-4 pb-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-mono font-bold">#{order.id.slice(0, 8).toUpperCase()}</span>
+                          <span className="flex items-center gap-1 text-sm" style={{ opacity: 0.7 }}>
+                            <Clock className="h-3.5 w-3.5" />
+                            {minutesSince(order.created_at)} min
+                          </span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          {order.table_number && (
+                            <Badge variant="outline" className="gap-1" style={{ borderColor: restaurant.border_color, color: restaurant.card_text_color }}>
+                              <Armchair className="h-3 w-3" />
+                              Table {order.table_number}
+                            </Badge>
+                          )}
+                          {order.customer_name && <span style={{ opacity: 0.8 }}>{order.customer_name}</span>}
+                        </div>
+                      </CardHeader>
+                      <CardContent className="p-4 pt-0 space-y-3">
+                        <ul className="space-y-1.5">
+                          {order.order_items.map(item => (
+                            <li key={item.id}>
+                              <span className="font-semibold" style={{ color: restaurant.price_color || restaurant.theme_color }}>
+                                {item.quantity}×
+                              </span>{" "}
+                              {item.item_name}
+                              {item.modifiers.length > 0 && (
+                                <p className="text-xs pl-6" style={{ opacity: 0.7 }}>
+                                  {item.modifiers.map(m => m.name).join(", ")}
+                                </p>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                        {order.notes && (
+                          <p className="text-sm rounded-md p-2 border" style={{ borderColor: restaurant.border_color }}>
+                            {order.notes}
+                          </p>
+                        )}
+                        {column.next && (
+                          <div className="flex gap-2">
+                            <Button
+                              className="flex-1 font-semibold"
+                              onClick={() => updateStatus(order, column.next!)}
+                              style={{ backgroundColor: accentColor, color: restaurant.button_text_color }}
+                            >
+                              {column.action}
+                            </Button>
+                            {column.status === "new" && (
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                title="Cancel order"
+                                onClick={() => confirm("Cancel this order?") && updateStatus(order, "cancelled")}
+                                style={{ borderColor: restaurant.border_color, color: restaurant.card_text_color, backgroundColor: "transparent" }}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+
+                  {columnOrders.length === 0 && (
+                    <p className="text-center text-sm py-8" style={{ opacity: 0.5 }}>No orders</p>
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Kitchen;
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ChefHat, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { getAllergen } from "@/lib/allergens";
+import { describeWindows, type AvailabilityWindow } from "@/lib/availability";
+import { formatPrice, getAlternatePrice, type PriceSettings } from "@/lib/pricing";
+import { fetchPublishedMenu, getVisibleMenu } from "@/lib/menu-versions";
+
+interface Restaurant extends PriceSettings {
+  id: string;
+  name: string;
+  description: string | null;
+  logo_url: string | null;
+  theme_color: string;
+  price_color: string;
+  category_header_color: string;
+  font_family: string;
+  contact_phone: string | null;
+  address: string | null;
+}
+
+interface Category {
+  id: string;
+  name: string;
+  description: string | null;
+  availability_windows: AvailabilityWindow[];
+}
+
+interface MenuItem {
+  id: string;
+  category_id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  is_vegetarian: boolean;
+  is_vegan: boolean;
+  is_spicy: boolean;
+  menu_item_allergens: { allergen_id: string }[];
+  availability_windows: AvailabilityWindow[];
+}
+
+// Paper version of the menu: white page, restaurant font and accent colours
+const MenuPrint = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (slug) {
+      fetchMenu();
+    }
+  }, [slug]);
+
+  // Open the print dialog once the menu and its web font have rendered
+  useEffect(() => {
+    if (!loading && restaurant) {
+      document.fonts.ready.then(() => window.print());
+    }
+  }, [loading, restaurant]);
+
+  const fetchMenu = async () => {
+    try {
+      const { data: restaurantData, error: restaurantError } = await supabase
+        .from("restaurants")
+        .select("*")
+        .eq("slug", slug)
+        .eq("is_active", true)
+        .single();
+
+      if (restaurantError) throw restaurantError;
+      setRestaurant(restaurantData);
+
+      const menu = getVisibleMenu(await fetchPublishedMenu(restaurantData.id));
+      setCategories(menu.categories);
+      setMenuItems(menu.items);
+    } catch (error) {
+      toast.error("Failed to load menu");
+      console.error("Error fetching menu:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen flex items-center justify-center">Preparing menu...</div>;
+  }
+
+  if (!restaurant) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <ChefHat className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Restaurant not found</h1>
+        </div>
+      </div>
+    );
+  }
+
+  const fontLink = restaurant.font_family && restaurant.font_family !== 'Inter'
+    ? `https://fonts.googleapis.com/css2?family=${restaurant.font_family.replace(' ', '+')}:wght@400;500;600;700&display=swap`
+    : null;
+  const headerColor = restaurant.category_header_color || restaurant.theme_color;
+  const priceColor = restaurant.price_color || restaurant.theme_color;
+
+  return (
+    <div
+      className="min-h-screen bg-white text-neutral-900"
+      style={{
+        fontFamily: `'${restaurant.font_family || 'Inter'}', sans-serif`,
+        printColorAdjust: "exact",
+        WebkitPrintColorAdjust: "exact",
+      }}
+    >
+      {fontLink && <link rel="stylesheet" href={fontLink} />}
+      <style>{"@page { size: A4; margin: 14mm; }"}</style>
+
+      <div className="print:hidden sticky top-0 z-10 flex items-center justify-between gap-4 border-b bg-white px-6 py-3">
+        <p className="text-sm text-neutral-500">Choose "Save as PDF" as the destination to download this menu.</p>
+        <Button onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <div className="mx-auto max-w-3xl px-8 py-10 print:p-0">
+        <header className="text-center space-y-3 pb-6 mb-8 border-b-2" style={{ borderColor: headerColor }}>
+          {restaurant.logo_url && (
+            <img src={restaurant.logo_url} alt="" className="h-20 w-20 rounded-full object-cover mx-auto" />
+          )}
+          <h1 className="text-4xl font-bold" style={{ color: headerColor }}>{restaurant.name}</h1>
+          {restaurant.description && <p className="text-neutral-600">{restaurant.description}</p>}
+          {(restaurant.address || restaurant.contact_phone) && (
+            <p className="text-sm text-neutral-500">
+              {[restaurant.address, restaurant.contact_phone].filter(Boolean).join(" · ")}
+            </p>
+          )}
+        </header>
+
+        {categories.map(category => {
+          const items = menuItems.filter(item => item.category_id === category.id);
+          if (items.length === 0) return null;
+
+          return (
+            <section key={category.id} className="mb-8">
+              <div className="mb-4 break-after-avoid">
+                <h2 className="text-2xl font-bold" style={{ color: headerColor }}>{category.name}</h2>
+                {category.availability_windows.length > 0 && (
+                  <p className="text-xs uppercase tracking-wide text-neutral-500">
+                    {describeWindows(category.availability_windows)}
+                  </p>
+                )}
+                {category.description && <p className="text-sm text-neutral-600">{category.description}</p>}
+              </div>
+
+              <div className="space-y-4">
+                {items.map(item => {
+                  const allergens = item.menu_item_allergens
+                    .map(a => getAllergen(a.allergen_id)?.label)
+                    .filter(Boolean);
+                  const tags = [
+                    item.is_vegan ? "Vegan" : item.is_vegetarian ? "Vegetarian" : null,
+                    item.is_spicy ? "Spicy" : null,
+                    item.availability_windows.length > 0 ? describeWindows(item.availability_windows) : null,
+                  ].filter(Boolean);
+
+                  return (
+                    <div key={item.id} className="break-inside-avoid">
+                      <div className="flex items-baseline gap-2">
+                        <h3 className="font-semibold">{item.name}</h3>
+                        <span className="flex-1 border-b border-dotted border-neutral-300" />
+                        <span className="font-semibold whitespace-nowrap" style={{ color: priceColor }}>
+                          {formatPrice(item.price, restaurant)}
+                        </span>
+                      </div>
+                      {item.description && <p className="text-sm text-neutral-600">{item.description}</p>}
+                      {(tags.length > 0 || allergens.length > 0) && (
+                        <p className="text-xs text-neutral-500 mt-0.5">
+                          {tags.join(" · ")}
+                          {tags.length > 0 && allergens.length > 0 && " · "}
+                          {allergens.length > 0 && `Contains: ${allergens.join(", ")}`}
+                        </p>
+                      )}
+                      {getAlternatePrice(item.price, restaurant) && (
+                        <p className="text-xs text-neutral-500">{getAlternatePrice(item.price, restaurant)}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+
+        {restaurant.tax_rate > 0 && (
+          <p className="text-center text-xs text-neutral-500 pt-4 border-t">
+            Prices {restaurant.prices_include_tax ? "include" : "exclude"} {restaurant.tax_rate}% tax.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MenuPrint;
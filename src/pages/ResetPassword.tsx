@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { KeyRound } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+
+// Landing page for the password reset email. The link signs the user in with a
+// recovery session, which is only good for choosing a new password.
+const ResetPassword = () => {
+  const navigate = useNavigate();
+  // The auth provider waits for the client to read the recovery token from the URL
+  const { session, loading } = useAuth();
+  const hasSession = !!session;
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast.error("Passwords don't match");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) throw error;
+      toast.success("Password updated");
+      navigate("/admin");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to update password");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-accent/5 to-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <KeyRound className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Choose a new password</CardTitle>
+          <CardDescription>
+            {hasSession ? "Enter a new password for your account" : "This reset link is invalid or has expired"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {hasSession ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={6}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={6}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving ? "Saving..." : "Update Password"}
+              </Button>
+            </form>
+          ) : (
+            <Button className="w-full" onClick={() => navigate("/auth")}>
+              Request a new link
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -1,16 +1,41 @@
-import { useEffect, useState } from "react";
-import { useParams } from "react-router-dom";
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { ChefHat, Flame, Menu as MenuIcon, Phone, MapPin, X, Minus, Plus, Search } from "lucide-react";
+import { ChefHat, Flame, Menu as MenuIcon, Phone, MapPin, X, Minus, Plus, Search, Armchair, BellRing, Receipt, ShieldAlert, Languages, Clock, Eye } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCart } from "@/hooks/use-cart";
+import { useTableSession } from "@/hooks/use-table-session";
+import { useMenuTranslations } from "@/hooks/use-menu-translations";
+import CartSheet from "@/components/menu/CartSheet";
+import ModifierSelector from "@/components/menu/ModifierSelector";
+import ResponsiveImage from "@/components/menu/ResponsiveImage";
+import { formatPrice, getAlternatePrice, type PriceSettings } from "@/lib/pricing";
+import { getOpenStatus, type OpeningSchedule } from "@/lib/opening-hours";
+import { describeWindows, isWithinWindows, type AvailabilityWindow } from "@/lib/availability";
+import { useNow } from "@/hooks/use-now";
+import {
+  defaultSelection,
+  getSelectedOptions,
+  getSelectionError,
+  type ModifierGroup,
+  type ModifierSelection,
+} from "@/lib/modifiers";
+import { ALLERGENS, getAllergen } from "@/lib/allergens";
+import { getLanguageLabel } from "@/lib/translations";
+import { fetchMenuPreview, fetchPublishedMenu, getVisibleMenu, type MenuSnapshot } from "@/lib/menu-versions";
+import { describeSoldOut, fetchSoldOutItems, isSoldOut, type SoldOutItem } from "@/lib/sold-out";
+import type { Json } from "@/integrations/supabase/types";
 
 // Veg and Non-Veg Icon Components
 const VegIcon = ({ className = "" }: { className?: string }) => (
@@ -25,12 +50,14 @@ const NonVegIcon = ({ className = "" }: { className?: string }) => (
   </div>
 );
 
-interface Restaurant {
+interface Restaurant extends PriceSettings, OpeningSchedule {
   id: string;
   name: string;
   description: string | null;
   logo_url: string | null;
+  logo_meta: Json | null;
   banner_image_url: string | null;
+  banner_meta: Json | null;
   theme_color: string;
   background_color: string;
   text_color: string;
@@ -46,6 +73,8 @@ interface Restaurant {
   font_family: string;
   contact_phone: string | null;
   address: string | null;
+  default_locale: string;
+  supported_locales: string[];
 }
 
 interface Category {
@@ -53,6 +82,7 @@ interface Category {
   name: string;
   description: string | null;
   display_order: number;
+  availability_windows: AvailabilityWindow[];
 }
 
 interface MenuItem {
@@ -62,13 +92,19 @@ interface MenuItem {
   description: string | null;
   price: number;
   image_url: string | null;
+  image_meta?: Json | null;
   is_vegetarian: boolean;
   is_vegan: boolean;
   is_spicy: boolean;
+  menu_item_allergens: { allergen_id: string }[];
+  availability_windows: AvailabilityWindow[];
 }
 
 const RestaurantMenu = () => {
-  const { slug } = useParams<{ slug: string }>();
+  const { slug, tableCode } = useParams<{ slug: string; tableCode?: string }>();
+  const [searchParams] = useSearchParams();
+  const previewToken = searchParams.get("preview");
+  const [isPreview, setIsPreview] = useState(false);
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
@@ -76,9 +112,18 @@ const RestaurantMenu = () => {
   const [activeCategory, setActiveCategory] = useState<string>("");
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
   const [quantity, setQuantity] = useState(1);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [soldOut, setSoldOut] = useState<SoldOutItem[]>([]);
+  const [modifierSelection, setModifierSelection] = useState<ModifierSelection>({});
   const [dietFilter, setDietFilter] = useState<"all" | "veg" | "non-veg">("all");
+  const [excludedAllergens, setExcludedAllergens] = useState<string[]>([]);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const cart = useCart(slug);
+  const table = useTableSession(slug, tableCode, restaurant?.id);
+  const { locale, setLocale, translate } = useMenuTranslations(slug, restaurant);
+  const [requestingService, setRequestingService] = useState(false);
+  const now = useNow();
 
   useEffect(() => {
     if (slug) {
@@ -86,12 +131,62 @@ const RestaurantMenu = () => {
     }
   }, [slug]);
 
+  // Also used for live updates, so the open dish and category are kept when they still exist
+  const applyMenu = useCallback((snapshot: MenuSnapshot) => {
+    const menu = getVisibleMenu(snapshot);
+    setCategories(menu.categories);
+    setActiveCategory(current =>
+      menu.categories.some(c => c.id === current) ? current : menu.categories[0]?.id ?? ""
+    );
+    setMenuItems(menu.items);
+    setModifierGroups(menu.modifierGroups);
+    setSelectedItem(current => current && (menu.items.find(i => i.id === current.id) ?? null));
+  }, []);
+
+  // Diners see the published menu, not the staff draft, so edits reach open
+  // pages when a new version is published. Sold-out marks, from the
+  // availability board or the "Available now" switch in the menu editor, are
+  // live and apply straight away.
+  useEffect(() => {
+    if (!restaurant || isPreview) return;
+
+    const channel = supabase
+      .channel(`menu-${restaurant.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "sold_out_items", filter: `restaurant_id=eq.${restaurant.id}` },
+        (payload) => {
+          const changed = payload.new as SoldOutItem;
+          setSoldOut(current => [...current.filter(s => s.menu_item_id !== changed.menu_item_id), changed]);
+          toast("Menu updated", { id: "menu-availability", description: "Dish availability has changed." });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "menu_versions", filter: `restaurant_id=eq.${restaurant.id}` },
+        async () => {
+          // Snapshots can be large, so re-read the menu rather than trusting the payload
+          try {
+            applyMenu(await fetchPublishedMenu(restaurant.id));
+            toast("Menu updated", { description: "The restaurant has published changes to the menu." });
+          } catch (error) {
+            console.error("Error refreshing menu:", error);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [restaurant, isPreview, applyMenu]);
+
   const fetchRestaurantData = async () => {
     try {
       // Fetch restaurant
       const { data: restaurantData, error: restaurantError } = await supabase
         .from("restaurants")
-        .select("*")
+        .select("*, opening_hours(day_of_week, opens_at, closes_at), opening_hour_overrides(id, date, is_closed, opens_at, closes_at, note)")
         .eq("slug", slug)
         .eq("is_active", true)
         .single();
@@ -99,30 +194,16 @@ const RestaurantMenu = () => {
       if (restaurantError) throw restaurantError;
       setRestaurant(restaurantData);
 
-      // Fetch categories
-      const { data: categoriesData, error: categoriesError } = await supabase
-        .from("menu_categories")
-        .select("*")
-        .eq("restaurant_id", restaurantData.id)
-        .eq("is_active", true)
-        .order("display_order");
-
-      if (categoriesError) throw categoriesError;
-      setCategories(categoriesData || []);
-      if (categoriesData && categoriesData.length > 0) {
-        setActiveCategory(categoriesData[0].id);
+      // Diners get the published menu; staff previews carry a token for the draft
+      let snapshot = previewToken ? await fetchMenuPreview(restaurantData.id, previewToken) : null;
+      if (previewToken && !snapshot) {
+        toast.error("This preview link is invalid or has expired");
       }
+      setIsPreview(!!snapshot);
+      snapshot = snapshot ?? await fetchPublishedMenu(restaurantData.id);
 
-      // Fetch menu items
-      const { data: itemsData, error: itemsError } = await supabase
-        .from("menu_items")
-        .select("*")
-        .in("category_id", (categoriesData || []).map(c => c.id))
-        .eq("is_available", true)
-        .order("display_order");
-
-      if (itemsError) throw itemsError;
-      setMenuItems(itemsData || []);
+      applyMenu(snapshot);
+      setSoldOut(await fetchSoldOutItems(restaurantData.id));
     } catch (error: any) {
       toast.error("Failed to load menu");
       console.error("Error fetching menu:", error);
@@ -145,17 +226,87 @@ const RestaurantMenu = () => {
     }
   };
 
+  const getItemModifierGroups = (itemId: string) => {
+    return modifierGroups.filter(group => group.menu_item_id === itemId);
+  };
+
+  const openItem = (item: MenuItem) => {
+    setSelectedItem(item);
+    setQuantity(1);
+    setModifierSelection(defaultSelection(getItemModifierGroups(item.id)));
+  };
+
+  const getSoldOutEntry = (itemId: string) => {
+    const entry = soldOut.find(s => s.menu_item_id === itemId);
+    return isSoldOut(entry, now) ? entry : undefined;
+  };
+
+  const selectedItemGroups = selectedItem ? getItemModifierGroups(selectedItem.id) : [];
+  const selectedSoldOut = selectedItem ? getSoldOutEntry(selectedItem.id) : undefined;
+  const selectedOptions = getSelectedOptions(selectedItemGroups, modifierSelection);
+  const selectionError = getSelectionError(selectedItemGroups, modifierSelection);
+  const selectedUnitPrice = selectedItem
+    ? selectedItem.price + selectedOptions.reduce((sum, option) => sum + option.price_delta, 0)
+    : 0;
+
+  const openStatus = restaurant ? getOpenStatus(restaurant, now) : null;
+  // Shown instead of ordering controls outside service hours
+  const closedMessage = isPreview
+    ? "Ordering is off while previewing"
+    : openStatus && !openStatus.isOpen ? `Ordering is closed · ${openStatus.label}` : null;
+
+  const handleAddToCart = () => {
+    if (!selectedItem || selectionError || closedMessage || selectedSoldOut) return;
+    cart.addItem({
+      menu_item_id: selectedItem.id,
+      name: translate("item", selectedItem.id, "name", selectedItem.name),
+      unit_price: selectedUnitPrice,
+      quantity,
+      modifiers: selectedOptions.map(({ id, name, price_delta }) => ({ id, name, price_delta })),
+    });
+    toast.success(`Added ${quantity} × ${translate("item", selectedItem.id, "name", selectedItem.name)} to your order`);
+    setSelectedItem(null);
+  };
+
+  const handleServiceRequest = async (requestType: "call_waiter" | "bill") => {
+    if (!restaurant || !table) return;
+
+    setRequestingService(true);
+    try {
+      const { error } = await supabase
+        .from("service_requests")
+        .insert([{ restaurant_id: restaurant.id, table_id: table.id, request_type: requestType }]);
+
+      if (error) throw error;
+      toast.success(requestType === "bill" ? "The bill is on its way" : "A waiter will be with you shortly");
+    } catch (error) {
+      toast.error("Failed to send request");
+      console.error("Error requesting service:", error);
+    } finally {
+      setRequestingService(false);
+    }
+  };
+
   const getCategoryItems = (categoryId: string) => {
     return menuItems.filter(item => {
       if (item.category_id !== categoryId) return false;
+
+      // Hide dishes outside their daypart
+      if (restaurant && !isWithinWindows(item.availability_windows, restaurant.timezone, now)) return false;
       
       // Search filter
       if (searchQuery.trim()) {
         const query = searchQuery.toLowerCase();
-        const matchesSearch = item.name.toLowerCase().includes(query) || 
-          (item.description?.toLowerCase().includes(query) ?? false);
+        const name = translate("item", item.id, "name", item.name);
+        const description = translate("item", item.id, "description", item.description);
+        const matchesSearch = name.toLowerCase().includes(query) || 
+          (description?.toLowerCase().includes(query) ?? false);
         if (!matchesSearch) return false;
       }
+
+      if (item.menu_item_allergens.some(a => excludedAllergens.includes(a.allergen_id))) {
+        return false;
+      }
       
       if (dietFilter === "veg") {
         return item.is_vegetarian || item.is_vegan;
@@ -194,6 +345,8 @@ const RestaurantMenu = () => {
     );
   }
 
+  const servedCategories = categories.filter(c => isWithinWindows(c.availability_windows, restaurant.timezone, now));
+
   const CategoryNav = ({ mobile = false }: { mobile?: boolean }) => (
     <nav className={mobile ? "space-y-2" : "sticky top-24 space-y-2"}>
       <h3 
@@ -202,7 +355,7 @@ const RestaurantMenu = () => {
       >
         Categories
       </h3>
-      {categories.map(category => (
+      {servedCategories.map(category => (
         <button
           key={category.id}
           onClick={() => scrollToCategory(category.id, mobile)}
@@ -224,7 +377,7 @@ const RestaurantMenu = () => {
                 }
           }
         >
-          {category.name}
+          {translate("category", category.id, "name", category.name)}
         </button>
       ))}
     </nav>
@@ -238,6 +391,7 @@ const RestaurantMenu = () => {
   return (
     <div 
       className="min-h-screen" 
+      lang={locale || undefined}
       style={{ 
         backgroundColor: restaurant.background_color,
         color: restaurant.text_color,
@@ -249,13 +403,22 @@ const RestaurantMenu = () => {
         <link rel="stylesheet" href={fontLink} />
       )}
 
+      {isPreview && (
+        <div className="flex items-center justify-center gap-2 bg-amber-400 px-4 py-2 text-sm font-medium text-amber-950">
+          <Eye className="h-4 w-4" />
+          Preview of unpublished changes. Diners still see the published menu.
+        </div>
+      )}
+
       {/* Header Banner */}
       <div className="relative h-56 sm:h-64 md:h-80 lg:h-96 overflow-hidden">
         {restaurant.banner_image_url ? (
           <>
-            <img
+            <ResponsiveImage
               src={restaurant.banner_image_url}
-              alt={restaurant.name}
+              meta={restaurant.banner_meta}
+              sizes="100vw"
+              alt={translate("restaurant", restaurant.id, "name", restaurant.name)}
               className="w-full h-full object-cover"
             />
             <div 
@@ -287,8 +450,10 @@ const RestaurantMenu = () => {
                     className="absolute inset-0 blur-xl rounded-full" 
                     style={{ backgroundColor: `${restaurant.theme_color}50` }}
                   />
-                  <img
+                  <ResponsiveImage
                     src={restaurant.logo_url}
+                    meta={restaurant.logo_meta}
+                    sizes="(min-width: 640px) 80px, 64px"
                     alt=""
                     className="relative h-16 w-16 sm:h-20 sm:w-20 rounded-full border-4 shadow-2xl object-cover transition-transform duration-300 hover:scale-110"
                     style={{ borderColor: restaurant.button_text_color || '#fff' }}
@@ -297,11 +462,11 @@ const RestaurantMenu = () => {
               )}
               <div className="flex-1">
                 <h1 className="text-3xl sm:text-4xl md:text-5xl lg:text-6xl font-bold mb-2 drop-shadow-lg tracking-tight">
-                  {restaurant.name}
+                  {translate("restaurant", restaurant.id, "name", restaurant.name)}
                 </h1>
                 {restaurant.description && (
                   <p className="text-base sm:text-lg max-w-2xl leading-relaxed" style={{ opacity: 0.9 }}>
-                    {restaurant.description}
+                    {translate("restaurant", restaurant.id, "description", restaurant.description)}
                   </p>
                 )}
               </div>
@@ -322,6 +487,51 @@ const RestaurantMenu = () => {
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 sm:gap-4">
             {/* Contact Info */}
             <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2 sm:gap-4 text-sm">
+              {openStatus && (
+                <div
+                  className="flex items-center gap-2"
+                  style={{ color: restaurant.card_text_color, opacity: 0.8 }}
+                >
+                  <Clock className="h-4 w-4 flex-shrink-0" />
+                  <span className={openStatus.isOpen ? "font-medium" : undefined}>{openStatus.label}</span>
+                </div>
+              )}
+              {table && (
+                <div className="flex items-center gap-2">
+                  <Badge
+                    className="gap-1 px-3 py-1"
+                    style={{
+                      backgroundColor: restaurant.button_color || restaurant.theme_color,
+                      color: restaurant.button_text_color
+                    }}
+                  >
+                    <Armchair className="h-3.5 w-3.5" />
+                    Table {table.table_number}
+                  </Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 gap-1"
+                    disabled={requestingService}
+                    onClick={() => handleServiceRequest("call_waiter")}
+                    style={{ borderColor: restaurant.border_color, color: restaurant.card_text_color, backgroundColor: "transparent" }}
+                  >
+                    <BellRing className="h-3.5 w-3.5" />
+                    Call waiter
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 gap-1"
+                    disabled={requestingService}
+                    onClick={() => handleServiceRequest("bill")}
+                    style={{ borderColor: restaurant.border_color, color: restaurant.card_text_color, backgroundColor: "transparent" }}
+                  >
+                    <Receipt className="h-3.5 w-3.5" />
+                    Bill
+                  </Button>
+                </div>
+              )}
               {restaurant.address && (
                 <div 
                   className="flex items-start sm:items-center gap-2"
@@ -344,6 +554,28 @@ const RestaurantMenu = () => {
 
             {/* Search and Diet Filters */}
             <div className="flex items-center gap-2 sm:gap-3">
+              {restaurant.supported_locales.length > 1 && locale && (
+                <Select value={locale} onValueChange={setLocale}>
+                  <SelectTrigger
+                    className="h-8 sm:h-9 w-auto gap-1.5 text-sm"
+                    style={{
+                      backgroundColor: `${restaurant.background_color}80`,
+                      borderColor: restaurant.border_color,
+                      color: restaurant.card_text_color
+                    }}
+                  >
+                    <Languages className="h-4 w-4 flex-shrink-0" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {restaurant.supported_locales.map(code => (
+                      <SelectItem key={code} value={code}>
+                        {getLanguageLabel(code)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               {/* Search Bar - compact on mobile */}
               <div className="relative flex-shrink-0">
                 <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 sm:h-4 sm:w-4" style={{ color: restaurant.card_text_color, opacity: 0.6 }} />
@@ -409,6 +641,60 @@ const RestaurantMenu = () => {
                   <NonVegIcon />
                   <span className="hidden sm:inline">Non-Veg</span>
                 </Button>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant={excludedAllergens.length > 0 ? "default" : "outline"}
+                      size="sm"
+                      className="h-9 px-3 sm:px-4 gap-2 transition-all duration-300 hover:scale-105 font-medium"
+                      style={excludedAllergens.length > 0 ? {
+                        backgroundColor: restaurant.button_color || restaurant.theme_color,
+                        color: restaurant.button_text_color
+                      } : {
+                        borderColor: restaurant.border_color,
+                        color: restaurant.card_text_color
+                      }}
+                    >
+                      <ShieldAlert className="h-4 w-4" />
+                      <span className="hidden sm:inline">Allergens</span>
+                      {excludedAllergens.length > 0 && <span>({excludedAllergens.length})</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent align="end" className="w-64">
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-semibold text-sm">Exclude dishes containing</h4>
+                        {excludedAllergens.length > 0 && (
+                          <button
+                            className="text-xs text-muted-foreground hover:text-foreground"
+                            onClick={() => setExcludedAllergens([])}
+                          >
+                            Clear
+                          </button>
+                        )}
+                      </div>
+                      <div className="grid gap-2">
+                        {ALLERGENS.map(allergen => (
+                          <div key={allergen.id} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`exclude-${allergen.id}`}
+                              checked={excludedAllergens.includes(allergen.id)}
+                              onCheckedChange={(checked) =>
+                                setExcludedAllergens(current =>
+                                  checked ? [...current, allergen.id] : current.filter(id => id !== allergen.id)
+                                )
+                              }
+                            />
+                            <label htmlFor={`exclude-${allergen.id}`} className="text-sm cursor-pointer flex items-center gap-1.5">
+                              <allergen.icon className="h-3.5 w-3.5 text-muted-foreground" />
+                              {allergen.label}
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </PopoverContent>
+                </Popover>
               </div>
             </div>
           </div>
@@ -416,7 +702,7 @@ const RestaurantMenu = () => {
       </div>
 
       {/* Main Content */}
-      <div className="container max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 md:py-12">
+      <div className={`container max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8 md:py-12 ${cart.itemCount > 0 ? "pb-28 sm:pb-32" : ""}`}>
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 lg:gap-8">
           {/* Desktop Sidebar */}
           <div className="hidden lg:block">
@@ -456,7 +742,7 @@ const RestaurantMenu = () => {
 
           {/* Menu Items */}
           <div className="lg:col-span-3 space-y-8 sm:space-y-12">
-            {categories.map(category => {
+            {servedCategories.map(category => {
               const items = getCategoryItems(category.id);
               if (items.length === 0) return null;
 
@@ -467,11 +753,17 @@ const RestaurantMenu = () => {
                       className="text-2xl sm:text-3xl font-bold mb-2"
                       style={{ color: restaurant.category_header_color || restaurant.theme_color }}
                     >
-                      {category.name}
+                      {translate("category", category.id, "name", category.name)}
                     </h2>
+                    {category.availability_windows.length > 0 && (
+                      <p className="flex items-center gap-1.5 text-sm mb-1" style={{ color: restaurant.text_color, opacity: 0.7 }}>
+                        <Clock className="h-3.5 w-3.5" />
+                        {describeWindows(category.availability_windows)}
+                      </p>
+                    )}
                     {category.description && (
                       <p style={{ color: restaurant.text_color, opacity: 0.7 }} className="leading-relaxed">
-                        {category.description}
+                        {translate("category", category.id, "description", category.description)}
                       </p>
                     )}
                   </div>
@@ -480,25 +772,25 @@ const RestaurantMenu = () => {
                     {items.map((item, index) => (
                       <Card 
                         key={item.id} 
-                        className="overflow-hidden hover:shadow-2xl transition-all duration-500 cursor-pointer group animate-slide-up"
+                        className={`overflow-hidden hover:shadow-2xl transition-all duration-500 cursor-pointer group animate-slide-up ${getSoldOutEntry(item.id) ? "opacity-60" : ""}`}
                         style={{ 
                           animationDelay: `${index * 0.03}s`, 
                           animationFillMode: 'both',
                           backgroundColor: restaurant.card_color,
                           borderColor: restaurant.border_color
                         }}
-                        onClick={() => {
-                          setSelectedItem(item);
-                          setQuantity(1);
-                        }}
+                        onClick={() => openItem(item)}
                       >
                         <CardContent className="p-0">
                           <div className="flex gap-3 sm:gap-4 p-3 sm:p-4">
                             {item.image_url && (
                               <div className="relative flex-shrink-0">
-                                <img
+                                <ResponsiveImage
                                   src={item.image_url}
-                                  alt={item.name}
+                                  meta={item.image_meta}
+                                  sizes="(min-width: 640px) 96px, 80px"
+                                  loading="lazy"
+                                  alt={translate("item", item.id, "name", item.name)}
                                   className="w-20 h-20 sm:w-24 sm:h-24 rounded-lg object-cover transition-transform duration-500 group-hover:scale-110"
                                 />
                                 <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
@@ -518,31 +810,53 @@ const RestaurantMenu = () => {
                                     className="font-semibold text-base sm:text-lg leading-tight transition-colors duration-300"
                                     style={{ color: restaurant.card_text_color }}
                                   >
-                                    {item.name}
+                                    {translate("item", item.id, "name", item.name)}
                                   </h3>
                                 </div>
-                                <span
-                                  className="font-bold text-base sm:text-lg whitespace-nowrap flex-shrink-0"
-                                  style={{ color: restaurant.price_color || restaurant.theme_color }}
-                                >
-                                  ₹{item.price.toFixed(2)}
-                                </span>
+                                <div className="text-right flex-shrink-0">
+                                  <span
+                                    className="font-bold text-base sm:text-lg whitespace-nowrap"
+                                    style={{ color: restaurant.price_color || restaurant.theme_color }}
+                                  >
+                                    {formatPrice(item.price, restaurant)}
+                                  </span>
+                                  {getAlternatePrice(item.price, restaurant) && (
+                                    <p className="text-xs whitespace-nowrap" style={{ color: restaurant.card_text_color, opacity: 0.6 }}>
+                                      {getAlternatePrice(item.price, restaurant)}
+                                    </p>
+                                  )}
+                                </div>
                               </div>
                               {item.description && (
                                 <p 
                                   className="text-xs sm:text-sm mb-2 sm:mb-3 line-clamp-2 leading-relaxed"
                                   style={{ color: restaurant.card_text_color, opacity: 0.7 }}
                                 >
-                                  {item.description}
+                                  {translate("item", item.id, "description", item.description)}
                                 </p>
                               )}
                               <div className="flex flex-wrap gap-1.5 sm:gap-2">
+                                {getSoldOutEntry(item.id) && (
+                                  <Badge variant="secondary" className="text-xs px-2 py-0.5">
+                                    {describeSoldOut(getSoldOutEntry(item.id)!, restaurant.timezone)}
+                                  </Badge>
+                                )}
                                 {item.is_spicy && (
                                   <Badge variant="destructive" className="text-xs px-2 py-0.5">
                                     <Flame className="h-3 w-3 mr-1" />
                                     Spicy
                                   </Badge>
                                 )}
+                                {item.availability_windows.length > 0 && (
+                                  <Badge
+                                    variant="outline"
+                                    className="text-xs px-2 py-0.5"
+                                    style={{ borderColor: restaurant.border_color, color: restaurant.card_text_color }}
+                                  >
+                                    <Clock className="h-3 w-3 mr-1" />
+                                    {describeWindows(item.availability_windows)}
+                                  </Badge>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -554,13 +868,15 @@ const RestaurantMenu = () => {
               );
             })}
 
-            {categories.length === 0 && (
+            {servedCategories.length === 0 && (
               <div className="text-center py-20 md:py-32">
                 <div className="relative inline-block mb-6">
                   <div className="absolute inset-0 blur-2xl rounded-full" style={{ backgroundColor: `${restaurant.theme_color}30` }} />
                   <ChefHat className="relative h-16 w-16 md:h-20 md:w-20 mx-auto" style={{ color: restaurant.text_color, opacity: 0.5 }} />
                 </div>
-                <h2 className="text-2xl md:text-3xl font-bold mb-3" style={{ color: restaurant.text_color }}>No menu items yet</h2>
+                <h2 className="text-2xl md:text-3xl font-bold mb-3" style={{ color: restaurant.text_color }}>
+                  {categories.length === 0 ? "No menu items yet" : "Nothing is being served right now"}
+                </h2>
                 <p style={{ color: restaurant.text_color, opacity: 0.6 }} className="text-lg">Check back soon!</p>
               </div>
             )}
@@ -570,7 +886,7 @@ const RestaurantMenu = () => {
 
       {/* Dish Detail Dialog */}
       <Dialog open={!!selectedItem} onOpenChange={() => setSelectedItem(null)}>
-        <DialogContent className="max-w-2xl p-0 gap-0 overflow-hidden animate-scale-in">
+        <DialogContent className="max-w-2xl max-h-[90vh] p-0 gap-0 overflow-y-auto animate-scale-in">
           {selectedItem && (
             <div className="relative">
               {/* Close Button */}
@@ -584,9 +900,11 @@ const RestaurantMenu = () => {
               {/* Image */}
               {selectedItem.image_url && (
                 <div className="relative h-64 md:h-80 overflow-hidden">
-                  <img
+                  <ResponsiveImage
                     src={selectedItem.image_url}
-                    alt={selectedItem.name}
+                    meta={selectedItem.image_meta}
+                    sizes="(min-width: 672px) 672px, 100vw"
+                    alt={translate("item", selectedItem.id, "name", selectedItem.name)}
                     className="w-full h-full object-cover animate-fade-in"
                   />
                 </div>
@@ -601,7 +919,7 @@ const RestaurantMenu = () => {
                   ) : (
                     <NonVegIcon className="mt-1" />
                   )}
-                  <h2 className="text-2xl md:text-3xl font-bold flex-1">{selectedItem.name}</h2>
+                  <h2 className="text-2xl md:text-3xl font-bold flex-1">{translate("item", selectedItem.id, "name", selectedItem.name)}</h2>
                 </div>
 
                 {/* Dietary Badges */}
@@ -612,18 +930,92 @@ const RestaurantMenu = () => {
                   </Badge>
                 )}
 
+                {/* Allergens */}
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">Allergens</h3>
+                  {selectedItem.menu_item_allergens.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {selectedItem.menu_item_allergens.map(({ allergen_id }) => {
+                        const allergen = getAllergen(allergen_id);
+                        if (!allergen) return null;
+                        return (
+                          <Badge key={allergen_id} variant="outline" className="gap-1.5 py-1">
+                            <allergen.icon className="h-3.5 w-3.5" />
+                            {allergen.label}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No allergens declared. Please ask staff if you have an allergy.</p>
+                  )}
+                </div>
+
                 {/* Description */}
                 {selectedItem.description && (
                   <p className="text-muted-foreground leading-relaxed">
-                    {selectedItem.description}
+                    {translate("item", selectedItem.id, "description", selectedItem.description)}
                   </p>
                 )}
 
+                {/* Modifiers */}
+                {selectedItemGroups.length > 0 && (
+                  <div className="pt-4 border-t">
+                    <ModifierSelector
+                      groups={selectedItemGroups}
+                      selection={modifierSelection}
+                      onChange={setModifierSelection}
+                      priceSettings={restaurant}
+                    />
+                  </div>
+                )}
+
+                {/* Quantity and Add to Cart */}
+                <div className="flex items-center justify-between gap-4 pt-4 border-t">
+                  <div className="flex items-center gap-3">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setQuantity(q => Math.max(1, q - 1))}
+                      disabled={quantity <= 1}
+                    >
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <span className="w-8 text-center text-lg font-semibold">{quantity}</span>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setQuantity(q => q + 1)}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Button
+                    size="lg"
+                    className="flex-1 font-semibold"
+                    onClick={handleAddToCart}
+                    disabled={!!selectionError || !!closedMessage || !!selectedSoldOut}
+                    title={closedMessage || (selectedSoldOut && describeSoldOut(selectedSoldOut, restaurant.timezone)) || selectionError || undefined}
+                    style={{
+                      backgroundColor: restaurant.button_color || restaurant.theme_color,
+                      color: restaurant.button_text_color
+                    }}
+                  >
+                    {closedMessage
+                      ? openStatus.label
+                      : selectedSoldOut
+                      ? "Sold out"
+                      : `Add to Order · ${formatPrice(selectedUnitPrice * quantity, restaurant)}`}
+                  </Button>
+                </div>
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Floating Cart */}
+      <CartSheet restaurant={restaurant} cart={cart} table={table} closedMessage={closedMessage} />
     </div>
   );
 };
@@ -4,16 +4,23 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ChefHat, MapPin, Phone } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ChefHat, Clock, MapPin, Phone } from "lucide-react";
 import { toast } from "sonner";
+import { useNow } from "@/hooks/use-now";
+import { getOpenStatus, type OpeningSchedule } from "@/lib/opening-hours";
+import ResponsiveImage from "@/components/menu/ResponsiveImage";
+import type { Json } from "@/integrations/supabase/types";
 
-interface Restaurant {
+interface Restaurant extends OpeningSchedule {
   id: string;
   name: string;
   slug: string;
   description: string | null;
   logo_url: string | null;
+  logo_meta: Json | null;
   banner_image_url: string | null;
+  banner_meta: Json | null;
   theme_color: string;
   contact_phone: string | null;
   address: string | null;
@@ -22,6 +29,8 @@ interface Restaurant {
 const Restaurants = () => {
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [loading, setLoading] = useState(true);
+  const [openNowOnly, setOpenNowOnly] = useState(false);
+  const now = useNow();
 
   useEffect(() => {
     fetchRestaurants();
@@ -31,7 +40,7 @@ const Restaurants = () => {
     try {
       const { data, error } = await supabase
         .from("restaurants")
-        .select("*")
+        .select("*, opening_hours(day_of_week, opens_at, closes_at), opening_hour_overrides(id, date, is_closed, opens_at, closes_at, note)")
         .eq("is_active", true)
         .order("name");
 
@@ -45,6 +54,12 @@ const Restaurants = () => {
     }
   };
 
+  const statuses = Object.fromEntries(restaurants.map(r => [r.id, getOpenStatus(r, now)]));
+  // Restaurants without a schedule are always open
+  const visibleRestaurants = openNowOnly
+    ? restaurants.filter(r => statuses[r.id]?.isOpen ?? true)
+    : restaurants;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -97,92 +112,130 @@ const Restaurants = () => {
             </p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
-            {restaurants.map((restaurant, index) => (
-              <Link 
-                key={restaurant.id} 
-                to={`/menu/${restaurant.slug}`}
-                className="animate-slide-up group"
-                style={{ animationDelay: `${index * 0.05}s`, animationFillMode: 'both' }}
+          <div className="space-y-6">
+            <div className="flex justify-end">
+              <Button
+                variant={openNowOnly ? "default" : "outline"}
+                size="sm"
+                onClick={() => setOpenNowOnly(!openNowOnly)}
+                className="rounded-full"
               >
-                <Card className="relative overflow-hidden border-border/50 hover:border-primary/50 transition-all duration-500 hover:shadow-2xl hover:shadow-primary/10 h-full bg-gradient-to-br from-card to-card/80">
-                  {/* Image Container */}
-                  <div className="relative h-56 overflow-hidden">
-                    {restaurant.banner_image_url ? (
-                      <>
-                        <img
-                          src={restaurant.banner_image_url}
-                          alt={restaurant.name}
-                          className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
-                        />
-                        <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
-                      </>
-                    ) : (
-                      <div
-                        className="w-full h-full flex items-center justify-center relative overflow-hidden"
-                        style={{ backgroundColor: restaurant.theme_color }}
-                      >
-                        <div className="absolute inset-0 bg-gradient-to-br from-white/10 to-transparent" />
-                        <ChefHat className="relative h-24 w-24 text-white/30 transition-transform duration-500 group-hover:scale-110 group-hover:rotate-6" />
-                      </div>
-                    )}
-                    
-                    {/* Logo Overlay */}
-                    {restaurant.logo_url && (
-                      <div className="absolute bottom-4 left-4 bg-background/90 backdrop-blur-sm p-1 rounded-full border-2 border-background shadow-lg">
-                        <img
-                          src={restaurant.logo_url}
-                          alt=""
-                          className="h-12 w-12 rounded-full object-cover"
-                        />
+                <Clock className="h-4 w-4 mr-2" />
+                Open now
+              </Button>
+            </div>
+            {visibleRestaurants.length === 0 ? (
+              <div className="text-center py-16 text-muted-foreground">
+                No restaurants are open right now. Check back later!
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
+                {visibleRestaurants.map((restaurant, index) => (
+                  <Link 
+                    key={restaurant.id} 
+                    to={`/menu/${restaurant.slug}`}
+                    className="animate-slide-up group"
+                    style={{ animationDelay: `${index * 0.05}s`, animationFillMode: 'both' }}
+                  >
+                    <Card className="relative overflow-hidden border-border/50 hover:border-primary/50 transition-all duration-500 hover:shadow-2xl hover:shadow-primary/10 h-full bg-gradient-to-br from-card to-card/80">
+                      {/* Image Container */}
+                      <div className="relative h-56 overflow-hidden">
+                        {restaurant.banner_image_url ? (
+                          <>
+                            <ResponsiveImage
+                              src={restaurant.banner_image_url}
+                              meta={restaurant.banner_meta}
+                              sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                              alt={restaurant.name}
+                              loading="lazy"
+                              className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
+                            />
+                            <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
+                          </>
+                        ) : (
+                          <div
+                            className="w-full h-full flex items-center justify-center relative overflow-hidden"
+                            style={{ backgroundColor: restaurant.theme_color }}
+                          >
+                            <div className="absolute inset-0 bg-gradient-to-br from-white/10 to-transparent" />
+                            <ChefHat className="relative h-24 w-24 text-white/30 transition-transform duration-500 group-hover:scale-110 group-hover:rotate-6" />
+                          </div>
+                        )}
+                        
+                        {/* Open Status */}
+                        {statuses[restaurant.id] && (
+                          <Badge
+                            variant="secondary"
+                            className="absolute top-4 right-4 gap-1.5 bg-background/90 backdrop-blur-sm shadow-lg"
+                          >
+                            <span
+                              className={`h-2 w-2 rounded-full ${statuses[restaurant.id].isOpen ? "bg-green-500" : "bg-muted-foreground"}`}
+                            />
+                            {statuses[restaurant.id].label}
+                          </Badge>
+                        )}
+
+                        {/* Logo Overlay */}
+                        {restaurant.logo_url && (
+                          <div className="absolute bottom-4 left-4 bg-background/90 backdrop-blur-sm p-1 rounded-full border-2 border-background shadow-lg">
+                            <ResponsiveImage
+                              src={restaurant.logo_url}
+                              meta={restaurant.logo_meta}
+                              sizes="48px"
+                              alt=""
+                              loading="lazy"
+                              className="h-12 w-12 rounded-full object-cover"
+                            />
+                          </div>
+                        )}
                       </div>
-                    )}
-                  </div>
-                  
-                  {/* Content */}
-                  <CardHeader className="space-y-3 pb-4">
-                    <CardTitle className="text-xl group-hover:text-primary transition-colors duration-300">
-                      {restaurant.name}
-                    </CardTitle>
-                    {restaurant.description && (
-                      <CardDescription className="line-clamp-2 text-base leading-relaxed">
-                        {restaurant.description}
-                      </CardDescription>
-                    )}
-                  </CardHeader>
+                      
+                      {/* Content */}
+                      <CardHeader className="space-y-3 pb-4">
+                        <CardTitle className="text-xl group-hover:text-primary transition-colors duration-300">
+                          {restaurant.name}
+                        </CardTitle>
+                        {restaurant.description && (
+                          <CardDescription className="line-clamp-2 text-base leading-relaxed">
+                            {restaurant.description}
+                          </CardDescription>
+                        )}
+                      </CardHeader>
 
-                  <CardContent className="space-y-3 pt-0">
-                    {/* Contact Info */}
-                    <div className="space-y-2">
-                      {restaurant.address && (
-                        <div className="flex items-start gap-2 text-sm text-muted-foreground">
-                          <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                          <span className="line-clamp-1">{restaurant.address}</span>
-                        </div>
-                      )}
-                      {restaurant.contact_phone && (
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <Phone className="h-4 w-4 flex-shrink-0" />
-                          <span>{restaurant.contact_phone}</span>
+                      <CardContent className="space-y-3 pt-0">
+                        {/* Contact Info */}
+                        <div className="space-y-2">
+                          {restaurant.address && (
+                            <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                              <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                              <span className="line-clamp-1">{restaurant.address}</span>
+                            </div>
+                          )}
+                          {restaurant.contact_phone && (
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                              <Phone className="h-4 w-4 flex-shrink-0" />
+                              <span>{restaurant.contact_phone}</span>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                    
-                    {/* CTA Button */}
-                    <Button 
-                      className="w-full mt-4 font-semibold shadow-lg hover:shadow-xl transition-all duration-300 group-hover:translate-y-0"
-                      style={{ 
-                        backgroundColor: restaurant.theme_color,
-                        borderColor: restaurant.theme_color 
-                      }}
-                    >
-                      <span>View Menu</span>
-                      <ChefHat className="ml-2 h-4 w-4 transition-transform duration-300 group-hover:rotate-12" />
-                    </Button>
-                  </CardContent>
-                </Card>
-              </Link>
-            ))}
+                        
+                        {/* CTA Button */}
+                        <Button 
+                          className="w-full mt-4 font-semibold shadow-lg hover:shadow-xl transition-all duration-300 group-hover:translate-y-0"
+                          style={{ 
+                            backgroundColor: restaurant.theme_color,
+                            borderColor: restaurant.theme_color 
+                          }}
+                        >
+                          <span>View Menu</span>
+                          <ChefHat className="ml-2 h-4 w-4 transition-transform duration-300 group-hover:rotate-12" />
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,136 @@
+-- Guest orders placed from the public menu page
+CREATE TYPE public.order_status AS ENUM ('new', 'preparing', 'ready', 'served', 'cancelled');
+
+CREATE TABLE public.orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  status order_status NOT NULL DEFAULT 'new',
+  customer_name TEXT,
+  notes TEXT,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE public.order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  unit_price DECIMAL(10, 2) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- Order items may only be attached to a freshly placed order. Guests cannot
+-- read orders, so this check runs with definer rights.
+CREATE OR REPLACE FUNCTION public.order_accepts_items(_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.orders
+    WHERE id = _order_id
+      AND status = 'new'
+      AND created_at > now() - interval '10 minutes'
+  )
+$$;
+
+-- RLS Policies for orders (guest insert, admin read/write)
+CREATE POLICY "Anyone can place orders at active restaurants"
+  ON public.orders FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    status = 'new'
+    AND subtotal = 0
+    AND EXISTS (
+      SELECT 1 FROM public.restaurants
+      WHERE id = restaurant_id AND is_active = true
+    )
+  );
+
+CREATE POLICY "Admins can manage orders"
+  ON public.orders FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for order_items (guest insert, admin read/write)
+CREATE POLICY "Anyone can add items to a new order"
+  ON public.order_items FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (public.order_accepts_items(order_id));
+
+CREATE POLICY "Admins can manage order items"
+  ON public.order_items FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Never trust the price or name sent by the browser: copy them from the menu
+CREATE OR REPLACE FUNCTION public.handle_order_item_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _item RECORD;
+BEGIN
+  SELECT mi.name, mi.price
+  INTO _item
+  FROM public.menu_items mi
+  JOIN public.menu_categories mc ON mc.id = mi.category_id
+  JOIN public.orders o ON o.restaurant_id = mc.restaurant_id
+  WHERE mi.id = NEW.menu_item_id
+    AND o.id = NEW.order_id
+    AND mi.is_available = true
+    AND mc.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item % is not available', NEW.menu_item_id;
+  END IF;
+
+  NEW.item_name = _item.name;
+  NEW.unit_price = _item.price;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.handle_order_item_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.orders
+  SET subtotal = subtotal + NEW.unit_price * NEW.quantity
+  WHERE id = NEW.order_id;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_order_item_price
+  BEFORE INSERT ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.handle_order_item_insert();
+
+CREATE TRIGGER update_order_subtotal
+  AFTER INSERT ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.handle_order_item_totals();
+
+CREATE TRIGGER set_orders_updated_at
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_orders_restaurant ON public.orders(restaurant_id);
+CREATE INDEX idx_orders_status ON public.orders(status);
+CREATE INDEX idx_order_items_order ON public.order_items(order_id);
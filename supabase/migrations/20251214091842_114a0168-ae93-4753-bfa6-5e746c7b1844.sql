@@ -0,0 +1,106 @@
+-- Restaurant tables, used to bind QR code sessions to a seat
+CREATE TABLE public.restaurant_tables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  table_number TEXT NOT NULL,
+  code TEXT UNIQUE NOT NULL DEFAULT substr(md5(gen_random_uuid()::text), 1, 8),
+  seats INTEGER,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(restaurant_id, table_number)
+);
+
+-- Orders remember the table they were placed from
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS table_id UUID REFERENCES public.restaurant_tables(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS table_number TEXT;
+
+-- Guest requests for service (call waiter, ask for the bill)
+CREATE TYPE public.service_request_type AS ENUM ('call_waiter', 'bill', 'water');
+
+CREATE TABLE public.service_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  table_id UUID NOT NULL REFERENCES public.restaurant_tables(id) ON DELETE CASCADE,
+  table_number TEXT,
+  request_type service_request_type NOT NULL DEFAULT 'call_waiter',
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.restaurant_tables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.service_requests ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for restaurant_tables (public read, admin write)
+CREATE POLICY "Anyone can view active tables"
+  ON public.restaurant_tables FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage tables"
+  ON public.restaurant_tables FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for service_requests (guest insert, admin read/write)
+CREATE POLICY "Anyone can request service at an active table"
+  ON public.service_requests FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    resolved_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.restaurant_tables
+      WHERE id = table_id AND restaurant_id = service_requests.restaurant_id AND is_active = true
+    )
+  );
+
+CREATE POLICY "Admins can manage service requests"
+  ON public.service_requests FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Copy the table number from the table row so guests cannot spoof it
+CREATE OR REPLACE FUNCTION public.handle_table_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.table_id IS NULL THEN
+    NEW.table_number = NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT table_number
+  INTO NEW.table_number
+  FROM public.restaurant_tables
+  WHERE id = NEW.table_id
+    AND restaurant_id = NEW.restaurant_id
+    AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % does not belong to this restaurant', NEW.table_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_order_table_number
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.handle_table_number();
+
+CREATE TRIGGER set_service_request_table_number
+  BEFORE INSERT ON public.service_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_table_number();
+
+CREATE TRIGGER set_restaurant_tables_updated_at
+  BEFORE UPDATE ON public.restaurant_tables
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_restaurant_tables_restaurant ON public.restaurant_tables(restaurant_id);
+CREATE INDEX idx_restaurant_tables_code ON public.restaurant_tables(code);
+CREATE INDEX idx_service_requests_restaurant ON public.service_requests(restaurant_id);
@@ -0,0 +1,135 @@
+-- Modifier groups (sizes, add-ons, spice levels) attached to a menu item
+CREATE TABLE public.modifier_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  min_select INTEGER NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select INTEGER NOT NULL DEFAULT 1 CHECK (max_select >= 1),
+  is_required BOOLEAN NOT NULL DEFAULT false,
+  display_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (min_select <= max_select)
+);
+
+CREATE TABLE public.modifier_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.modifier_groups(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  is_available BOOLEAN DEFAULT true,
+  display_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Selected options are stored on the order line, with a snapshot of their
+-- names and prices at the time of ordering
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS modifier_option_ids UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS modifiers JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE public.modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.modifier_options ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for modifier_groups (public read, admin write)
+CREATE POLICY "Anyone can view modifier groups"
+  ON public.modifier_groups FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage modifier groups"
+  ON public.modifier_groups FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for modifier_options (public read, admin write)
+CREATE POLICY "Anyone can view available modifier options"
+  ON public.modifier_options FOR SELECT
+  USING (is_available = true);
+
+CREATE POLICY "Admins can manage modifier options"
+  ON public.modifier_options FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Price order lines from the menu, including the chosen modifiers, and
+-- enforce each group's selection rules
+CREATE OR REPLACE FUNCTION public.handle_order_item_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _item RECORD;
+  _group RECORD;
+  _selected INTEGER;
+BEGIN
+  SELECT mi.name, mi.price
+  INTO _item
+  FROM public.menu_items mi
+  JOIN public.menu_categories mc ON mc.id = mi.category_id
+  JOIN public.orders o ON o.restaurant_id = mc.restaurant_id
+  WHERE mi.id = NEW.menu_item_id
+    AND o.id = NEW.order_id
+    AND mi.is_available = true
+    AND mc.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item % is not available', NEW.menu_item_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(NEW.modifier_option_ids) AS selected(id)
+    LEFT JOIN public.modifier_options mo ON mo.id = selected.id AND mo.is_available = true
+    LEFT JOIN public.modifier_groups mg ON mg.id = mo.group_id AND mg.menu_item_id = NEW.menu_item_id
+    WHERE mg.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Invalid options selected for %', _item.name;
+  END IF;
+
+  FOR _group IN
+    SELECT id, name, min_select, max_select, is_required
+    FROM public.modifier_groups
+    WHERE menu_item_id = NEW.menu_item_id
+  LOOP
+    SELECT count(*)
+    INTO _selected
+    FROM public.modifier_options
+    WHERE group_id = _group.id AND id = ANY(NEW.modifier_option_ids);
+
+    IF _selected < GREATEST(_group.min_select, CASE WHEN _group.is_required THEN 1 ELSE 0 END)
+      OR _selected > _group.max_select THEN
+      RAISE EXCEPTION 'Invalid selection for "%" on %', _group.name, _item.name;
+    END IF;
+  END LOOP;
+
+  NEW.item_name = _item.name;
+  NEW.unit_price = _item.price + COALESCE((
+    SELECT sum(price_delta)
+    FROM public.modifier_options
+    WHERE id = ANY(NEW.modifier_option_ids)
+  ), 0);
+  NEW.modifiers = COALESCE((
+    SELECT jsonb_agg(jsonb_build_object('id', mo.id, 'group', mg.name, 'name', mo.name, 'price_delta', mo.price_delta) ORDER BY mg.display_order, mo.display_order)
+    FROM public.modifier_options mo
+    JOIN public.modifier_groups mg ON mg.id = mo.group_id
+    WHERE mo.id = ANY(NEW.modifier_option_ids)
+  ), '[]'::jsonb);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_modifier_groups_updated_at
+  BEFORE UPDATE ON public.modifier_groups
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_modifier_options_updated_at
+  BEFORE UPDATE ON public.modifier_options
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_modifier_groups_item ON public.modifier_groups(menu_item_id);
+CREATE INDEX idx_modifier_options_group ON public.modifier_options(group_id);
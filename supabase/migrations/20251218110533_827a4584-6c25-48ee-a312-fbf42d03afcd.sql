@@ -0,0 +1,42 @@
+-- Kitchen staff: restaurant managers can follow and progress their orders
+CREATE OR REPLACE FUNCTION public.is_restaurant_manager(_user_id UUID, _restaurant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = 'manager'
+      AND restaurant_id = _restaurant_id
+  )
+$$;
+
+CREATE POLICY "Managers can view their restaurant orders"
+  ON public.orders FOR SELECT
+  TO authenticated
+  USING (public.is_restaurant_manager(auth.uid(), restaurant_id));
+
+CREATE POLICY "Managers can update their restaurant orders"
+  ON public.orders FOR UPDATE
+  TO authenticated
+  USING (public.is_restaurant_manager(auth.uid(), restaurant_id))
+  WITH CHECK (public.is_restaurant_manager(auth.uid(), restaurant_id));
+
+CREATE POLICY "Managers can view their restaurant order items"
+  ON public.order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE id = order_id
+        AND public.is_restaurant_manager(auth.uid(), restaurant_id)
+    )
+  );
+
+-- Stream order changes to the kitchen display
+ALTER TABLE public.orders REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
@@ -0,0 +1,50 @@
+-- The 14 allergens that EU Regulation 1169/2011 requires menus to declare
+CREATE TABLE public.allergens (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  display_order INTEGER DEFAULT 0
+);
+
+INSERT INTO public.allergens (id, name, display_order) VALUES
+  ('gluten', 'Cereals containing gluten', 1),
+  ('crustaceans', 'Crustaceans', 2),
+  ('eggs', 'Eggs', 3),
+  ('fish', 'Fish', 4),
+  ('peanuts', 'Peanuts', 5),
+  ('soybeans', 'Soybeans', 6),
+  ('milk', 'Milk', 7),
+  ('nuts', 'Tree nuts', 8),
+  ('celery', 'Celery', 9),
+  ('mustard', 'Mustard', 10),
+  ('sesame', 'Sesame seeds', 11),
+  ('sulphites', 'Sulphur dioxide and sulphites', 12),
+  ('lupin', 'Lupin', 13),
+  ('molluscs', 'Molluscs', 14);
+
+CREATE TABLE public.menu_item_allergens (
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  allergen_id TEXT NOT NULL REFERENCES public.allergens(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (menu_item_id, allergen_id)
+);
+
+ALTER TABLE public.allergens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_item_allergens ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for allergens (public read only)
+CREATE POLICY "Anyone can view allergens"
+  ON public.allergens FOR SELECT
+  USING (true);
+
+-- RLS Policies for menu_item_allergens (public read, admin write)
+CREATE POLICY "Anyone can view menu item allergens"
+  ON public.menu_item_allergens FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage menu item allergens"
+  ON public.menu_item_allergens FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_menu_item_allergens_allergen ON public.menu_item_allergens(allergen_id);
@@ -0,0 +1,38 @@
+-- Languages a restaurant serves its menu in. The TEXT columns on restaurants,
+-- menu_categories and menu_items hold the default language.
+ALTER TABLE public.restaurants
+ADD COLUMN IF NOT EXISTS default_locale VARCHAR(10) NOT NULL DEFAULT 'en',
+ADD COLUMN IF NOT EXISTS supported_locales VARCHAR(10)[] NOT NULL DEFAULT '{en}';
+
+-- Translated names and descriptions, keyed by entity/field/locale
+CREATE TABLE public.translations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('restaurant', 'category', 'item')),
+  entity_id UUID NOT NULL,
+  field TEXT NOT NULL CHECK (field IN ('name', 'description')),
+  locale VARCHAR(10) NOT NULL,
+  value TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(entity_type, entity_id, field, locale)
+);
+
+ALTER TABLE public.translations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for translations (public read, admin write)
+CREATE POLICY "Anyone can view translations"
+  ON public.translations FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage translations"
+  ON public.translations FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER set_translations_updated_at
+  BEFORE UPDATE ON public.translations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_translations_restaurant_locale ON public.translations(restaurant_id, locale);
@@ -0,0 +1,71 @@
+-- Per-restaurant currency, number formatting and tax rules
+ALTER TABLE public.restaurants
+ADD COLUMN IF NOT EXISTS currency_code VARCHAR(3) NOT NULL DEFAULT 'INR',
+ADD COLUMN IF NOT EXISTS locale VARCHAR(20) NOT NULL DEFAULT 'en-IN',
+ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate < 100),
+ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS show_net_and_gross BOOLEAN NOT NULL DEFAULT false;
+
+-- Orders keep the currency and tax they were placed with
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS currency_code VARCHAR(3) NOT NULL DEFAULT 'INR',
+ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Totals are always computed server-side
+CREATE OR REPLACE FUNCTION public.handle_order_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  SELECT currency_code
+  INTO NEW.currency_code
+  FROM public.restaurants
+  WHERE id = NEW.restaurant_id;
+
+  NEW.subtotal = 0;
+  NEW.tax_amount = 0;
+  NEW.total = 0;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_order_defaults
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.handle_order_insert();
+
+-- Menu prices are net or gross depending on the restaurant, so tax is either
+-- added on top of the subtotal or already contained in it
+CREATE OR REPLACE FUNCTION public.handle_order_item_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _subtotal DECIMAL(10, 2);
+  _tax_rate DECIMAL(5, 2);
+  _prices_include_tax BOOLEAN;
+BEGIN
+  SELECT o.subtotal + NEW.unit_price * NEW.quantity, r.tax_rate, r.prices_include_tax
+  INTO _subtotal, _tax_rate, _prices_include_tax
+  FROM public.orders o
+  JOIN public.restaurants r ON r.id = o.restaurant_id
+  WHERE o.id = NEW.order_id;
+
+  UPDATE public.orders
+  SET subtotal = _subtotal,
+      tax_amount = CASE
+        WHEN _prices_include_tax THEN round(_subtotal - _subtotal / (1 + _tax_rate / 100), 2)
+        ELSE round(_subtotal * _tax_rate / 100, 2)
+      END,
+      total = CASE
+        WHEN _prices_include_tax THEN _subtotal
+        ELSE _subtotal + round(_subtotal * _tax_rate / 100, 2)
+      END
+  WHERE id = NEW.order_id;
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,157 @@
+-- Restaurant timezone; all opening hours are local wall-clock times
+ALTER TABLE public.restaurants
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- Weekly schedule, any number of intervals per day.
+-- day_of_week follows EXTRACT(DOW): 0 = Sunday. An interval whose closing
+-- time is not after its opening time runs past midnight.
+CREATE TABLE public.opening_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  opens_at TIME NOT NULL,
+  closes_at TIME NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Date-specific overrides (holidays, special events) replace the weekly
+-- schedule for that day
+CREATE TABLE public.opening_hour_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  is_closed BOOLEAN NOT NULL DEFAULT true,
+  opens_at TIME,
+  closes_at TIME,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (restaurant_id, date),
+  CHECK (is_closed OR (opens_at IS NOT NULL AND closes_at IS NOT NULL))
+);
+
+ALTER TABLE public.opening_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.opening_hour_overrides ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for opening_hours (public read, admin write)
+CREATE POLICY "Anyone can view opening hours"
+  ON public.opening_hours FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage opening hours"
+  ON public.opening_hours FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for opening_hour_overrides (public read, admin write)
+CREATE POLICY "Anyone can view opening hour overrides"
+  ON public.opening_hour_overrides FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage opening hour overrides"
+  ON public.opening_hour_overrides FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER set_opening_hours_updated_at
+  BEFORE UPDATE ON public.opening_hours
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_opening_hour_overrides_updated_at
+  BEFORE UPDATE ON public.opening_hour_overrides
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_opening_hours_restaurant ON public.opening_hours(restaurant_id);
+CREATE INDEX idx_opening_hour_overrides_restaurant ON public.opening_hour_overrides(restaurant_id);
+
+-- Intervals that start on a given local date, honouring overrides
+CREATE OR REPLACE FUNCTION public.get_service_intervals(_restaurant_id UUID, _date DATE)
+RETURNS TABLE (opens_at TIME, closes_at TIME)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.opens_at, o.closes_at
+  FROM public.opening_hour_overrides o
+  WHERE o.restaurant_id = _restaurant_id
+    AND o.date = _date
+    AND NOT o.is_closed
+  UNION ALL
+  SELECT h.opens_at, h.closes_at
+  FROM public.opening_hours h
+  WHERE h.restaurant_id = _restaurant_id
+    AND h.day_of_week = EXTRACT(DOW FROM _date)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.opening_hour_overrides o
+      WHERE o.restaurant_id = _restaurant_id
+        AND o.date = _date
+    )
+$$;
+
+-- Restaurants without a weekly schedule are treated as always open
+CREATE OR REPLACE FUNCTION public.is_restaurant_open(_restaurant_id UUID, _at TIMESTAMPTZ DEFAULT now())
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _local TIMESTAMP;
+BEGIN
+  SELECT _at AT TIME ZONE timezone
+  INTO _local
+  FROM public.restaurants
+  WHERE id = _restaurant_id;
+
+  IF _local IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.opening_hours WHERE restaurant_id = _restaurant_id) THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.get_service_intervals(_restaurant_id, _local::date) i
+    WHERE _local::time >= i.opens_at
+      AND (i.closes_at <= i.opens_at OR _local::time < i.closes_at)
+  ) OR EXISTS (
+    -- Late intervals carried over from the previous day
+    SELECT 1
+    FROM public.get_service_intervals(_restaurant_id, _local::date - 1) i
+    WHERE i.closes_at <= i.opens_at
+      AND _local::time < i.closes_at
+  );
+END;
+$$;
+
+-- Orders are only accepted during service hours
+CREATE OR REPLACE FUNCTION public.handle_order_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.is_restaurant_open(NEW.restaurant_id) THEN
+    RAISE EXCEPTION 'This restaurant is not taking orders right now';
+  END IF;
+
+  SELECT currency_code
+  INTO NEW.currency_code
+  FROM public.restaurants
+  WHERE id = NEW.restaurant_id;
+
+  NEW.subtotal = 0;
+  NEW.tax_amount = 0;
+  NEW.total = 0;
+  RETURN NEW;
+END;
+$function$;
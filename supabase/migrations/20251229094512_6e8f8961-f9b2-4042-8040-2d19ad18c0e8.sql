@@ -0,0 +1,112 @@
+-- Dayparts: a category or item with availability windows is only served
+-- inside them, in the restaurant's timezone. No windows means all day.
+-- days uses EXTRACT(DOW) numbering (0 = Sunday); a window whose end is not
+-- after its start runs past midnight.
+CREATE TABLE public.availability_windows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id UUID REFERENCES public.menu_categories(id) ON DELETE CASCADE,
+  menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}' CHECK (days <@ '{0,1,2,3,4,5,6}'::SMALLINT[] AND cardinality(days) > 0),
+  starts_at TIME NOT NULL,
+  ends_at TIME NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (num_nonnulls(category_id, menu_item_id) = 1)
+);
+
+ALTER TABLE public.availability_windows ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for availability_windows (public read, admin write)
+CREATE POLICY "Anyone can view availability windows"
+  ON public.availability_windows FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage availability windows"
+  ON public.availability_windows FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER set_availability_windows_updated_at
+  BEFORE UPDATE ON public.availability_windows
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_availability_windows_category ON public.availability_windows(category_id);
+CREATE INDEX idx_availability_windows_menu_item ON public.availability_windows(menu_item_id);
+
+-- True when the item and its category are both inside one of their windows
+CREATE OR REPLACE FUNCTION public.is_menu_item_available(_menu_item_id UUID, _at TIMESTAMPTZ DEFAULT now())
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category_id UUID;
+  _local TIMESTAMP;
+  _dow SMALLINT;
+  _time TIME;
+BEGIN
+  SELECT c.id, _at AT TIME ZONE r.timezone
+  INTO _category_id, _local
+  FROM public.menu_items i
+  JOIN public.menu_categories c ON c.id = i.category_id
+  JOIN public.restaurants r ON r.id = c.restaurant_id
+  WHERE i.id = _menu_item_id;
+
+  IF _local IS NULL THEN
+    RETURN false;
+  END IF;
+
+  _dow := EXTRACT(DOW FROM _local);
+  _time := _local::time;
+
+  IF EXISTS (SELECT 1 FROM public.availability_windows WHERE category_id = _category_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.availability_windows w
+      WHERE w.category_id = _category_id
+        AND (
+          (_dow = ANY (w.days) AND _time >= w.starts_at AND (w.ends_at <= w.starts_at OR _time < w.ends_at))
+          OR (w.ends_at <= w.starts_at AND (_dow + 6) % 7 = ANY (w.days) AND _time < w.ends_at)
+        )
+    ) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.availability_windows WHERE menu_item_id = _menu_item_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.availability_windows w
+      WHERE w.menu_item_id = _menu_item_id
+        AND (
+          (_dow = ANY (w.days) AND _time >= w.starts_at AND (w.ends_at <= w.starts_at OR _time < w.ends_at))
+          OR (w.ends_at <= w.starts_at AND (_dow + 6) % 7 = ANY (w.days) AND _time < w.ends_at)
+        )
+    ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Reject items ordered outside their daypart
+CREATE OR REPLACE FUNCTION public.handle_order_item_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.is_menu_item_available(NEW.menu_item_id) THEN
+    RAISE EXCEPTION '% is not available right now', NEW.item_name;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_order_item_availability
+  BEFORE INSERT ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.handle_order_item_availability();
@@ -0,0 +1,54 @@
+-- Saves a drag-and-drop reorder of a restaurant's menu in one transaction.
+-- _layout lists categories in their new order, each with its items in order:
+--   [{"category_id": "...", "item_ids": ["...", "..."]}, ...]
+-- Items listed under a different category are moved into it. item_ids may be
+-- left out when only the categories were reordered.
+CREATE OR REPLACE FUNCTION public.reorder_menu(_restaurant_id UUID, _layout JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'You do not have permission to reorder this menu';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_layout) AS l(entry)
+    LEFT JOIN public.menu_categories c
+      ON c.id = (l.entry->>'category_id')::uuid
+     AND c.restaurant_id = _restaurant_id
+    WHERE c.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Layout contains a category that does not belong to this restaurant';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_layout) AS l(entry)
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(l.entry->'item_ids', '[]'::jsonb)) AS i(item_id)
+    LEFT JOIN public.menu_items mi ON mi.id = i.item_id::uuid
+    LEFT JOIN public.menu_categories c
+      ON c.id = mi.category_id
+     AND c.restaurant_id = _restaurant_id
+    WHERE c.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Layout contains an item that does not belong to this restaurant';
+  END IF;
+
+  UPDATE public.menu_categories c
+  SET display_order = l.position - 1
+  FROM jsonb_array_elements(_layout) WITH ORDINALITY AS l(entry, position)
+  WHERE c.id = (l.entry->>'category_id')::uuid;
+
+  UPDATE public.menu_items mi
+  SET category_id = (l.entry->>'category_id')::uuid,
+      display_order = i.position - 1
+  FROM jsonb_array_elements(_layout) AS l(entry)
+  CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(l.entry->'item_ids', '[]'::jsonb))
+    WITH ORDINALITY AS i(item_id, position)
+  WHERE mi.id = i.item_id::uuid;
+END;
+$$;
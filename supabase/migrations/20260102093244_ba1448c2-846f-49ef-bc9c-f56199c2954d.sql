@@ -0,0 +1,210 @@
+-- Restaurant-scoped staff: admins manage every restaurant, managers only the
+-- restaurants they hold a manager role for
+CREATE OR REPLACE FUNCTION public.can_manage_restaurant(_user_id UUID, _restaurant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND (
+        role = 'admin'
+        OR (role = 'manager' AND restaurant_id = _restaurant_id)
+      )
+  )
+$$;
+
+-- Owning restaurant of menu rows that only reference it indirectly
+CREATE OR REPLACE FUNCTION public.category_restaurant_id(_category_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT restaurant_id FROM public.menu_categories WHERE id = _category_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.menu_item_restaurant_id(_menu_item_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.restaurant_id
+  FROM public.menu_items mi
+  JOIN public.menu_categories c ON c.id = mi.category_id
+  WHERE mi.id = _menu_item_id
+$$;
+
+-- Restaurants: only admins create or delete them; managers edit their own
+-- details and theme, and can see them while they are inactive
+CREATE POLICY "Managers can view their restaurants"
+  ON public.restaurants FOR SELECT
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), id));
+
+CREATE POLICY "Managers can update their restaurants"
+  ON public.restaurants FOR UPDATE
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), id))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), id));
+
+-- Menu content: replace the admin-only policies with restaurant-scoped ones
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.menu_categories;
+CREATE POLICY "Staff can manage their categories"
+  ON public.menu_categories FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), restaurant_id))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), restaurant_id));
+
+DROP POLICY IF EXISTS "Admins can manage items" ON public.menu_items;
+CREATE POLICY "Staff can manage their items"
+  ON public.menu_items FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), public.category_restaurant_id(category_id)))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), public.category_restaurant_id(category_id)));
+
+DROP POLICY IF EXISTS "Admins can manage menu item allergens" ON public.menu_item_allergens;
+CREATE POLICY "Staff can manage their menu item allergens"
+  ON public.menu_item_allergens FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), public.menu_item_restaurant_id(menu_item_id)))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), public.menu_item_restaurant_id(menu_item_id)));
+
+DROP POLICY IF EXISTS "Admins can manage modifier groups" ON public.modifier_groups;
+CREATE POLICY "Staff can manage their modifier groups"
+  ON public.modifier_groups FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), public.menu_item_restaurant_id(menu_item_id)))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), public.menu_item_restaurant_id(menu_item_id)));
+
+DROP POLICY IF EXISTS "Admins can manage modifier options" ON public.modifier_options;
+CREATE POLICY "Staff can manage their modifier options"
+  ON public.modifier_options FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.modifier_groups g
+      WHERE g.id = modifier_options.group_id
+        AND public.can_manage_restaurant(auth.uid(), public.menu_item_restaurant_id(g.menu_item_id))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.modifier_groups g
+      WHERE g.id = modifier_options.group_id
+        AND public.can_manage_restaurant(auth.uid(), public.menu_item_restaurant_id(g.menu_item_id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage availability windows" ON public.availability_windows;
+CREATE POLICY "Staff can manage their availability windows"
+  ON public.availability_windows FOR ALL
+  TO authenticated
+  USING (
+    public.can_manage_restaurant(
+      auth.uid(),
+      COALESCE(public.category_restaurant_id(category_id), public.menu_item_restaurant_id(menu_item_id))
+    )
+  )
+  WITH CHECK (
+    public.can_manage_restaurant(
+      auth.uid(),
+      COALESCE(public.category_restaurant_id(category_id), public.menu_item_restaurant_id(menu_item_id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage translations" ON public.translations;
+CREATE POLICY "Staff can manage their translations"
+  ON public.translations FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), restaurant_id))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), restaurant_id));
+
+-- Front-of-house settings for the restaurant
+DROP POLICY IF EXISTS "Admins can manage tables" ON public.restaurant_tables;
+CREATE POLICY "Staff can manage their tables"
+  ON public.restaurant_tables FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), restaurant_id))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), restaurant_id));
+
+DROP POLICY IF EXISTS "Admins can manage service requests" ON public.service_requests;
+CREATE POLICY "Staff can manage their service requests"
+  ON public.service_requests FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), restaurant_id))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), restaurant_id));
+
+DROP POLICY IF EXISTS "Admins can manage opening hours" ON public.opening_hours;
+CREATE POLICY "Staff can manage their opening hours"
+  ON public.opening_hours FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), restaurant_id))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), restaurant_id));
+
+DROP POLICY IF EXISTS "Admins can manage opening hour overrides" ON public.opening_hour_overrides;
+CREATE POLICY "Staff can manage their opening hour overrides"
+  ON public.opening_hour_overrides FOR ALL
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), restaurant_id))
+  WITH CHECK (public.can_manage_restaurant(auth.uid(), restaurant_id));
+
+-- Managers can reorder their own menus too
+CREATE OR REPLACE FUNCTION public.reorder_menu(_restaurant_id UUID, _layout JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_restaurant(auth.uid(), _restaurant_id) THEN
+    RAISE EXCEPTION 'You do not have permission to reorder this menu';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_layout) AS l(entry)
+    LEFT JOIN public.menu_categories c
+      ON c.id = (l.entry->>'category_id')::uuid
+     AND c.restaurant_id = _restaurant_id
+    WHERE c.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Layout contains a category that does not belong to this restaurant';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_layout) AS l(entry)
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(l.entry->'item_ids', '[]'::jsonb)) AS i(item_id)
+    LEFT JOIN public.menu_items mi ON mi.id = i.item_id::uuid
+    LEFT JOIN public.menu_categories c
+      ON c.id = mi.category_id
+     AND c.restaurant_id = _restaurant_id
+    WHERE c.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Layout contains an item that does not belong to this restaurant';
+  END IF;
+
+  UPDATE public.menu_categories c
+  SET display_order = l.position - 1
+  FROM jsonb_array_elements(_layout) WITH ORDINALITY AS l(entry, position)
+  WHERE c.id = (l.entry->>'category_id')::uuid;
+
+  UPDATE public.menu_items mi
+  SET category_id = (l.entry->>'category_id')::uuid,
+      display_order = i.position - 1
+  FROM jsonb_array_elements(_layout) AS l(entry)
+  CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(l.entry->'item_ids', '[]'::jsonb))
+    WITH ORDINALITY AS i(item_id, position)
+  WHERE mi.id = i.item_id::uuid;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_restaurant ON public.user_roles(restaurant_id);
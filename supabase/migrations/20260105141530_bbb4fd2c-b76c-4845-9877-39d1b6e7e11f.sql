@@ -0,0 +1,249 @@
+-- Audit trail of changes made through the admin, starting with staff roles
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  restaurant_id UUID,
+  actor_id UUID,
+  old_data JSONB,
+  new_data JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by triggers, never through the API
+CREATE POLICY "Admins can view the audit log"
+  ON public.audit_log FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_audit_log_table_record ON public.audit_log(table_name, record_id);
+CREATE INDEX idx_audit_log_restaurant ON public.audit_log(restaurant_id);
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.log_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+BEGIN
+  INSERT INTO public.audit_log (table_name, record_id, action, restaurant_id, actor_id, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    (COALESCE(_new, _old)->>'id')::uuid,
+    lower(TG_OP),
+    (COALESCE(_new, _old)->>'restaurant_id')::uuid,
+    auth.uid(),
+    _old,
+    _new
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Invitations for new staff. The invite link carries a token signed with a
+-- key that never leaves the database, so it cannot be forged or altered.
+CREATE TABLE public.staff_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  role app_role NOT NULL,
+  restaurant_id UUID REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '7 days',
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK ((role = 'manager') = (restaurant_id IS NOT NULL))
+);
+
+ALTER TABLE public.staff_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invites"
+  ON public.staff_invites FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can revoke invites"
+  ON public.staff_invites FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_staff_invites_email ON public.staff_invites(lower(email));
+
+CREATE SCHEMA IF NOT EXISTS private;
+
+CREATE TABLE private.signing_keys (
+  name TEXT PRIMARY KEY,
+  key BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32)
+);
+
+INSERT INTO private.signing_keys (name) VALUES ('staff_invites');
+
+CREATE OR REPLACE FUNCTION public.sign_staff_invite(_invite_id UUID, _email TEXT, _expires_at TIMESTAMPTZ)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _invite_id::text || '.' || encode(
+    extensions.hmac(
+      _invite_id::text || ':' || lower(_email) || ':' || extract(epoch FROM _expires_at)::bigint::text,
+      (SELECT key FROM private.signing_keys WHERE name = 'staff_invites'),
+      'sha256'
+    ),
+    'hex'
+  )
+$$;
+
+-- The open invite a token belongs to, or nothing if it is forged, expired,
+-- revoked or already used
+CREATE OR REPLACE FUNCTION public.find_staff_invite(_token TEXT)
+RETURNS SETOF public.staff_invites
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.staff_invites;
+BEGIN
+  IF _token !~ '^[0-9a-f-]{36}\.[0-9a-f]{64}$' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _invite FROM public.staff_invites WHERE id = split_part(_token, '.', 1)::uuid;
+
+  IF _invite.id IS NULL
+    OR public.sign_staff_invite(_invite.id, _invite.email, _invite.expires_at) <> _token
+    OR _invite.expires_at < now()
+    OR _invite.revoked_at IS NOT NULL
+    OR _invite.accepted_at IS NOT NULL
+  THEN
+    RETURN;
+  END IF;
+
+  RETURN NEXT _invite;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sign_staff_invite(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_staff_invite(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Creates an invite and returns its token. Only admins can invite staff.
+CREATE OR REPLACE FUNCTION public.create_staff_invite(_email TEXT, _role app_role, _restaurant_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.staff_invites;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can invite staff';
+  END IF;
+
+  IF _role = 'user' THEN
+    RAISE EXCEPTION 'Invites are for admins and managers';
+  END IF;
+
+  IF _role = 'manager' AND _restaurant_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the restaurant this manager will run';
+  END IF;
+
+  INSERT INTO public.staff_invites (email, role, restaurant_id, invited_by)
+  VALUES (lower(trim(_email)), _role, CASE WHEN _role = 'manager' THEN _restaurant_id END, auth.uid())
+  RETURNING * INTO _invite;
+
+  RETURN public.sign_staff_invite(_invite.id, _invite.email, _invite.expires_at);
+END;
+$$;
+
+-- What the Auth page shows before the invitee signs in
+CREATE OR REPLACE FUNCTION public.get_staff_invite(_token TEXT)
+RETURNS TABLE (email TEXT, role app_role, restaurant_name TEXT, expires_at TIMESTAMPTZ)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.email, i.role, r.name, i.expires_at
+  FROM public.find_staff_invite(_token) i
+  LEFT JOIN public.restaurants r ON r.id = i.restaurant_id
+$$;
+
+-- Grants the invited role to the signed-in user, whose email must match
+CREATE OR REPLACE FUNCTION public.redeem_staff_invite(_token TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.staff_invites;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invite';
+  END IF;
+
+  SELECT * INTO _invite FROM public.find_staff_invite(_token);
+
+  IF _invite.id IS NULL THEN
+    RAISE EXCEPTION 'This invite link is invalid or has expired';
+  END IF;
+
+  IF lower(auth.jwt()->>'email') <> _invite.email THEN
+    RAISE EXCEPTION 'This invite was sent to a different email address';
+  END IF;
+
+  -- restaurant_id is NULL for admins, which the unique constraint does not catch
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid()
+      AND role = _invite.role
+      AND restaurant_id IS NOT DISTINCT FROM _invite.restaurant_id
+  ) THEN
+    INSERT INTO public.user_roles (user_id, role, restaurant_id)
+    VALUES (auth.uid(), _invite.role, _invite.restaurant_id);
+  END IF;
+
+  UPDATE public.staff_invites
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = _invite.id;
+END;
+$$;
+
+-- Staff roles with the email of each user, which the API cannot read directly
+CREATE OR REPLACE FUNCTION public.list_staff_members()
+RETURNS TABLE (role_id UUID, user_id UUID, email TEXT, role app_role, restaurant_id UUID, created_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view the team';
+  END IF;
+
+  RETURN QUERY
+  SELECT ur.id, ur.user_id, u.email::text, ur.role, ur.restaurant_id, ur.created_at
+  FROM public.user_roles ur
+  JOIN auth.users u ON u.id = ur.user_id
+  ORDER BY u.email, ur.role;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- Sign-up is limited to invited emails and allow-listed company domains
+CREATE TABLE public.signup_domains (
+  domain TEXT PRIMARY KEY CHECK (domain = lower(domain) AND domain ~ '^[a-z0-9.-]+\.[a-z]{2,}$'),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.signup_domains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage signup domains"
+  ON public.signup_domains FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.is_signup_allowed(_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.staff_invites
+    WHERE email = lower(trim(_email))
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > now()
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.signup_domains
+    WHERE domain = lower(split_part(trim(_email), '@', 2))
+  )
+$$;
+
+-- Enforced on the auth table itself, so every sign-up method is covered
+CREATE OR REPLACE FUNCTION public.enforce_signup_allowlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.email IS NULL OR NOT public.is_signup_allowed(NEW.email) THEN
+    RAISE EXCEPTION 'Sign up is by invitation only';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_signup_allowlist
+  BEFORE INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_signup_allowlist();
+
+-- Menu images live under a folder named after the owning restaurant's id.
+-- Objects outside such a folder belong to no restaurant and only admins can change them.
+CREATE OR REPLACE FUNCTION public.storage_object_restaurant_id(_name TEXT)
+RETURNS UUID
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _name ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/'
+    THEN split_part(_name, '/', 1)::uuid
+  END
+$$;
+
+DROP POLICY IF EXISTS "Authenticated users can upload menu images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update menu images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete menu images" ON storage.objects;
+
+CREATE POLICY "Staff can upload their restaurant images"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'menu-images'
+  AND public.can_manage_restaurant(auth.uid(), public.storage_object_restaurant_id(name))
+);
+
+CREATE POLICY "Staff can update their restaurant images"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'menu-images'
+  AND public.can_manage_restaurant(auth.uid(), public.storage_object_restaurant_id(name))
+)
+WITH CHECK (
+  bucket_id = 'menu-images'
+  AND public.can_manage_restaurant(auth.uid(), public.storage_object_restaurant_id(name))
+);
+
+CREATE POLICY "Staff can delete their restaurant images"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'menu-images'
+  AND public.can_manage_restaurant(auth.uid(), public.storage_object_restaurant_id(name))
+);
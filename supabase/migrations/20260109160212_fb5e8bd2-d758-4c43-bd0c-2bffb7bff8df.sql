@@ -0,0 +1,44 @@
+-- Admin rights only count in sessions verified with a second factor (aal2).
+-- Managers keep working with a password session unless they opted into MFA,
+-- which the app then asks for at sign-in.
+CREATE OR REPLACE FUNCTION public.is_mfa_verified()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(auth.jwt()->>'aal', '') = 'aal2'
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  )
+  AND (_role <> 'admin' OR public.is_mfa_verified())
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_restaurant(_user_id UUID, _restaurant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND (
+        (role = 'admin' AND public.is_mfa_verified())
+        OR (role = 'manager' AND restaurant_id = _restaurant_id)
+      )
+  )
+$$;
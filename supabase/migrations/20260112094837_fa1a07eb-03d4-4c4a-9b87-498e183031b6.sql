@@ -0,0 +1,95 @@
+-- Record menu and restaurant changes in the audit log alongside staff roles.
+-- Menu items don't carry a restaurant, so it is looked up through their category.
+CREATE OR REPLACE FUNCTION public.log_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _row JSONB := COALESCE(_new, _old);
+  _restaurant_id UUID;
+BEGIN
+  -- Saves that change nothing but the timestamp, e.g. a reorder that kept its place
+  IF TG_OP = 'UPDATE' AND (_old - 'updated_at') = (_new - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  _restaurant_id := CASE TG_TABLE_NAME
+    WHEN 'restaurants' THEN (_row->>'id')::uuid
+    WHEN 'menu_items' THEN COALESCE(
+      public.category_restaurant_id((_row->>'category_id')::uuid),
+      -- Deleted along with its category, which has already logged its restaurant
+      (SELECT restaurant_id FROM public.audit_log
+        WHERE table_name = 'menu_categories' AND record_id = (_row->>'category_id')::uuid
+        ORDER BY created_at DESC
+        LIMIT 1)
+    )
+    ELSE (_row->>'restaurant_id')::uuid
+  END;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, restaurant_id, actor_id, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    (_row->>'id')::uuid,
+    lower(TG_OP),
+    _restaurant_id,
+    auth.uid(),
+    _old,
+    _new
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE TRIGGER audit_restaurants
+  AFTER INSERT OR UPDATE OR DELETE ON public.restaurants
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_menu_categories
+  AFTER INSERT OR UPDATE ON public.menu_categories
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Logged before the row goes so the items it cascades to can still find their restaurant
+CREATE TRIGGER audit_menu_categories_delete
+  BEFORE DELETE ON public.menu_categories
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_menu_items
+  AFTER INSERT OR UPDATE OR DELETE ON public.menu_items
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Managers see the menu history of their own restaurants, not role changes
+CREATE POLICY "Staff can view their restaurant activity"
+  ON public.audit_log FOR SELECT
+  TO authenticated
+  USING (
+    table_name <> 'user_roles'
+    AND restaurant_id IS NOT NULL
+    AND public.can_manage_restaurant(auth.uid(), restaurant_id)
+  );
+
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id);
+
+-- Emails of the people behind the entries the caller can see
+CREATE OR REPLACE FUNCTION public.list_audit_actors()
+RETURNS TABLE (user_id UUID, email TEXT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT u.id, u.email::text
+  FROM public.audit_log a
+  JOIN auth.users u ON u.id = a.actor_id
+  WHERE public.has_role(auth.uid(), 'admin')
+    OR (
+      a.table_name <> 'user_roles'
+      AND a.restaurant_id IS NOT NULL
+      AND public.can_manage_restaurant(auth.uid(), a.restaurant_id)
+    )
+  ORDER BY 2
+$$;
@@ -0,0 +1,528 @@
+-- Draft / publish workflow. The menu tables become the staff's working draft;
+-- diners read the latest published snapshot in menu_versions instead.
+CREATE TABLE public.menu_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  note TEXT,
+  -- Set when this version rolled the menu back to an earlier one
+  restored_from INTEGER,
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (restaurant_id, version)
+);
+
+ALTER TABLE public.menu_versions ENABLE ROW LEVEL SECURITY;
+
+-- The newest version is the one that is live
+CREATE OR REPLACE FUNCTION public.published_menu_version_id(_restaurant_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.menu_versions
+  WHERE restaurant_id = _restaurant_id
+  ORDER BY version DESC
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.published_menu(_restaurant_id UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT snapshot FROM public.menu_versions
+  WHERE id = public.published_menu_version_id(_restaurant_id)
+$$;
+
+-- Versions are only written by the functions below
+CREATE POLICY "Anyone can view published menus"
+  ON public.menu_versions FOR SELECT
+  USING (id = public.published_menu_version_id(restaurant_id));
+
+CREATE POLICY "Staff can view their menu versions"
+  ON public.menu_versions FOR SELECT
+  TO authenticated
+  USING (public.can_manage_restaurant(auth.uid(), restaurant_id));
+
+CREATE INDEX idx_menu_versions_items ON public.menu_versions USING GIN ((snapshot->'items') jsonb_path_ops);
+
+-- Drafts are for staff only; their "Staff can manage" policies still cover reads
+DROP POLICY IF EXISTS "Anyone can view active categories" ON public.menu_categories;
+DROP POLICY IF EXISTS "Anyone can view available items" ON public.menu_items;
+DROP POLICY IF EXISTS "Anyone can view modifier groups" ON public.modifier_groups;
+DROP POLICY IF EXISTS "Anyone can view available modifier options" ON public.modifier_options;
+DROP POLICY IF EXISTS "Anyone can view menu item allergens" ON public.menu_item_allergens;
+DROP POLICY IF EXISTS "Anyone can view availability windows" ON public.availability_windows;
+
+-- The whole menu of a restaurant as it stands in the draft tables. Nested rows
+-- follow the shape the menu page used to select, so it can read either.
+CREATE OR REPLACE FUNCTION public.build_menu_snapshot(_restaurant_id UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH categories AS (
+    SELECT * FROM public.menu_categories WHERE restaurant_id = _restaurant_id
+  ), items AS (
+    SELECT i.* FROM public.menu_items i JOIN categories c ON c.id = i.category_id
+  )
+  SELECT jsonb_build_object(
+    'categories', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(c) - 'created_at' - 'updated_at'
+          || jsonb_build_object('availability_windows', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('id', w.id, 'days', w.days, 'starts_at', w.starts_at, 'ends_at', w.ends_at) ORDER BY w.starts_at, w.id)
+            FROM public.availability_windows w
+            WHERE w.category_id = c.id
+          ), '[]'::jsonb))
+        ORDER BY c.display_order, c.id
+      )
+      FROM categories c
+    ), '[]'::jsonb),
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(i) - 'created_at' - 'updated_at'
+          || jsonb_build_object(
+            'menu_item_allergens', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('allergen_id', a.allergen_id) ORDER BY a.allergen_id)
+              FROM public.menu_item_allergens a
+              WHERE a.menu_item_id = i.id
+            ), '[]'::jsonb),
+            'availability_windows', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('id', w.id, 'days', w.days, 'starts_at', w.starts_at, 'ends_at', w.ends_at) ORDER BY w.starts_at, w.id)
+              FROM public.availability_windows w
+              WHERE w.menu_item_id = i.id
+            ), '[]'::jsonb)
+          )
+        ORDER BY i.display_order, i.id
+      )
+      FROM items i
+    ), '[]'::jsonb),
+    'modifier_groups', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(g) - 'created_at' - 'updated_at'
+          || jsonb_build_object('modifier_options', COALESCE((
+            SELECT jsonb_agg(to_jsonb(o) - 'created_at' - 'updated_at' ORDER BY o.display_order, o.id)
+            FROM public.modifier_options o
+            WHERE o.group_id = g.id
+          ), '[]'::jsonb))
+        ORDER BY g.display_order, g.id
+      )
+      FROM public.modifier_groups g
+      JOIN items i ON i.id = g.menu_item_id
+    ), '[]'::jsonb)
+  )
+$$;
+
+-- Makes the draft tables match a snapshot. Rows keep their ids, so order
+-- history and translations stay attached to the same dishes.
+CREATE OR REPLACE FUNCTION public.restore_menu_snapshot(_restaurant_id UUID, _snapshot JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category_ids UUID[] := ARRAY(SELECT (c->>'id')::uuid FROM jsonb_array_elements(_snapshot->'categories') c);
+  _item_ids UUID[] := ARRAY(SELECT (i->>'id')::uuid FROM jsonb_array_elements(_snapshot->'items') i);
+  _group_ids UUID[] := ARRAY(SELECT (g->>'id')::uuid FROM jsonb_array_elements(_snapshot->'modifier_groups') g);
+  _option_ids UUID[] := ARRAY(
+    SELECT (o->>'id')::uuid
+    FROM jsonb_array_elements(_snapshot->'modifier_groups') g, jsonb_array_elements(g->'modifier_options') o
+  );
+BEGIN
+  -- Rows the snapshot doesn't have; their children go with them
+  DELETE FROM public.menu_categories
+  WHERE restaurant_id = _restaurant_id AND id <> ALL (_category_ids);
+
+  DELETE FROM public.menu_items i
+  USING public.menu_categories c
+  WHERE c.id = i.category_id AND c.restaurant_id = _restaurant_id AND i.id <> ALL (_item_ids);
+
+  DELETE FROM public.modifier_groups
+  WHERE menu_item_id = ANY (_item_ids) AND id <> ALL (_group_ids);
+
+  DELETE FROM public.modifier_options
+  WHERE group_id = ANY (_group_ids) AND id <> ALL (_option_ids);
+
+  INSERT INTO public.menu_categories (id, restaurant_id, name, description, display_order, is_active)
+  SELECT id, _restaurant_id, name, description, display_order, is_active
+  FROM jsonb_populate_recordset(NULL::public.menu_categories, _snapshot->'categories')
+  ON CONFLICT (id) DO UPDATE SET
+    restaurant_id = EXCLUDED.restaurant_id,
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    display_order = EXCLUDED.display_order,
+    is_active = EXCLUDED.is_active;
+
+  INSERT INTO public.menu_items (id, category_id, name, description, price, image_url, is_vegetarian, is_vegan, is_spicy, is_available, display_order)
+  SELECT id, category_id, name, description, price, image_url, is_vegetarian, is_vegan, is_spicy, is_available, display_order
+  FROM jsonb_populate_recordset(NULL::public.menu_items, _snapshot->'items')
+  ON CONFLICT (id) DO UPDATE SET
+    category_id = EXCLUDED.category_id,
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    price = EXCLUDED.price,
+    image_url = EXCLUDED.image_url,
+    is_vegetarian = EXCLUDED.is_vegetarian,
+    is_vegan = EXCLUDED.is_vegan,
+    is_spicy = EXCLUDED.is_spicy,
+    is_available = EXCLUDED.is_available,
+    display_order = EXCLUDED.display_order;
+
+  INSERT INTO public.modifier_groups (id, menu_item_id, name, min_select, max_select, is_required, display_order)
+  SELECT id, menu_item_id, name, min_select, max_select, is_required, display_order
+  FROM jsonb_populate_recordset(NULL::public.modifier_groups, _snapshot->'modifier_groups')
+  ON CONFLICT (id) DO UPDATE SET
+    menu_item_id = EXCLUDED.menu_item_id,
+    name = EXCLUDED.name,
+    min_select = EXCLUDED.min_select,
+    max_select = EXCLUDED.max_select,
+    is_required = EXCLUDED.is_required,
+    display_order = EXCLUDED.display_order;
+
+  INSERT INTO public.modifier_options (id, group_id, name, price_delta, is_available, display_order)
+  SELECT o.id, o.group_id, o.name, o.price_delta, o.is_available, o.display_order
+  FROM jsonb_array_elements(_snapshot->'modifier_groups') g,
+    jsonb_populate_recordset(NULL::public.modifier_options, g->'modifier_options') o
+  ON CONFLICT (id) DO UPDATE SET
+    group_id = EXCLUDED.group_id,
+    name = EXCLUDED.name,
+    price_delta = EXCLUDED.price_delta,
+    is_available = EXCLUDED.is_available,
+    display_order = EXCLUDED.display_order;
+
+  -- Allergens and windows are small enough to replace outright
+  DELETE FROM public.menu_item_allergens WHERE menu_item_id = ANY (_item_ids);
+
+  INSERT INTO public.menu_item_allergens (menu_item_id, allergen_id)
+  SELECT (i->>'id')::uuid, a.allergen_id
+  FROM jsonb_array_elements(_snapshot->'items') i,
+    jsonb_populate_recordset(NULL::public.menu_item_allergens, i->'menu_item_allergens') a
+  WHERE EXISTS (SELECT 1 FROM public.allergens WHERE id = a.allergen_id);
+
+  DELETE FROM public.availability_windows
+  WHERE category_id = ANY (_category_ids) OR menu_item_id = ANY (_item_ids);
+
+  INSERT INTO public.availability_windows (id, category_id, days, starts_at, ends_at)
+  SELECT w.id, (c->>'id')::uuid, w.days, w.starts_at, w.ends_at
+  FROM jsonb_array_elements(_snapshot->'categories') c,
+    jsonb_populate_recordset(NULL::public.availability_windows, c->'availability_windows') w;
+
+  INSERT INTO public.availability_windows (id, menu_item_id, days, starts_at, ends_at)
+  SELECT w.id, (i->>'id')::uuid, w.days, w.starts_at, w.ends_at
+  FROM jsonb_array_elements(_snapshot->'items') i,
+    jsonb_populate_recordset(NULL::public.availability_windows, i->'availability_windows') w;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.build_menu_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_menu_snapshot(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Versions are numbered per restaurant; the row lock keeps two publishes from
+-- taking the same number
+CREATE OR REPLACE FUNCTION public.insert_menu_version(_restaurant_id UUID, _note TEXT, _restored_from INTEGER DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version INTEGER;
+BEGIN
+  PERFORM 1 FROM public.restaurants WHERE id = _restaurant_id FOR UPDATE;
+
+  SELECT COALESCE(max(version), 0) + 1 INTO _version
+  FROM public.menu_versions
+  WHERE restaurant_id = _restaurant_id;
+
+  INSERT INTO public.menu_versions (restaurant_id, version, snapshot, note, restored_from, published_by)
+  VALUES (_restaurant_id, _version, public.build_menu_snapshot(_restaurant_id), NULLIF(trim(_note), ''), _restored_from, auth.uid());
+
+  RETURN _version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_menu_version(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- The draft as staff see it, for comparing against published versions
+CREATE OR REPLACE FUNCTION public.get_menu_draft(_restaurant_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_restaurant(auth.uid(), _restaurant_id) THEN
+    RAISE EXCEPTION 'You do not manage this restaurant';
+  END IF;
+
+  RETURN public.build_menu_snapshot(_restaurant_id);
+END;
+$$;
+
+-- Puts the draft live in one step and returns the new version number
+CREATE OR REPLACE FUNCTION public.publish_menu(_restaurant_id UUID, _note TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_restaurant(auth.uid(), _restaurant_id) THEN
+    RAISE EXCEPTION 'You do not manage this restaurant';
+  END IF;
+
+  IF public.build_menu_snapshot(_restaurant_id) IS NOT DISTINCT FROM public.published_menu(_restaurant_id) THEN
+    RAISE EXCEPTION 'There are no changes to publish';
+  END IF;
+
+  RETURN public.insert_menu_version(_restaurant_id, _note);
+END;
+$$;
+
+-- Publishes an earlier version again and resets the draft to it
+CREATE OR REPLACE FUNCTION public.rollback_menu(_version_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target public.menu_versions;
+BEGIN
+  SELECT * INTO _target FROM public.menu_versions WHERE id = _version_id;
+
+  IF _target.id IS NULL OR NOT public.can_manage_restaurant(auth.uid(), _target.restaurant_id) THEN
+    RAISE EXCEPTION 'Menu version not found';
+  END IF;
+
+  PERFORM public.restore_menu_snapshot(_target.restaurant_id, _target.snapshot);
+  RETURN public.insert_menu_version(_target.restaurant_id, 'Rolled back to version ' || _target.version, _target.version);
+END;
+$$;
+
+-- Throws away unpublished edits
+CREATE OR REPLACE FUNCTION public.discard_menu_draft(_restaurant_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _published JSONB := public.published_menu(_restaurant_id);
+BEGIN
+  IF NOT public.can_manage_restaurant(auth.uid(), _restaurant_id) THEN
+    RAISE EXCEPTION 'You do not manage this restaurant';
+  END IF;
+
+  IF _published IS NULL THEN
+    RAISE EXCEPTION 'This menu has not been published yet';
+  END IF;
+
+  PERFORM public.restore_menu_snapshot(_restaurant_id, _published);
+END;
+$$;
+
+-- Preview links carry the restaurant and expiry, signed so they can't be
+-- altered. Anyone holding one can see the draft until it expires.
+INSERT INTO private.signing_keys (name) VALUES ('menu_previews');
+
+CREATE OR REPLACE FUNCTION public.sign_menu_preview(_restaurant_id UUID, _expires_at BIGINT)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _restaurant_id::text || '.' || _expires_at::text || '.' || encode(
+    extensions.hmac(
+      _restaurant_id::text || ':' || _expires_at::text,
+      (SELECT key FROM private.signing_keys WHERE name = 'menu_previews'),
+      'sha256'
+    ),
+    'hex'
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sign_menu_preview(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_menu_preview_token(_restaurant_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_restaurant(auth.uid(), _restaurant_id) THEN
+    RAISE EXCEPTION 'You do not manage this restaurant';
+  END IF;
+
+  RETURN public.sign_menu_preview(_restaurant_id, extract(epoch FROM now() + INTERVAL '24 hours')::bigint);
+END;
+$$;
+
+-- The draft menu for a valid preview token, or NULL
+CREATE OR REPLACE FUNCTION public.get_menu_preview(_restaurant_id UUID, _token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expires_at BIGINT;
+BEGIN
+  IF _token !~ '^[0-9a-f-]{36}\.[0-9]{1,12}\.[0-9a-f]{64}$' THEN
+    RETURN NULL;
+  END IF;
+
+  _expires_at := split_part(_token, '.', 2)::bigint;
+
+  IF split_part(_token, '.', 1)::uuid <> _restaurant_id
+    OR public.sign_menu_preview(_restaurant_id, _expires_at) <> _token
+    OR _expires_at < extract(epoch FROM now())
+  THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN public.build_menu_snapshot(_restaurant_id);
+END;
+$$;
+
+-- Orders are priced and checked against the published menu, not the draft
+CREATE OR REPLACE FUNCTION public.is_within_windows(_windows JSONB, _local TIMESTAMP)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_array_length(COALESCE(_windows, '[]'::jsonb)) = 0
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_populate_recordset(NULL::public.availability_windows, _windows) w
+      WHERE (EXTRACT(DOW FROM _local)::smallint = ANY (w.days) AND _local::time >= w.starts_at AND (w.ends_at <= w.starts_at OR _local::time < w.ends_at))
+        OR (w.ends_at <= w.starts_at AND ((EXTRACT(DOW FROM _local)::smallint + 6) % 7)::smallint = ANY (w.days) AND _local::time < w.ends_at)
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_menu_item_available(_menu_item_id UUID, _at TIMESTAMPTZ DEFAULT now())
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _menu JSONB;
+  _local TIMESTAMP;
+  _item JSONB;
+  _category JSONB;
+BEGIN
+  SELECT v.snapshot, _at AT TIME ZONE r.timezone
+  INTO _menu, _local
+  FROM public.menu_versions v
+  JOIN public.restaurants r ON r.id = v.restaurant_id
+  WHERE v.snapshot->'items' @> jsonb_build_array(jsonb_build_object('id', _menu_item_id))
+    AND v.id = public.published_menu_version_id(v.restaurant_id);
+
+  SELECT i INTO _item FROM jsonb_array_elements(_menu->'items') i WHERE i->>'id' = _menu_item_id::text;
+  SELECT c INTO _category FROM jsonb_array_elements(_menu->'categories') c WHERE c->>'id' = _item->>'category_id';
+
+  IF _category IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.is_within_windows(_category->'availability_windows', _local)
+    AND public.is_within_windows(_item->'availability_windows', _local);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_order_item_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _menu JSONB;
+  _item JSONB;
+  _options JSONB;
+  _group JSONB;
+  _selected INTEGER;
+BEGIN
+  SELECT public.published_menu(restaurant_id) INTO _menu FROM public.orders WHERE id = NEW.order_id;
+
+  SELECT i INTO _item
+  FROM jsonb_array_elements(_menu->'items') i
+  JOIN jsonb_array_elements(_menu->'categories') c ON c->>'id' = i->>'category_id'
+  WHERE i->>'id' = NEW.menu_item_id::text
+    AND (i->>'is_available')::boolean
+    AND (c->>'is_active')::boolean;
+
+  IF _item IS NULL THEN
+    RAISE EXCEPTION 'Menu item % is not available', NEW.menu_item_id;
+  END IF;
+
+  -- The chosen options, each tagged with its group for the order line
+  SELECT COALESCE(jsonb_agg(o || jsonb_build_object('group', g->'name', 'group_order', g->'display_order')), '[]'::jsonb)
+  INTO _options
+  FROM jsonb_array_elements(_menu->'modifier_groups') g, jsonb_array_elements(g->'modifier_options') o
+  WHERE g->>'menu_item_id' = NEW.menu_item_id::text
+    AND (o->>'id')::uuid = ANY (NEW.modifier_option_ids)
+    AND (o->>'is_available')::boolean;
+
+  IF jsonb_array_length(_options) <> cardinality(ARRAY(SELECT DISTINCT unnest(NEW.modifier_option_ids))) THEN
+    RAISE EXCEPTION 'Invalid options selected for %', _item->>'name';
+  END IF;
+
+  FOR _group IN
+    SELECT g
+    FROM jsonb_array_elements(_menu->'modifier_groups') g
+    WHERE g->>'menu_item_id' = NEW.menu_item_id::text
+  LOOP
+    SELECT count(*)
+    INTO _selected
+    FROM jsonb_array_elements(_options) o
+    WHERE o->>'group_id' = _group->>'id';
+
+    IF _selected < GREATEST((_group->>'min_select')::int, CASE WHEN (_group->>'is_required')::boolean THEN 1 ELSE 0 END)
+      OR _selected > (_group->>'max_select')::int THEN
+      RAISE EXCEPTION 'Invalid selection for "%" on %', _group->>'name', _item->>'name';
+    END IF;
+  END LOOP;
+
+  -- Dishes already deleted from the draft can be ordered until the next publish
+  IF NOT EXISTS (SELECT 1 FROM public.menu_items WHERE id = NEW.menu_item_id) THEN
+    NEW.menu_item_id = NULL;
+  END IF;
+
+  NEW.item_name = _item->>'name';
+  NEW.unit_price = (_item->>'price')::numeric + COALESCE((
+    SELECT sum((o->>'price_delta')::numeric)
+    FROM jsonb_array_elements(_options) o
+  ), 0);
+  NEW.modifiers = COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object('id', o->'id', 'group', o->'group', 'name', o->'name', 'price_delta', o->'price_delta')
+      ORDER BY (o->>'group_order')::int, (o->>'display_order')::int
+    )
+    FROM jsonb_array_elements(_options) o
+  ), '[]'::jsonb);
+  RETURN NEW;
+END;
+$function$;
+
+-- Every existing menu starts out published as it is
+INSERT INTO public.menu_versions (restaurant_id, version, snapshot, note)
+SELECT id, 1, public.build_menu_snapshot(id), 'Initial version'
+FROM public.restaurants;
@@ -0,0 +1,397 @@
+-- Soft delete: deleting a restaurant, category or dish moves it to the trash
+-- together with everything under it. Rows trashed in the same operation share
+-- a deleted_at, which is how restore knows what belongs together.
+ALTER TABLE public.restaurants
+  ADD COLUMN deleted_at TIMESTAMPTZ,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.menu_categories
+  ADD COLUMN deleted_at TIMESTAMPTZ,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.menu_items
+  ADD COLUMN deleted_at TIMESTAMPTZ,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Trashed rows drop out of every query; the trash itself is read through list_trash
+CREATE POLICY "Trashed restaurants are hidden"
+  ON public.restaurants AS RESTRICTIVE FOR SELECT
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Trashed categories are hidden"
+  ON public.menu_categories AS RESTRICTIVE FOR SELECT
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Trashed items are hidden"
+  ON public.menu_items AS RESTRICTIVE FOR SELECT
+  USING (deleted_at IS NULL);
+
+-- Settings that apply across all restaurants; there is only ever one row
+CREATE TABLE public.app_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  trash_retention_days INTEGER NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.app_settings DEFAULT VALUES;
+
+CREATE TRIGGER set_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE POLICY "Signed-in users can view app settings"
+  ON public.app_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update app settings"
+  ON public.app_settings FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Moves a restaurant, category or menu item and everything under it to the trash
+CREATE OR REPLACE FUNCTION public.move_to_trash(_table TEXT, _id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _restaurant_id UUID;
+BEGIN
+  _restaurant_id := CASE _table
+    WHEN 'restaurants' THEN (SELECT id FROM public.restaurants WHERE id = _id AND deleted_at IS NULL)
+    WHEN 'menu_categories' THEN (SELECT restaurant_id FROM public.menu_categories WHERE id = _id AND deleted_at IS NULL)
+    WHEN 'menu_items' THEN (SELECT public.menu_item_restaurant_id(id) FROM public.menu_items WHERE id = _id AND deleted_at IS NULL)
+  END;
+
+  IF _restaurant_id IS NULL
+    OR (_table = 'restaurants' AND NOT public.has_role(auth.uid(), 'admin'))
+    OR NOT public.can_manage_restaurant(auth.uid(), _restaurant_id)
+  THEN
+    RAISE EXCEPTION 'Nothing to delete';
+  END IF;
+
+  IF _table = 'restaurants' THEN
+    UPDATE public.restaurants SET deleted_at = now(), deleted_by = auth.uid() WHERE id = _id;
+
+    UPDATE public.menu_categories SET deleted_at = now(), deleted_by = auth.uid()
+    WHERE restaurant_id = _id AND deleted_at IS NULL;
+
+    UPDATE public.menu_items i SET deleted_at = now(), deleted_by = auth.uid()
+    FROM public.menu_categories c
+    WHERE c.id = i.category_id AND c.restaurant_id = _id AND i.deleted_at IS NULL;
+  ELSIF _table = 'menu_categories' THEN
+    UPDATE public.menu_categories SET deleted_at = now(), deleted_by = auth.uid() WHERE id = _id;
+
+    UPDATE public.menu_items SET deleted_at = now(), deleted_by = auth.uid()
+    WHERE category_id = _id AND deleted_at IS NULL;
+  ELSE
+    UPDATE public.menu_items SET deleted_at = now(), deleted_by = auth.uid() WHERE id = _id;
+  END IF;
+END;
+$$;
+
+-- Brings a trashed row back with the children that were trashed alongside it.
+-- Anything deleted on its own before that stays in the trash.
+CREATE OR REPLACE FUNCTION public.restore_from_trash(_table TEXT, _id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _restaurant_id UUID;
+  _deleted_at TIMESTAMPTZ;
+BEGIN
+  IF _table = 'restaurants' THEN
+    SELECT id, deleted_at INTO _restaurant_id, _deleted_at FROM public.restaurants WHERE id = _id;
+  ELSIF _table = 'menu_categories' THEN
+    SELECT restaurant_id, deleted_at INTO _restaurant_id, _deleted_at FROM public.menu_categories WHERE id = _id;
+  ELSIF _table = 'menu_items' THEN
+    SELECT public.menu_item_restaurant_id(id), deleted_at INTO _restaurant_id, _deleted_at FROM public.menu_items WHERE id = _id;
+  END IF;
+
+  IF _deleted_at IS NULL
+    OR (_table = 'restaurants' AND NOT public.has_role(auth.uid(), 'admin'))
+    OR NOT public.can_manage_restaurant(auth.uid(), _restaurant_id)
+  THEN
+    RAISE EXCEPTION 'Nothing to restore';
+  END IF;
+
+  IF _table <> 'restaurants' AND EXISTS (
+    SELECT 1 FROM public.restaurants WHERE id = _restaurant_id AND deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restore the restaurant first';
+  END IF;
+
+  IF _table = 'restaurants' THEN
+    UPDATE public.restaurants SET deleted_at = NULL, deleted_by = NULL WHERE id = _id;
+
+    UPDATE public.menu_items i SET deleted_at = NULL, deleted_by = NULL
+    FROM public.menu_categories c
+    WHERE c.id = i.category_id AND c.restaurant_id = _id AND i.deleted_at = _deleted_at;
+
+    UPDATE public.menu_categories SET deleted_at = NULL, deleted_by = NULL
+    WHERE restaurant_id = _id AND deleted_at = _deleted_at;
+  ELSIF _table = 'menu_categories' THEN
+    UPDATE public.menu_categories SET deleted_at = NULL, deleted_by = NULL WHERE id = _id;
+
+    UPDATE public.menu_items SET deleted_at = NULL, deleted_by = NULL
+    WHERE category_id = _id AND deleted_at = _deleted_at;
+  ELSE
+    IF EXISTS (
+      SELECT 1 FROM public.menu_items i
+      JOIN public.menu_categories c ON c.id = i.category_id
+      WHERE i.id = _id AND c.deleted_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Restore its category first';
+    END IF;
+
+    UPDATE public.menu_items SET deleted_at = NULL, deleted_by = NULL WHERE id = _id;
+  END IF;
+END;
+$$;
+
+-- What the caller can restore: each trashed row whose parent is still live,
+-- with how many children went to the trash with it
+CREATE OR REPLACE FUNCTION public.list_trash()
+RETURNS TABLE(
+  table_name TEXT,
+  id UUID,
+  name TEXT,
+  restaurant_id UUID,
+  parent_name TEXT,
+  deleted_at TIMESTAMPTZ,
+  deleted_by UUID,
+  categories INTEGER,
+  menu_items INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'restaurants', r.id, r.name, r.id, NULL, r.deleted_at, r.deleted_by,
+    (SELECT count(*)::int FROM public.menu_categories c WHERE c.restaurant_id = r.id AND c.deleted_at = r.deleted_at),
+    (SELECT count(*)::int FROM public.menu_items i JOIN public.menu_categories c ON c.id = i.category_id
+      WHERE c.restaurant_id = r.id AND i.deleted_at = r.deleted_at)
+  FROM public.restaurants r
+  WHERE r.deleted_at IS NOT NULL AND public.has_role(auth.uid(), 'admin')
+
+  UNION ALL
+
+  SELECT 'menu_categories', c.id, c.name, c.restaurant_id, r.name, c.deleted_at, c.deleted_by, 0,
+    (SELECT count(*)::int FROM public.menu_items i WHERE i.category_id = c.id AND i.deleted_at = c.deleted_at)
+  FROM public.menu_categories c
+  JOIN public.restaurants r ON r.id = c.restaurant_id
+  WHERE c.deleted_at IS NOT NULL AND r.deleted_at IS NULL
+    AND public.can_manage_restaurant(auth.uid(), c.restaurant_id)
+
+  UNION ALL
+
+  SELECT 'menu_items', i.id, i.name, c.restaurant_id, c.name, i.deleted_at, i.deleted_by, 0, 0
+  FROM public.menu_items i
+  JOIN public.menu_categories c ON c.id = i.category_id
+  JOIN public.restaurants r ON r.id = c.restaurant_id
+  WHERE i.deleted_at IS NOT NULL AND c.deleted_at IS NULL AND r.deleted_at IS NULL
+    AND public.can_manage_restaurant(auth.uid(), c.restaurant_id)
+
+  ORDER BY 6 DESC
+$$;
+
+-- Permanently removes whatever has been in the trash longer than the retention
+-- period. Runs nightly; the real deletes cascade as they always did.
+CREATE OR REPLACE FUNCTION public.purge_trash()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cutoff TIMESTAMPTZ;
+BEGIN
+  SELECT now() - make_interval(days => trash_retention_days) INTO _cutoff FROM public.app_settings;
+
+  DELETE FROM public.restaurants WHERE deleted_at < _cutoff;
+  DELETE FROM public.menu_categories WHERE deleted_at < _cutoff;
+  DELETE FROM public.menu_items WHERE deleted_at < _cutoff;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_trash() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-trash', '30 3 * * *', 'SELECT public.purge_trash()');
+
+-- Snapshots leave trashed rows out, and restoring one sends rows it doesn't
+-- have to the trash instead of deleting them
+CREATE OR REPLACE FUNCTION public.build_menu_snapshot(_restaurant_id UUID)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH categories AS (
+    SELECT * FROM public.menu_categories WHERE restaurant_id = _restaurant_id AND deleted_at IS NULL
+  ), items AS (
+    SELECT i.* FROM public.menu_items i JOIN categories c ON c.id = i.category_id WHERE i.deleted_at IS NULL
+  )
+  SELECT jsonb_build_object(
+    'categories', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(c) - 'created_at' - 'updated_at' - 'deleted_at' - 'deleted_by'
+          || jsonb_build_object('availability_windows', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('id', w.id, 'days', w.days, 'starts_at', w.starts_at, 'ends_at', w.ends_at) ORDER BY w.starts_at, w.id)
+            FROM public.availability_windows w
+            WHERE w.category_id = c.id
+          ), '[]'::jsonb))
+        ORDER BY c.display_order, c.id
+      )
+      FROM categories c
+    ), '[]'::jsonb),
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(i) - 'created_at' - 'updated_at' - 'deleted_at' - 'deleted_by'
+          || jsonb_build_object(
+            'menu_item_allergens', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('allergen_id', a.allergen_id) ORDER BY a.allergen_id)
+              FROM public.menu_item_allergens a
+              WHERE a.menu_item_id = i.id
+            ), '[]'::jsonb),
+            'availability_windows', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('id', w.id, 'days', w.days, 'starts_at', w.starts_at, 'ends_at', w.ends_at) ORDER BY w.starts_at, w.id)
+              FROM public.availability_windows w
+              WHERE w.menu_item_id = i.id
+            ), '[]'::jsonb)
+          )
+        ORDER BY i.display_order, i.id
+      )
+      FROM items i
+    ), '[]'::jsonb),
+    'modifier_groups', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(g) - 'created_at' - 'updated_at'
+          || jsonb_build_object('modifier_options', COALESCE((
+            SELECT jsonb_agg(to_jsonb(o) - 'created_at' - 'updated_at' ORDER BY o.display_order, o.id)
+            FROM public.modifier_options o
+            WHERE o.group_id = g.id
+          ), '[]'::jsonb))
+        ORDER BY g.display_order, g.id
+      )
+      FROM public.modifier_groups g
+      JOIN items i ON i.id = g.menu_item_id
+    ), '[]'::jsonb)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_menu_snapshot(_restaurant_id UUID, _snapshot JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category_ids UUID[] := ARRAY(SELECT (c->>'id')::uuid FROM jsonb_array_elements(_snapshot->'categories') c);
+  _item_ids UUID[] := ARRAY(SELECT (i->>'id')::uuid FROM jsonb_array_elements(_snapshot->'items') i);
+  _group_ids UUID[] := ARRAY(SELECT (g->>'id')::uuid FROM jsonb_array_elements(_snapshot->'modifier_groups') g);
+  _option_ids UUID[] := ARRAY(
+    SELECT (o->>'id')::uuid
+    FROM jsonb_array_elements(_snapshot->'modifier_groups') g, jsonb_array_elements(g->'modifier_options') o
+  );
+BEGIN
+  -- Categories and dishes the snapshot doesn't have go to the trash
+  UPDATE public.menu_categories
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE restaurant_id = _restaurant_id AND id <> ALL (_category_ids) AND deleted_at IS NULL;
+
+  UPDATE public.menu_items i
+  SET deleted_at = now(), deleted_by = auth.uid()
+  FROM public.menu_categories c
+  WHERE c.id = i.category_id AND c.restaurant_id = _restaurant_id AND i.id <> ALL (_item_ids) AND i.deleted_at IS NULL;
+
+  DELETE FROM public.modifier_groups
+  WHERE menu_item_id = ANY (_item_ids) AND id <> ALL (_group_ids);
+
+  DELETE FROM public.modifier_options
+  WHERE group_id = ANY (_group_ids) AND id <> ALL (_option_ids);
+
+  INSERT INTO public.menu_categories (id, restaurant_id, name, description, display_order, is_active)
+  SELECT id, _restaurant_id, name, description, display_order, is_active
+  FROM jsonb_populate_recordset(NULL::public.menu_categories, _snapshot->'categories')
+  ON CONFLICT (id) DO UPDATE SET
+    restaurant_id = EXCLUDED.restaurant_id,
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    display_order = EXCLUDED.display_order,
+    is_active = EXCLUDED.is_active,
+    deleted_at = NULL,
+    deleted_by = NULL;
+
+  INSERT INTO public.menu_items (id, category_id, name, description, price, image_url, is_vegetarian, is_vegan, is_spicy, is_available, display_order)
+  SELECT id, category_id, name, description, price, image_url, is_vegetarian, is_vegan, is_spicy, is_available, display_order
+  FROM jsonb_populate_recordset(NULL::public.menu_items, _snapshot->'items')
+  ON CONFLICT (id) DO UPDATE SET
+    category_id = EXCLUDED.category_id,
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    price = EXCLUDED.price,
+    image_url = EXCLUDED.image_url,
+    is_vegetarian = EXCLUDED.is_vegetarian,
+    is_vegan = EXCLUDED.is_vegan,
+    is_spicy = EXCLUDED.is_spicy,
+    is_available = EXCLUDED.is_available,
+    display_order = EXCLUDED.display_order,
+    deleted_at = NULL,
+    deleted_by = NULL;
+
+  INSERT INTO public.modifier_groups (id, menu_item_id, name, min_select, max_select, is_required, display_order)
+  SELECT id, menu_item_id, name, min_select, max_select, is_required, display_order
+  FROM jsonb_populate_recordset(NULL::public.modifier_groups, _snapshot->'modifier_groups')
+  ON CONFLICT (id) DO UPDATE SET
+    menu_item_id = EXCLUDED.menu_item_id,
+    name = EXCLUDED.name,
+    min_select = EXCLUDED.min_select,
+    max_select = EXCLUDED.max_select,
+    is_required = EXCLUDED.is_required,
+    display_order = EXCLUDED.display_order;
+
+  INSERT INTO public.modifier_options (id, group_id, name, price_delta, is_available, display_order)
+  SELECT o.id, o.group_id, o.name, o.price_delta, o.is_available, o.display_order
+  FROM jsonb_array_elements(_snapshot->'modifier_groups') g,
+    jsonb_populate_recordset(NULL::public.modifier_options, g->'modifier_options') o
+  ON CONFLICT (id) DO UPDATE SET
+    group_id = EXCLUDED.group_id,
+    name = EXCLUDED.name,
+    price_delta = EXCLUDED.price_delta,
+    is_available = EXCLUDED.is_available,
+    display_order = EXCLUDED.display_order;
+
+  -- Allergens and windows are small enough to replace outright
+  DELETE FROM public.menu_item_allergens WHERE menu_item_id = ANY (_item_ids);
+
+  INSERT INTO public.menu_item_allergens (menu_item_id, allergen_id)
+  SELECT (i->>'id')::uuid, a.allergen_id
+  FROM jsonb_array_elements(_snapshot->'items') i,
+    jsonb_populate_recordset(NULL::public.menu_item_allergens, i->'menu_item_allergens') a
+  WHERE EXISTS (SELECT 1 FROM public.allergens WHERE id = a.allergen_id);
+
+  DELETE FROM public.availability_windows
+  WHERE category_id = ANY (_category_ids) OR menu_item_id = ANY (_item_ids);
+
+  INSERT INTO public.availability_windows (id, category_id, days, starts_at, ends_at)
+  SELECT w.id, (c->>'id')::uuid, w.days, w.starts_at, w.ends_at
+  FROM jsonb_array_elements(_snapshot->'categories') c,
+    jsonb_populate_recordset(NULL::public.availability_windows, c->'availability_windows') w;
+
+  INSERT INTO public.availability_windows (id, menu_item_id, days, starts_at, ends_at)
+  SELECT w.id, (i->>'id')::uuid, w.days, w.starts_at, w.ends_at
+  FROM jsonb_array_elements(_snapshot->'items') i,
+    jsonb_populate_recordset(NULL::public.availability_windows, i->'availability_windows') w;
+END;
+$$;
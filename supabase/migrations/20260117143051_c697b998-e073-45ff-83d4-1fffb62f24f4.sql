@@ -0,0 +1,3 @@
+-- Stream newly published menus to diners who have the menu page open. The
+-- draft tables are staff-only, so the page listens for versions instead.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.menu_versions;
@@ -0,0 +1,3 @@
+-- Floor staff work a single restaurant, like managers, but only keep the
+-- availability board up to date. Added on its own so later migrations can use it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'floor';
@@ -0,0 +1,187 @@
+-- Floor staff hold a restaurant-scoped role, like managers
+ALTER TABLE public.staff_invites DROP CONSTRAINT IF EXISTS staff_invites_check;
+ALTER TABLE public.staff_invites ADD CONSTRAINT staff_invites_restaurant_scope
+  CHECK ((role IN ('manager', 'floor')) = (restaurant_id IS NOT NULL));
+
+-- Anyone who works at the restaurant: its managers, floor staff and admins
+CREATE OR REPLACE FUNCTION public.is_restaurant_staff(_user_id UUID, _restaurant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.can_manage_restaurant(_user_id, _restaurant_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_roles
+      WHERE user_id = _user_id
+        AND role = 'floor'
+        AND restaurant_id = _restaurant_id
+    )
+$$;
+
+CREATE POLICY "Floor staff can view their restaurants"
+  ON public.restaurants FOR SELECT
+  TO authenticated
+  USING (public.is_restaurant_staff(auth.uid(), id));
+
+CREATE OR REPLACE FUNCTION public.create_staff_invite(_email TEXT, _role app_role, _restaurant_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.staff_invites;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can invite staff';
+  END IF;
+
+  IF _role = 'user' THEN
+    RAISE EXCEPTION 'Invites are for admins, managers and floor staff';
+  END IF;
+
+  IF _role IN ('manager', 'floor') AND _restaurant_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the restaurant this person will work at';
+  END IF;
+
+  INSERT INTO public.staff_invites (email, role, restaurant_id, invited_by)
+  VALUES (lower(trim(_email)), _role, CASE WHEN _role IN ('manager', 'floor') THEN _restaurant_id END, auth.uid())
+  RETURNING * INTO _invite;
+
+  RETURN public.sign_staff_invite(_invite.id, _invite.email, _invite.expires_at);
+END;
+$$;
+
+-- Dishes that have run out ("86'd"). This is live service state, so it sits
+-- outside the draft and applies to the published menu straight away.
+CREATE TABLE public.sold_out_items (
+  menu_item_id UUID PRIMARY KEY REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  restaurant_id UUID NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  -- NULL keeps the dish off until someone turns it back on; once this time
+  -- passes it is available again. Turning it back on sets it to now.
+  until TIMESTAMPTZ,
+  marked_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.sold_out_items ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_sold_out_items_restaurant ON public.sold_out_items(restaurant_id);
+
+CREATE TRIGGER set_sold_out_items_updated_at
+  BEFORE UPDATE ON public.sold_out_items
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE POLICY "Anyone can view sold out items"
+  ON public.sold_out_items FOR SELECT
+  USING (true);
+
+CREATE POLICY "Restaurant staff can mark items sold out"
+  ON public.sold_out_items FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_staff(auth.uid(), restaurant_id))
+  WITH CHECK (
+    public.is_restaurant_staff(auth.uid(), restaurant_id)
+    AND restaurant_id = public.menu_item_restaurant_id(menu_item_id)
+  );
+
+CREATE OR REPLACE FUNCTION public.is_sold_out(_menu_item_id UUID, _at TIMESTAMPTZ DEFAULT now())
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.sold_out_items
+    WHERE menu_item_id = _menu_item_id
+      AND (until IS NULL OR until > _at)
+  )
+$$;
+
+-- Boards on several devices and open menu pages follow along
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sold_out_items;
+
+-- Sold out dishes can't be ordered
+CREATE OR REPLACE FUNCTION public.handle_order_item_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _menu JSONB;
+  _item JSONB;
+  _options JSONB;
+  _group JSONB;
+  _selected INTEGER;
+BEGIN
+  SELECT public.published_menu(restaurant_id) INTO _menu FROM public.orders WHERE id = NEW.order_id;
+
+  SELECT i INTO _item
+  FROM jsonb_array_elements(_menu->'items') i
+  JOIN jsonb_array_elements(_menu->'categories') c ON c->>'id' = i->>'category_id'
+  WHERE i->>'id' = NEW.menu_item_id::text
+    AND (i->>'is_available')::boolean
+    AND (c->>'is_active')::boolean;
+
+  IF _item IS NULL THEN
+    RAISE EXCEPTION 'Menu item % is not available', NEW.menu_item_id;
+  END IF;
+
+  IF public.is_sold_out(NEW.menu_item_id) THEN
+    RAISE EXCEPTION '% is sold out', _item->>'name';
+  END IF;
+
+  -- The chosen options, each tagged with its group for the order line
+  SELECT COALESCE(jsonb_agg(o || jsonb_build_object('group', g->'name', 'group_order', g->'display_order')), '[]'::jsonb)
+  INTO _options
+  FROM jsonb_array_elements(_menu->'modifier_groups') g, jsonb_array_elements(g->'modifier_options') o
+  WHERE g->>'menu_item_id' = NEW.menu_item_id::text
+    AND (o->>'id')::uuid = ANY (NEW.modifier_option_ids)
+    AND (o->>'is_available')::boolean;
+
+  IF jsonb_array_length(_options) <> cardinality(ARRAY(SELECT DISTINCT unnest(NEW.modifier_option_ids))) THEN
+    RAISE EXCEPTION 'Invalid options selected for %', _item->>'name';
+  END IF;
+
+  FOR _group IN
+    SELECT g
+    FROM jsonb_array_elements(_menu->'modifier_groups') g
+    WHERE g->>'menu_item_id' = NEW.menu_item_id::text
+  LOOP
+    SELECT count(*)
+    INTO _selected
+    FROM jsonb_array_elements(_options) o
+    WHERE o->>'group_id' = _group->>'id';
+
+    IF _selected < GREATEST((_group->>'min_select')::int, CASE WHEN (_group->>'is_required')::boolean THEN 1 ELSE 0 END)
+      OR _selected > (_group->>'max_select')::int THEN
+      RAISE EXCEPTION 'Invalid selection for "%" on %', _group->>'name', _item->>'name';
+    END IF;
+  END LOOP;
+
+  -- Dishes already deleted from the draft can be ordered until the next publish
+  IF NOT EXISTS (SELECT 1 FROM public.menu_items WHERE id = NEW.menu_item_id) THEN
+    NEW.menu_item_id = NULL;
+  END IF;
+
+  NEW.item_name = _item->>'name';
+  NEW.unit_price = (_item->>'price')::numeric + COALESCE((
+    SELECT sum((o->>'price_delta')::numeric)
+    FROM jsonb_array_elements(_options) o
+  ), 0);
+  NEW.modifiers = COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object('id', o->'id', 'group', o->'group', 'name', o->'name', 'price_delta', o->'price_delta')
+      ORDER BY (o->>'group_order')::int, (o->>'display_order')::int
+    )
+    FROM jsonb_array_elements(_options) o
+  ), '[]'::jsonb);
+  RETURN NEW;
+END;
+$function$;
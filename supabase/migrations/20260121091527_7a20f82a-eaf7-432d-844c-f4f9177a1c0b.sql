@@ -0,0 +1,119 @@
+-- Uploaded images are re-encoded in the browser into several widths and formats.
+-- The *_url column keeps pointing at the most compatible variant; the matching
+-- *_meta column lists the variants and a blurhash placeholder.
+ALTER TABLE public.menu_items ADD COLUMN image_meta JSONB;
+ALTER TABLE public.restaurants
+  ADD COLUMN logo_meta JSONB,
+  ADD COLUMN banner_meta JSONB;
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif']
+WHERE id = 'menu-images';
+
+-- Rolling back a menu version brings the image variants back with the URL
+CREATE OR REPLACE FUNCTION public.restore_menu_snapshot(_restaurant_id UUID, _snapshot JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category_ids UUID[] := ARRAY(SELECT (c->>'id')::uuid FROM jsonb_array_elements(_snapshot->'categories') c);
+  _item_ids UUID[] := ARRAY(SELECT (i->>'id')::uuid FROM jsonb_array_elements(_snapshot->'items') i);
+  _group_ids UUID[] := ARRAY(SELECT (g->>'id')::uuid FROM jsonb_array_elements(_snapshot->'modifier_groups') g);
+  _option_ids UUID[] := ARRAY(
+    SELECT (o->>'id')::uuid
+    FROM jsonb_array_elements(_snapshot->'modifier_groups') g, jsonb_array_elements(g->'modifier_options') o
+  );
+BEGIN
+  -- Categories and dishes the snapshot doesn't have go to the trash
+  UPDATE public.menu_categories
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE restaurant_id = _restaurant_id AND id <> ALL (_category_ids) AND deleted_at IS NULL;
+
+  UPDATE public.menu_items i
+  SET deleted_at = now(), deleted_by = auth.uid()
+  FROM public.menu_categories c
+  WHERE c.id = i.category_id AND c.restaurant_id = _restaurant_id AND i.id <> ALL (_item_ids) AND i.deleted_at IS NULL;
+
+  DELETE FROM public.modifier_groups
+  WHERE menu_item_id = ANY (_item_ids) AND id <> ALL (_group_ids);
+
+  DELETE FROM public.modifier_options
+  WHERE group_id = ANY (_group_ids) AND id <> ALL (_option_ids);
+
+  INSERT INTO public.menu_categories (id, restaurant_id, name, description, display_order, is_active)
+  SELECT id, _restaurant_id, name, description, display_order, is_active
+  FROM jsonb_populate_recordset(NULL::public.menu_categories, _snapshot->'categories')
+  ON CONFLICT (id) DO UPDATE SET
+    restaurant_id = EXCLUDED.restaurant_id,
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    display_order = EXCLUDED.display_order,
+    is_active = EXCLUDED.is_active,
+    deleted_at = NULL,
+    deleted_by = NULL;
+
+  INSERT INTO public.menu_items (id, category_id, name, description, price, image_url, image_meta, is_vegetarian, is_vegan, is_spicy, is_available, display_order)
+  SELECT id, category_id, name, description, price, image_url, image_meta, is_vegetarian, is_vegan, is_spicy, is_available, display_order
+  FROM jsonb_populate_recordset(NULL::public.menu_items, _snapshot->'items')
+  ON CONFLICT (id) DO UPDATE SET
+    category_id = EXCLUDED.category_id,
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    price = EXCLUDED.price,
+    image_url = EXCLUDED.image_url,
+    image_meta = EXCLUDED.image_meta,
+    is_vegetarian = EXCLUDED.is_vegetarian,
+    is_vegan = EXCLUDED.is_vegan,
+    is_spicy = EXCLUDED.is_spicy,
+    is_available = EXCLUDED.is_available,
+    display_order = EXCLUDED.display_order,
+    deleted_at = NULL,
+    deleted_by = NULL;
+
+  INSERT INTO public.modifier_groups (id, menu_item_id, name, min_select, max_select, is_required, display_order)
+  SELECT id, menu_item_id, name, min_select, max_select, is_required, display_order
+  FROM jsonb_populate_recordset(NULL::public.modifier_groups, _snapshot->'modifier_groups')
+  ON CONFLICT (id) DO UPDATE SET
+    menu_item_id = EXCLUDED.menu_item_id,
+    name = EXCLUDED.name,
+    min_select = EXCLUDED.min_select,
+    max_select = EXCLUDED.max_select,
+    is_required = EXCLUDED.is_required,
+    display_order = EXCLUDED.display_order;
+
+  INSERT INTO public.modifier_options (id, group_id, name, price_delta, is_available, display_order)
+  SELECT o.id, o.group_id, o.name, o.price_delta, o.is_available, o.display_order
+  FROM jsonb_array_elements(_snapshot->'modifier_groups') g,
+    jsonb_populate_recordset(NULL::public.modifier_options, g->'modifier_options') o
+  ON CONFLICT (id) DO UPDATE SET
+    group_id = EXCLUDED.group_id,
+    name = EXCLUDED.name,
+    price_delta = EXCLUDED.price_delta,
+    is_available = EXCLUDED.is_available,
+    display_order = EXCLUDED.display_order;
+
+  -- Allergens and windows are small enough to replace outright
+  DELETE FROM public.menu_item_allergens WHERE menu_item_id = ANY (_item_ids);
+
+  INSERT INTO public.menu_item_allergens (menu_item_id, allergen_id)
+  SELECT (i->>'id')::uuid, a.allergen_id
+  FROM jsonb_array_elements(_snapshot->'items') i,
+    jsonb_populate_recordset(NULL::public.menu_item_allergens, i->'menu_item_allergens') a
+  WHERE EXISTS (SELECT 1 FROM public.allergens WHERE id = a.allergen_id);
+
+  DELETE FROM public.availability_windows
+  WHERE category_id = ANY (_category_ids) OR menu_item_id = ANY (_item_ids);
+
+  INSERT INTO public.availability_windows (id, category_id, days, starts_at, ends_at)
+  SELECT w.id, (c->>'id')::uuid, w.days, w.starts_at, w.ends_at
+  FROM jsonb_array_elements(_snapshot->'categories') c,
+    jsonb_populate_recordset(NULL::public.availability_windows, c->'availability_windows') w;
+
+  INSERT INTO public.availability_windows (id, menu_item_id, days, starts_at, ends_at)
+  SELECT w.id, (i->>'id')::uuid, w.days, w.starts_at, w.ends_at
+  FROM jsonb_array_elements(_snapshot->'items') i,
+    jsonb_populate_recordset(NULL::public.availability_windows, i->'availability_windows') w;
+END;
+$$;
@@ -0,0 +1,133 @@
+-- Path of a public URL inside the menu-images bucket, or NULL for outside links
+CREATE OR REPLACE FUNCTION public.media_object_path(_url TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT substring(_url FROM '/storage/v1/object/public/menu-images/(.+)$')
+$$;
+
+-- Processed uploads keep every variant (`<width>.<format>`) in a folder of their
+-- own, so the folder is the image. Older uploads are a single file.
+CREATE OR REPLACE FUNCTION public.media_asset_key(_path TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _path ~ '/[0-9]+\.(avif|webp|jpeg)$' THEN regexp_replace(_path, '/[^/]+$', '')
+    ELSE _path
+  END
+$$;
+
+-- Everything that points at an image: live and trashed rows, which can still be
+-- restored, and published menu versions, which can still be rolled back to
+CREATE OR REPLACE FUNCTION public.media_references()
+RETURNS TABLE(asset TEXT, kind TEXT, record_id UUID, label TEXT, restaurant_id UUID, trashed BOOLEAN, meta JSONB)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.media_asset_key(public.media_object_path(r.logo_url)), 'logo', r.id, r.name, r.id,
+    r.deleted_at IS NOT NULL, r.logo_meta
+  FROM public.restaurants r
+  WHERE public.media_object_path(r.logo_url) IS NOT NULL
+
+  UNION ALL
+
+  SELECT public.media_asset_key(public.media_object_path(r.banner_image_url)), 'banner', r.id, r.name, r.id,
+    r.deleted_at IS NOT NULL, r.banner_meta
+  FROM public.restaurants r
+  WHERE public.media_object_path(r.banner_image_url) IS NOT NULL
+
+  UNION ALL
+
+  SELECT public.media_asset_key(public.media_object_path(i.image_url)), 'menu_item', i.id, i.name, c.restaurant_id,
+    i.deleted_at IS NOT NULL OR c.deleted_at IS NOT NULL, i.image_meta
+  FROM public.menu_items i
+  JOIN public.menu_categories c ON c.id = i.category_id
+  WHERE public.media_object_path(i.image_url) IS NOT NULL
+
+  UNION ALL
+
+  SELECT DISTINCT ON (v.id, public.media_asset_key(public.media_object_path(item->>'image_url')))
+    public.media_asset_key(public.media_object_path(item->>'image_url')), 'menu_version', v.id,
+    'Version ' || v.version, v.restaurant_id, false, item->'image_meta'
+  FROM public.menu_versions v, jsonb_array_elements(v.snapshot->'items') item
+  WHERE public.media_object_path(item->>'image_url') IS NOT NULL
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.media_references() FROM PUBLIC, anon, authenticated;
+
+-- One row per image in the bucket the caller can manage, with its files and
+-- whatever references it. `path` is the file to link to when reusing it.
+CREATE OR REPLACE FUNCTION public.list_media()
+RETURNS TABLE(
+  asset TEXT,
+  restaurant_id UUID,
+  restaurant_name TEXT,
+  path TEXT,
+  paths TEXT[],
+  size BIGINT,
+  created_at TIMESTAMPTZ,
+  meta JSONB,
+  refs JSONB
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH objects AS (
+    SELECT
+      o.name,
+      public.media_asset_key(o.name) AS asset,
+      public.storage_object_restaurant_id(o.name) AS restaurant_id,
+      COALESCE((o.metadata->>'size')::bigint, 0) AS size,
+      o.created_at,
+      o.user_metadata
+    FROM storage.objects o
+    WHERE o.bucket_id = 'menu-images'
+      AND public.can_manage_restaurant(auth.uid(), public.storage_object_restaurant_id(o.name))
+  ),
+  assets AS (
+    SELECT
+      asset,
+      restaurant_id,
+      -- Prefer the widest variant in a format every browser shows
+      (array_agg(name ORDER BY name ~ '\.avif$', substring(name FROM '/([0-9]+)\.[a-z]+$')::int DESC NULLS LAST))[1] AS path,
+      array_agg(name ORDER BY name) AS paths,
+      sum(size)::bigint AS size,
+      min(created_at) AS created_at,
+      (array_agg(user_metadata) FILTER (WHERE user_metadata ? 'blurhash'))[1] AS meta
+    FROM objects
+    GROUP BY asset, restaurant_id
+  ),
+  refs AS (
+    SELECT
+      asset,
+      jsonb_agg(jsonb_build_object(
+        'kind', kind, 'id', record_id, 'label', label, 'restaurant_id', restaurant_id, 'trashed', trashed
+      ) ORDER BY kind, label) AS refs,
+      (array_agg(meta) FILTER (WHERE meta IS NOT NULL))[1] AS meta
+    FROM public.media_references()
+    GROUP BY asset
+  )
+  SELECT
+    a.asset,
+    a.restaurant_id,
+    r.name,
+    a.path,
+    a.paths,
+    a.size,
+    a.created_at,
+    COALESCE(a.meta, m.meta),
+    COALESCE(m.refs, '[]'::jsonb)
+  FROM assets a
+  LEFT JOIN refs m ON m.asset = a.asset
+  LEFT JOIN public.restaurants r ON r.id = a.restaurant_id
+  ORDER BY a.created_at DESC
+$$;
@@ -0,0 +1,53 @@
+-- Places an order and its items in one transaction. If any item is turned
+-- down (sold out, outside its hours, invalid options) the order goes too, so
+-- the kitchen never sees an empty ticket. Prices, names and the table number
+-- are still filled in by the insert triggers.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _restaurant_id UUID,
+  _items JSONB,
+  _table_id UUID DEFAULT NULL,
+  _customer_name TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.restaurants
+    WHERE id = _restaurant_id AND is_active = true AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This restaurant is not taking orders';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  INSERT INTO public.orders (restaurant_id, table_id, customer_name, notes)
+  VALUES (_restaurant_id, _table_id, NULLIF(trim(_customer_name), ''), NULLIF(trim(_notes), ''))
+  RETURNING id INTO _order_id;
+
+  INSERT INTO public.order_items (order_id, menu_item_id, item_name, unit_price, quantity, modifier_option_ids)
+  SELECT
+    _order_id,
+    (i->>'menu_item_id')::uuid,
+    COALESCE(i->>'item_name', ''),
+    0,
+    (i->>'quantity')::int,
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(i->'modifier_option_ids', '[]'::jsonb))::uuid)
+  FROM jsonb_array_elements(_items) i;
+
+  RETURN _order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, JSONB, UUID, TEXT, TEXT) TO anon, authenticated;
+
+-- Guests place orders through place_order only
+DROP POLICY IF EXISTS "Anyone can place orders at active restaurants" ON public.orders;
+DROP POLICY IF EXISTS "Anyone can add items to a new order" ON public.order_items;
@@ -0,0 +1,7 @@
+-- Stream waiter calls and bill requests to the kitchen display
+ALTER TABLE public.service_requests REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.service_requests;
+
+CREATE INDEX idx_service_requests_open
+  ON public.service_requests(restaurant_id, created_at)
+  WHERE resolved_at IS NULL;
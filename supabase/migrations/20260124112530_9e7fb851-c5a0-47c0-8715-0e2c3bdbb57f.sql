@@ -0,0 +1,71 @@
+-- Applies a reviewed menu import in one transaction, so a failure halfway
+-- leaves the menu as it was instead of half imported. Rows with an id update
+-- that item; the rest are added at the end of their category. Categories are
+-- matched by name and created when missing.
+CREATE OR REPLACE FUNCTION public.import_menu_items(_restaurant_id UUID, _items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _category_id UUID;
+BEGIN
+  IF NOT public.can_manage_restaurant(auth.uid(), _restaurant_id) THEN
+    RAISE EXCEPTION 'You do not manage this restaurant';
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT id INTO _category_id
+    FROM public.menu_categories
+    WHERE restaurant_id = _restaurant_id
+      AND deleted_at IS NULL
+      AND lower(trim(name)) = lower(trim(_item->>'category'))
+    ORDER BY display_order
+    LIMIT 1;
+
+    IF _category_id IS NULL THEN
+      INSERT INTO public.menu_categories (restaurant_id, name, display_order)
+      SELECT _restaurant_id, trim(_item->>'category'), COALESCE(MAX(display_order) + 1, 0)
+      FROM public.menu_categories
+      WHERE restaurant_id = _restaurant_id AND deleted_at IS NULL
+      RETURNING id INTO _category_id;
+    END IF;
+
+    IF _item->>'id' IS NOT NULL THEN
+      UPDATE public.menu_items
+      SET category_id = _category_id,
+          name = _item->>'name',
+          description = _item->>'description',
+          price = (_item->>'price')::numeric,
+          is_vegetarian = (_item->>'is_vegetarian')::boolean,
+          is_vegan = (_item->>'is_vegan')::boolean,
+          is_spicy = (_item->>'is_spicy')::boolean,
+          image_url = _item->>'image_url'
+      WHERE id = (_item->>'id')::uuid
+        AND deleted_at IS NULL
+        AND category_id IN (SELECT id FROM public.menu_categories WHERE restaurant_id = _restaurant_id);
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% is no longer on the menu. Upload the file again.', _item->>'name';
+      END IF;
+    ELSE
+      INSERT INTO public.menu_items (category_id, name, description, price, is_vegetarian, is_vegan, is_spicy, image_url, display_order)
+      SELECT
+        _category_id,
+        _item->>'name',
+        _item->>'description',
+        (_item->>'price')::numeric,
+        (_item->>'is_vegetarian')::boolean,
+        (_item->>'is_vegan')::boolean,
+        (_item->>'is_spicy')::boolean,
+        _item->>'image_url',
+        COALESCE(MAX(display_order) + 1, 0)
+      FROM public.menu_items
+      WHERE category_id = _category_id AND deleted_at IS NULL;
+    END IF;
+  END LOOP;
+END;
+$$;
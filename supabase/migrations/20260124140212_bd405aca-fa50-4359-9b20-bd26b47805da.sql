@@ -0,0 +1,181 @@
+-- Menu imports can carry a whole JSON export: category settings and hours,
+-- empty categories, and each item's allergens, hours and options, plus the
+-- restaurant theme. Everything still goes in one transaction.
+DROP FUNCTION IF EXISTS public.import_menu_items(UUID, JSONB);
+
+-- Finds a category by name, case-insensitively, or adds it at the end
+CREATE OR REPLACE FUNCTION public.import_menu_category(_restaurant_id UUID, _name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category_id UUID;
+BEGIN
+  SELECT id INTO _category_id
+  FROM public.menu_categories
+  WHERE restaurant_id = _restaurant_id
+    AND deleted_at IS NULL
+    AND lower(trim(name)) = lower(trim(_name))
+  ORDER BY display_order
+  LIMIT 1;
+
+  IF _category_id IS NULL THEN
+    INSERT INTO public.menu_categories (restaurant_id, name, display_order)
+    SELECT _restaurant_id, trim(_name), COALESCE(MAX(display_order) + 1, 0)
+    FROM public.menu_categories
+    WHERE restaurant_id = _restaurant_id AND deleted_at IS NULL
+    RETURNING id INTO _category_id;
+  END IF;
+
+  RETURN _category_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_menu_category(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Rows with an id update that item; the rest are added at the end of their
+-- category. Allergens, hours, options, availability and image metadata are
+-- only touched when the row carries them.
+CREATE OR REPLACE FUNCTION public.import_menu_items(
+  _restaurant_id UUID,
+  _items JSONB,
+  _categories JSONB DEFAULT '[]',
+  _theme JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _category JSONB;
+  _item JSONB;
+  _group JSONB;
+  _category_id UUID;
+  _item_id UUID;
+  _group_id UUID;
+  _restaurant public.restaurants;
+BEGIN
+  IF NOT public.can_manage_restaurant(auth.uid(), _restaurant_id) THEN
+    RAISE EXCEPTION 'You do not manage this restaurant';
+  END IF;
+
+  IF _theme IS NOT NULL THEN
+    SELECT * INTO _restaurant FROM public.restaurants WHERE id = _restaurant_id;
+    _restaurant := jsonb_populate_record(_restaurant, _theme);
+
+    UPDATE public.restaurants
+    SET theme_color = _restaurant.theme_color,
+        background_color = _restaurant.background_color,
+        text_color = _restaurant.text_color,
+        card_color = _restaurant.card_color,
+        card_text_color = _restaurant.card_text_color,
+        price_color = _restaurant.price_color,
+        category_header_color = _restaurant.category_header_color,
+        button_color = _restaurant.button_color,
+        button_text_color = _restaurant.button_text_color,
+        border_color = _restaurant.border_color,
+        header_gradient_start = _restaurant.header_gradient_start,
+        header_gradient_end = _restaurant.header_gradient_end,
+        font_family = _restaurant.font_family
+    WHERE id = _restaurant_id;
+  END IF;
+
+  FOR _category IN SELECT * FROM jsonb_array_elements(COALESCE(_categories, '[]'))
+  LOOP
+    _category_id := public.import_menu_category(_restaurant_id, _category->>'name');
+
+    UPDATE public.menu_categories
+    SET description = _category->>'description',
+        is_active = COALESCE((_category->>'is_active')::boolean, true)
+    WHERE id = _category_id;
+
+    DELETE FROM public.availability_windows WHERE category_id = _category_id;
+
+    INSERT INTO public.availability_windows (category_id, days, starts_at, ends_at)
+    SELECT _category_id, w.days, w.starts_at, w.ends_at
+    FROM jsonb_populate_recordset(NULL::public.availability_windows, COALESCE(_category->'availability_windows', '[]')) w;
+  END LOOP;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _category_id := public.import_menu_category(_restaurant_id, _item->>'category');
+
+    IF _item->>'id' IS NOT NULL THEN
+      UPDATE public.menu_items
+      SET category_id = _category_id,
+          name = _item->>'name',
+          description = _item->>'description',
+          price = (_item->>'price')::numeric,
+          is_vegetarian = (_item->>'is_vegetarian')::boolean,
+          is_vegan = (_item->>'is_vegan')::boolean,
+          is_spicy = (_item->>'is_spicy')::boolean,
+          image_url = _item->>'image_url',
+          image_meta = CASE WHEN _item ? 'image_meta' THEN NULLIF(_item->'image_meta', 'null') ELSE image_meta END,
+          is_available = COALESCE((_item->>'is_available')::boolean, is_available)
+      WHERE id = (_item->>'id')::uuid
+        AND deleted_at IS NULL
+        AND category_id IN (SELECT id FROM public.menu_categories WHERE restaurant_id = _restaurant_id)
+      RETURNING id INTO _item_id;
+
+      IF _item_id IS NULL THEN
+        RAISE EXCEPTION '% is no longer on the menu. Upload the file again.', _item->>'name';
+      END IF;
+    ELSE
+      INSERT INTO public.menu_items (category_id, name, description, price, is_vegetarian, is_vegan, is_spicy, image_url, image_meta, is_available, display_order)
+      SELECT
+        _category_id,
+        _item->>'name',
+        _item->>'description',
+        (_item->>'price')::numeric,
+        (_item->>'is_vegetarian')::boolean,
+        (_item->>'is_vegan')::boolean,
+        (_item->>'is_spicy')::boolean,
+        _item->>'image_url',
+        NULLIF(_item->'image_meta', 'null'),
+        COALESCE((_item->>'is_available')::boolean, true),
+        COALESCE(MAX(display_order) + 1, 0)
+      FROM public.menu_items
+      WHERE category_id = _category_id AND deleted_at IS NULL
+      RETURNING id INTO _item_id;
+    END IF;
+
+    IF _item ? 'allergens' THEN
+      DELETE FROM public.menu_item_allergens WHERE menu_item_id = _item_id;
+
+      INSERT INTO public.menu_item_allergens (menu_item_id, allergen_id)
+      SELECT _item_id, a.id
+      FROM jsonb_array_elements_text(_item->'allergens') allergen
+      JOIN public.allergens a ON a.id = allergen;
+    END IF;
+
+    IF _item ? 'availability_windows' THEN
+      DELETE FROM public.availability_windows WHERE menu_item_id = _item_id;
+
+      INSERT INTO public.availability_windows (menu_item_id, days, starts_at, ends_at)
+      SELECT _item_id, w.days, w.starts_at, w.ends_at
+      FROM jsonb_populate_recordset(NULL::public.availability_windows, _item->'availability_windows') w;
+    END IF;
+
+    IF _item ? 'modifier_groups' THEN
+      DELETE FROM public.modifier_groups WHERE menu_item_id = _item_id;
+
+      FOR _group IN SELECT * FROM jsonb_array_elements(_item->'modifier_groups')
+      LOOP
+        INSERT INTO public.modifier_groups (menu_item_id, name, min_select, max_select, is_required, display_order)
+        SELECT _item_id, g.name, g.min_select, g.max_select, g.is_required, g.display_order
+        FROM jsonb_populate_record(NULL::public.modifier_groups, _group) g
+        RETURNING id INTO _group_id;
+
+        INSERT INTO public.modifier_options (group_id, name, price_delta, is_available, display_order)
+        SELECT _group_id, o.name, o.price_delta, COALESCE(o.is_available, true), o.display_order
+        FROM jsonb_populate_recordset(NULL::public.modifier_options, COALESCE(_group->'options', '[]')) o;
+      END LOOP;
+    END IF;
+
+    _item_id := NULL;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- The allow-list is only checked by the auth.users trigger. Callable from the
+-- browser it told anyone whether an email had a pending invite.
+REVOKE EXECUTE ON FUNCTION public.is_signup_allowed(TEXT) FROM PUBLIC, anon, authenticated;
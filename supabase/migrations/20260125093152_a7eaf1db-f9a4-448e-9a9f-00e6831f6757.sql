@@ -0,0 +1,47 @@
+-- Purging the trash no longer takes order history or live dishes with it.
+-- Restaurants that have taken orders stay in the trash, since deleting them
+-- would cascade to their orders. Categories and dishes that the published
+-- menu still shows wait until a version without them is published.
+CREATE OR REPLACE FUNCTION public.purge_trash()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cutoff TIMESTAMPTZ;
+  _published_categories UUID[];
+  _published_items UUID[];
+BEGIN
+  SELECT now() - make_interval(days => trash_retention_days) INTO _cutoff FROM public.app_settings;
+
+  _published_categories := ARRAY(
+    SELECT (c->>'id')::uuid
+    FROM public.restaurants r,
+      jsonb_array_elements(COALESCE(public.published_menu(r.id)->'categories', '[]')) c
+  );
+  _published_items := ARRAY(
+    SELECT (i->>'id')::uuid
+    FROM public.restaurants r,
+      jsonb_array_elements(COALESCE(public.published_menu(r.id)->'items', '[]')) i
+  );
+
+  DELETE FROM public.restaurants r
+  WHERE r.deleted_at < _cutoff
+    AND NOT EXISTS (SELECT 1 FROM public.orders o WHERE o.restaurant_id = r.id);
+
+  DELETE FROM public.menu_categories c
+  WHERE c.deleted_at < _cutoff
+    AND c.id <> ALL (_published_categories)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.menu_items i
+      WHERE i.category_id = c.id AND i.id = ANY (_published_items)
+    );
+
+  DELETE FROM public.menu_items
+  WHERE deleted_at < _cutoff
+    AND id <> ALL (_published_items);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_trash() FROM PUBLIC, anon, authenticated;